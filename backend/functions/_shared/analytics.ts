@@ -0,0 +1,331 @@
+// analytics.ts – pipeline metrics computed from candidates and their history
+//
+// Pure functions over rows loaded by role_analytics:
+//
+//   funnel        how many candidates reached each stage and the conversion
+//                 to the next.  Skipping a stage counts as passing it, so a
+//                 sourced candidate who replied straight away has also been
+//                 screened and contacted.  Rejections and withdrawals are
+//                 counted against the stage they left.
+//   time in stage median hours between entering a stage and leaving it,
+//                 from candidate_status_history, plus how long the candidates
+//                 still in it have been waiting
+//   responses     median hours from the first email to the first reply and
+//                 from the first reply to a booked interview (engagements)
+//   outreach      open, reply and bounce rates per sequence step and email
+//                 provider.  Events are matched to the email they answer by
+//                 provider message id, else to the last email sent before
+//                 them; each email counts once per kind of event.
+//   sources       yield of each candidate source (x-ray, Apollo, resume
+//                 upload, manual entry, rediscovered from other roles)
+
+import { CandidateStatus } from './status.ts';
+
+export const FUNNEL_STAGES: CandidateStatus[] = ['sourced', 'screened', 'contacted', 'interested', 'interviewing', 'offered', 'hired'];
+
+const FINAL_STATUSES = ['hired', 'rejected', 'withdrawn'];
+
+// Older rows have no `source`; the function that created them tells
+const SOURCE_FOR_ACTOR: Record<string, string> = {
+  'system:apollo_enrich': 'apollo',
+  'system:ingest_resume': 'upload',
+  'system:screen_resume': 'manual',
+};
+
+export interface AnalyticsCandidate {
+  id: string;
+  role_id: string;
+  status: string;
+  source: string | null;
+  created_at: string;
+}
+
+export interface HistoryRow {
+  candidate_id: string;
+  from_status: string | null;
+  to_status: string;
+  actor: string;
+  created_at: string;
+}
+
+export interface EngagementRow {
+  candidate_id: string;
+  event: string;
+  payload: any;
+  classification: string | null;
+  created_at: string;
+}
+
+export interface FunnelStage {
+  stage: CandidateStatus;
+  reached: number;
+  current: number;
+  // Share of those who reached this stage that reached the next one
+  conversion: number | null;
+}
+
+export interface Funnel {
+  total: number;
+  stages: FunnelStage[];
+  rejected: Record<string, number>;
+  withdrawn: Record<string, number>;
+}
+
+export interface StageTime {
+  median_hours: number | null;
+  samples: number;
+  waiting: number;
+  waiting_median_hours: number | null;
+}
+
+export interface Duration {
+  median_hours: number | null;
+  samples: number;
+}
+
+export interface OutreachRates {
+  step: number;
+  provider: string;
+  sent: number;
+  opened: number;
+  replied: number;
+  bounced: number;
+  open_rate: number;
+  reply_rate: number;
+  bounce_rate: number;
+}
+
+export interface SourceYield {
+  source: string;
+  candidates: number;
+  reached: Record<string, number>;
+  interested_rate: number;
+  hired_rate: number;
+}
+
+export interface PipelineReport {
+  funnel: Funnel;
+  time_in_stage: Record<string, StageTime>;
+  responses: { first_reply: Duration; reply_to_interview: Duration };
+  outreach: OutreachRates[];
+  sources: SourceYield[];
+}
+
+export function median(values: number[]): number | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const value = sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  return Math.round(value * 10) / 10;
+}
+
+function ratio(count: number, total: number): number {
+  return total ? Math.round((count / total) * 10000) / 10000 : 0;
+}
+
+function hoursBetween(from: string, to: string | Date): number {
+  return (new Date(to).getTime() - new Date(from).getTime()) / 3_600_000;
+}
+
+export function groupBy<T extends { candidate_id: string; created_at: string }>(rows: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const list = groups.get(row.candidate_id) || [];
+    list.push(row);
+    groups.set(row.candidate_id, list);
+  }
+  for (const list of groups.values()) list.sort((a, b) => a.created_at.localeCompare(b.created_at));
+  return groups;
+}
+
+export function sourceOf(candidate: AnalyticsCandidate, history: HistoryRow[] = []): string {
+  return candidate.source || SOURCE_FOR_ACTOR[history[0]?.actor] || 'unknown';
+}
+
+// Index of the furthest funnel stage the candidate ever reached
+function furthestStage(candidate: AnalyticsCandidate, history: HistoryRow[]): number {
+  let furthest = 0;
+  for (const status of [candidate.status, ...history.flatMap((h) => [h.from_status, h.to_status])]) {
+    furthest = Math.max(furthest, FUNNEL_STAGES.indexOf(status as CandidateStatus));
+  }
+  return furthest;
+}
+
+export function funnel(candidates: AnalyticsCandidate[], history: Map<string, HistoryRow[]>): Funnel {
+  const reached = FUNNEL_STAGES.map(() => 0);
+  const current: Record<string, number> = {};
+  const rejected: Record<string, number> = {};
+  const withdrawn: Record<string, number> = {};
+  for (const candidate of candidates) {
+    const rows = history.get(candidate.id) || [];
+    const furthest = furthestStage(candidate, rows);
+    for (let i = 0; i <= furthest; i++) reached[i]++;
+    current[candidate.status] = (current[candidate.status] || 0) + 1;
+    const exit = [...rows].reverse().find((h) => h.to_status === 'rejected' || h.to_status === 'withdrawn');
+    if (exit) {
+      const bucket = exit.to_status === 'rejected' ? rejected : withdrawn;
+      const stage = exit.from_status || 'sourced';
+      bucket[stage] = (bucket[stage] || 0) + 1;
+    }
+  }
+  return {
+    total: candidates.length,
+    stages: FUNNEL_STAGES.map((stage, i) => ({
+      stage,
+      reached: reached[i],
+      current: current[stage] || 0,
+      conversion: i + 1 < FUNNEL_STAGES.length && reached[i] ? ratio(reached[i + 1], reached[i]) : null,
+    })),
+    rejected,
+    withdrawn,
+  };
+}
+
+export function timeInStage(candidates: AnalyticsCandidate[], history: Map<string, HistoryRow[]>, now = new Date()): Record<string, StageTime> {
+  const done: Record<string, number[]> = {};
+  const waiting: Record<string, number[]> = {};
+  for (const candidate of candidates) {
+    const rows = history.get(candidate.id) || [];
+    rows.forEach((row, i) => {
+      const next = rows[i + 1];
+      if (next) (done[row.to_status] ||= []).push(hoursBetween(row.created_at, next.created_at));
+      else if (!FINAL_STATUSES.includes(row.to_status)) (waiting[row.to_status] ||= []).push(hoursBetween(row.created_at, now));
+    });
+  }
+  return Object.fromEntries(FUNNEL_STAGES.filter((s) => s !== 'hired').map((stage) => [stage, {
+    median_hours: median(done[stage] || []),
+    samples: (done[stage] || []).length,
+    waiting: (waiting[stage] || []).length,
+    waiting_median_hours: median(waiting[stage] || []),
+  }]));
+}
+
+function realSends(rows: EngagementRow[]): EngagementRow[] {
+  return rows.filter((e) => e.event === 'sent' && !e.payload?.mock);
+}
+
+export function responseTimes(engagements: Map<string, EngagementRow[]>): PipelineReport['responses'] {
+  const firstReply: number[] = [];
+  const toInterview: number[] = [];
+  for (const rows of engagements.values()) {
+    const sent = realSends(rows)[0];
+    const replied = rows.find((e) => e.event === 'replied' && (!sent || e.created_at >= sent.created_at));
+    const scheduled = replied && rows.find((e) => e.event === 'scheduled' && e.created_at >= replied.created_at);
+    if (sent && replied) firstReply.push(hoursBetween(sent.created_at, replied.created_at));
+    if (replied && scheduled) toInterview.push(hoursBetween(replied.created_at, scheduled.created_at));
+  }
+  return {
+    first_reply: { median_hours: median(firstReply), samples: firstReply.length },
+    reply_to_interview: { median_hours: median(toInterview), samples: toInterview.length },
+  };
+}
+
+export function outreachRates(engagements: Map<string, EngagementRow[]>): OutreachRates[] {
+  const groups = new Map<string, OutreachRates>();
+  for (const rows of engagements.values()) {
+    const sends = realSends(rows);
+    const seen = new Set<string>();
+    for (const send of sends) {
+      const key = `${send.payload?.step ?? 1}:${send.payload?.provider || 'none'}`;
+      const group = groups.get(key) || {
+        step: Number(send.payload?.step ?? 1),
+        provider: send.payload?.provider || 'none',
+        sent: 0, opened: 0, replied: 0, bounced: 0, open_rate: 0, reply_rate: 0, bounce_rate: 0,
+      };
+      group.sent++;
+      groups.set(key, group);
+    }
+    for (const event of rows) {
+      if (event.event !== 'opened' && event.event !== 'replied' && event.event !== 'bounced') continue;
+      const messageId = event.payload?.message_id;
+      const send = (messageId && sends.find((s) => s.payload?.message_id === messageId)) ||
+        [...sends].reverse().find((s) => s.created_at <= event.created_at);
+      if (!send) continue;
+      const index = sends.indexOf(send);
+      if (seen.has(`${index}:${event.event}`)) continue;
+      seen.add(`${index}:${event.event}`);
+      const group = groups.get(`${send.payload?.step ?? 1}:${send.payload?.provider || 'none'}`)!;
+      group[event.event]++;
+    }
+  }
+  return [...groups.values()]
+    .map((g) => ({ ...g, open_rate: ratio(g.opened, g.sent), reply_rate: ratio(g.replied, g.sent), bounce_rate: ratio(g.bounced, g.sent) }))
+    .sort((a, b) => a.step - b.step || a.provider.localeCompare(b.provider));
+}
+
+export function sourceYield(candidates: AnalyticsCandidate[], history: Map<string, HistoryRow[]>): SourceYield[] {
+  const groups = new Map<string, SourceYield>();
+  for (const candidate of candidates) {
+    const rows = history.get(candidate.id) || [];
+    const source = sourceOf(candidate, rows);
+    const group = groups.get(source) || {
+      source,
+      candidates: 0,
+      reached: Object.fromEntries(FUNNEL_STAGES.slice(1).map((s) => [s, 0])),
+      interested_rate: 0,
+      hired_rate: 0,
+    };
+    group.candidates++;
+    const furthest = furthestStage(candidate, rows);
+    for (let i = 1; i <= furthest; i++) group.reached[FUNNEL_STAGES[i]]++;
+    groups.set(source, group);
+  }
+  return [...groups.values()]
+    .map((g) => ({ ...g, interested_rate: ratio(g.reached.interested, g.candidates), hired_rate: ratio(g.reached.hired, g.candidates) }))
+    .sort((a, b) => b.candidates - a.candidates);
+}
+
+export function pipelineReport(
+  candidates: AnalyticsCandidate[],
+  history: Map<string, HistoryRow[]>,
+  engagements: Map<string, EngagementRow[]>,
+  now = new Date(),
+): PipelineReport {
+  const ids = new Set(candidates.map((c) => c.id));
+  const own = new Map([...engagements].filter(([id]) => ids.has(id)));
+  return {
+    funnel: funnel(candidates, history),
+    time_in_stage: timeInStage(candidates, history, now),
+    responses: responseTimes(own),
+    outreach: outreachRates(own),
+    sources: sourceYield(candidates, history),
+  };
+}
+
+// One row per figure, for the CSV download: role, section, dimension, metric, value
+export function reportRows(scope: { role_id: string | null; title: string }, report: PipelineReport): (string | number | null)[][] {
+  const rows: (string | number | null)[][] = [];
+  const add = (section: string, dimension: string, metric: string, value: number | null) =>
+    rows.push([scope.role_id, scope.title, section, dimension, metric, value]);
+  add('funnel', 'all', 'candidates', report.funnel.total);
+  for (const s of report.funnel.stages) {
+    add('funnel', s.stage, 'reached', s.reached);
+    add('funnel', s.stage, 'current', s.current);
+    add('funnel', s.stage, 'conversion', s.conversion);
+  }
+  for (const [stage, n] of Object.entries(report.funnel.rejected)) add('drop_off', stage, 'rejected', n);
+  for (const [stage, n] of Object.entries(report.funnel.withdrawn)) add('drop_off', stage, 'withdrawn', n);
+  for (const [stage, t] of Object.entries(report.time_in_stage)) {
+    add('time_in_stage', stage, 'median_hours', t.median_hours);
+    add('time_in_stage', stage, 'samples', t.samples);
+    add('time_in_stage', stage, 'waiting', t.waiting);
+    add('time_in_stage', stage, 'waiting_median_hours', t.waiting_median_hours);
+  }
+  for (const [name, d] of Object.entries(report.responses)) {
+    add('responses', name, 'median_hours', d.median_hours);
+    add('responses', name, 'samples', d.samples);
+  }
+  for (const o of report.outreach) {
+    const dimension = `step ${o.step} / ${o.provider}`;
+    for (const metric of ['sent', 'opened', 'replied', 'bounced', 'open_rate', 'reply_rate', 'bounce_rate'] as const) add('outreach', dimension, metric, o[metric]);
+  }
+  for (const s of report.sources) {
+    add('sources', s.source, 'candidates', s.candidates);
+    for (const [stage, n] of Object.entries(s.reached)) add('sources', s.source, `reached_${stage}`, n);
+    add('sources', s.source, 'interested_rate', s.interested_rate);
+    add('sources', s.source, 'hired_rate', s.hired_rate);
+  }
+  return rows;
+}
+
+export const REPORT_HEADERS = ['role_id', 'role', 'section', 'dimension', 'metric', 'value'];
@@ -0,0 +1,119 @@
+import { assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts';
+import { AnalyticsCandidate, EngagementRow, funnel, groupBy, HistoryRow, median, outreachRates, responseTimes, sourceYield, timeInStage } from './analytics.ts';
+
+const T0 = Date.parse('2024-06-03T09:00:00Z');
+
+function at(hours: number): string {
+  return new Date(T0 + hours * 3_600_000).toISOString();
+}
+
+function candidate(id: string, status: string, source: string | null = 'xray'): AnalyticsCandidate {
+  return { id, role_id: 'role-1', status, source, created_at: at(0) };
+}
+
+function move(candidate_id: string, from_status: string | null, to_status: string, hours: number, actor = 'system:test'): HistoryRow {
+  return { candidate_id, from_status, to_status, actor, created_at: at(hours) };
+}
+
+function event(candidate_id: string, name: string, hours: number, payload: any = {}): EngagementRow {
+  return { candidate_id, event: name, payload, classification: null, created_at: at(hours) };
+}
+
+Deno.test('median takes the middle value, averages an even count and rounds to a tenth', () => {
+  assertEquals(median([]), null);
+  assertEquals(median([5, 1, 3]), 3);
+  assertEquals(median([4, 1, 2, 3]), 2.5);
+  assertEquals(median([1, 1.26]), 1.1);
+});
+
+Deno.test('funnel counts skipped stages as passed and computes conversion to the next stage', () => {
+  const candidates = [candidate('a', 'sourced'), candidate('b', 'screened'), candidate('c', 'interested'), candidate('d', 'sourced')];
+  const history = groupBy([
+    move('b', 'sourced', 'screened', 1),
+    // Replied straight away: screened and contacted are passed on the way
+    move('c', 'sourced', 'interested', 2),
+  ]);
+  const result = funnel(candidates, history);
+  const reached = Object.fromEntries(result.stages.map((s) => [s.stage, s.reached]));
+  assertEquals(result.total, 4);
+  assertEquals(reached, { sourced: 4, screened: 2, contacted: 1, interested: 1, interviewing: 0, offered: 0, hired: 0 });
+  assertEquals(result.stages.map((s) => s.conversion), [0.5, 0.5, 1, 0, null, null, null]);
+  assertEquals(result.stages[0].current, 2);
+});
+
+Deno.test('funnel counts rejections and withdrawals against the stage they left', () => {
+  const candidates = [candidate('a', 'rejected'), candidate('b', 'withdrawn'), candidate('c', 'rejected')];
+  const history = groupBy([
+    move('a', 'sourced', 'screened', 1),
+    move('a', 'screened', 'rejected', 2),
+    move('b', 'contacted', 'withdrawn', 3),
+    move('c', null, 'rejected', 1),
+  ]);
+  const result = funnel(candidates, history);
+  assertEquals(result.rejected, { screened: 1, sourced: 1 });
+  assertEquals(result.withdrawn, { contacted: 1 });
+  // Reaching contacted before withdrawing still counts for the earlier stages
+  assertEquals(result.stages[2].reached, 1);
+});
+
+Deno.test('timeInStage takes the median time before the next move and how long the rest have waited', () => {
+  const candidates = [candidate('a', 'contacted'), candidate('b', 'contacted'), candidate('c', 'screened')];
+  const history = groupBy([
+    move('a', null, 'sourced', 0),
+    move('a', 'sourced', 'screened', 2),
+    move('a', 'screened', 'contacted', 12),
+    move('b', null, 'sourced', 0),
+    move('b', 'sourced', 'screened', 4),
+    move('b', 'screened', 'contacted', 5),
+    move('c', null, 'sourced', 0),
+    move('c', 'sourced', 'screened', 6),
+  ]);
+  const result = timeInStage(candidates, history, new Date(at(30)));
+  assertEquals(result.sourced, { median_hours: 4, samples: 3, waiting: 0, waiting_median_hours: null });
+  assertEquals(result.screened, { median_hours: 5.5, samples: 2, waiting: 1, waiting_median_hours: 24 });
+  assertEquals(result.contacted, { median_hours: null, samples: 0, waiting: 2, waiting_median_hours: 21.5 });
+});
+
+Deno.test('responseTimes measures from the first real email to the first reply and on to the interview', () => {
+  const engagements = groupBy([
+    event('a', 'sent', 0, { mock: true }),
+    event('a', 'sent', 1),
+    event('a', 'replied', 5),
+    event('a', 'scheduled', 29),
+    event('b', 'sent', 0),
+    event('b', 'replied', 10),
+    event('c', 'sent', 0),
+  ]);
+  const result = responseTimes(engagements);
+  assertEquals(result.first_reply, { median_hours: 7, samples: 2 });
+  assertEquals(result.reply_to_interview, { median_hours: 24, samples: 1 });
+});
+
+Deno.test('outreachRates matches events to their email by message id, else to the last email before them', () => {
+  const engagements = groupBy([
+    event('a', 'sent', 0, { step: 1, provider: 'sendgrid', message_id: 'm1' }),
+    event('a', 'sent', 48, { step: 2, provider: 'sendgrid', message_id: 'm2' }),
+    // A late open of the first email is not credited to the follow-up
+    event('a', 'opened', 50, { message_id: 'm1' }),
+    event('a', 'opened', 51, { message_id: 'm1' }),
+    event('a', 'replied', 52),
+    event('b', 'sent', 0, { step: 1, provider: 'mailgun' }),
+    event('b', 'bounced', 1),
+    event('c', 'sent', 0, { step: 1, provider: 'sendgrid', mock: true }),
+  ]);
+  const result = outreachRates(engagements).map(({ step, provider, sent, opened, replied, bounced, open_rate, reply_rate, bounce_rate }) =>
+    [step, provider, sent, opened, replied, bounced, open_rate, reply_rate, bounce_rate]
+  );
+  assertEquals(result, [
+    [1, 'mailgun', 1, 0, 0, 1, 0, 0, 1],
+    [1, 'sendgrid', 1, 1, 0, 0, 1, 0, 0],
+    [2, 'sendgrid', 1, 0, 1, 0, 0, 1, 0],
+  ]);
+});
+
+Deno.test('sourceYield falls back to the creating function for rows without a source', () => {
+  const candidates = [candidate('a', 'interested', null), candidate('b', 'sourced', null), candidate('c', 'hired', 'xray')];
+  const history = groupBy([move('a', null, 'sourced', 0, 'system:apollo_enrich'), move('a', 'sourced', 'interested', 1)]);
+  const result = sourceYield(candidates, history).map((s) => [s.source, s.candidates, s.interested_rate, s.hired_rate]);
+  assertEquals(result, [['apollo', 1, 1, 0], ['unknown', 1, 0, 0], ['xray', 1, 1, 1]]);
+});
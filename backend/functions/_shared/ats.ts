@@ -0,0 +1,508 @@
+// ats.ts – applicant tracking system connectors (Greenhouse, Lever)
+//
+// An org connects one ATS through a row in `ats_connections`.  Candidates of
+// its roles that reach one of the connection’s `push_statuses` (interested
+// and interviewing by default) are pushed as prospects on the role’s
+// `ats_job_id`: a Greenhouse prospect application on the job, or a Lever
+// opportunity on the posting.  The push carries a note with the screen_resume
+// summary, scores and reasons, the resume from storage as an attachment and
+// the fields named in `field_map`.  `ats_links` remembers which ATS record
+// belongs to which candidate.  The link is claimed, still without an ATS id,
+// before the push; a retry that finds it pending looks the prospect up on the
+// job by email first, so a push that got through before the link was
+// completed does not create a second prospect.
+//
+// Stage changes are pulled back by asking the ATS which applications on the
+// job changed since the last sync.  Rejections and hires map to `rejected`
+// and `hired`; other stages go through `stage_map` (ATS stage name →
+// candidate status, on top of DEFAULT_STAGE_MAP).  Stages that map to
+// nothing are recorded on the link but leave the candidate alone, and every
+// move goes through the status state machine.
+//
+// API keys never live in the database.  Each org’s key is the edge function
+// secret `ATS_KEY_<org id>` (upper case, dashes as underscores), so a
+// connection row cannot name any other secret.  Requests only go to the
+// provider’s own API hosts; `base_url` may point elsewhere, such as a local
+// fake ATS (fake_ats.js), only where ATS_ALLOW_CUSTOM_BASE_URL is 'true',
+// which is meant for development.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { JobError } from './jobs.ts';
+import { CandidateStatus, isCandidateStatus, transitionStatus } from './status.ts';
+
+export type AtsProvider = 'greenhouse' | 'lever';
+
+export interface AtsConnection {
+  id: string;
+  org_id: string;
+  provider: AtsProvider;
+  base_url: string | null;
+  on_behalf_of: string | null;
+  push_statuses: string[] | null;
+  field_map: Record<string, string> | null;
+  stage_map: Record<string, string> | null;
+  active: boolean;
+  synced_at: string | null;
+}
+
+export interface AtsAttachment {
+  filename: string;
+  content_type: string;
+  content: Uint8Array;
+}
+
+export interface AtsProspect {
+  name: string;
+  first_name: string;
+  last_name: string;
+  email: string | null;
+  company: string | null;
+  title: string | null;
+  location: string | null;
+  links: string[];
+  note: string;
+  // ATS field → value, from the connection’s field_map
+  fields: Record<string, string>;
+  resume: AtsAttachment | null;
+}
+
+// Where the prospect landed: Greenhouse candidate + application, or the Lever
+// opportunity (both ids)
+export interface AtsRecord {
+  candidate_id: string;
+  application_id: string | null;
+}
+
+export interface AtsApplication {
+  candidate_id: string;
+  application_id: string;
+  stage: string | null;
+  state: 'active' | 'rejected' | 'hired';
+  updated_at: string | null;
+}
+
+export interface AtsConnector {
+  provider: AtsProvider;
+  pushProspect(jobId: string, prospect: AtsProspect): Promise<AtsRecord>;
+  // The prospect with this email already on the job, if any
+  findProspect(jobId: string, email: string): Promise<AtsRecord | null>;
+  // Applications on the job changed since `since` (all of them when null)
+  changes(jobId: string, since: string | null): Promise<AtsApplication[]>;
+}
+
+export const DEFAULT_PUSH_STATUSES: CandidateStatus[] = ['interested', 'interviewing'];
+
+// Stage names as both ATSs ship them, lower-cased
+export const DEFAULT_STAGE_MAP: Record<string, CandidateStatus> = {
+  'phone screen': 'interviewing',
+  'phone interview': 'interviewing',
+  'technical interview': 'interviewing',
+  'face to face': 'interviewing',
+  'onsite': 'interviewing',
+  'on-site interview': 'interviewing',
+  'offer': 'offered',
+};
+
+const PAGE_LIMIT = 100;
+
+function retryableStatus(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
+}
+
+async function request(provider: AtsProvider, url: string, init: RequestInit): Promise<any> {
+  const resp = await fetch(url, init);
+  if (!resp.ok) {
+    const text = await resp.text().catch(() => '');
+    throw new JobError(`${provider} API error ${resp.status}${text ? `: ${text.slice(0, 200)}` : ''}`, retryableStatus(resp.status));
+  }
+  return resp.status === 204 ? null : await resp.json();
+}
+
+function base64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+// Greenhouse Harvest API: Basic auth with the key as user name; writes are
+// made on behalf of a Greenhouse user
+export function greenhouseConnector(apiKey: string, onBehalfOf: string | null, baseUrl = 'https://harvest.greenhouse.io'): AtsConnector {
+  const auth = { Authorization: `Basic ${btoa(`${apiKey}:`)}` };
+  const write = { ...auth, 'Content-Type': 'application/json', ...(onBehalfOf ? { 'On-Behalf-Of': onBehalfOf } : {}) };
+  return {
+    provider: 'greenhouse',
+    async pushProspect(jobId, prospect) {
+      const created = await request('greenhouse', `${baseUrl}/v1/prospects`, {
+        method: 'POST',
+        headers: write,
+        body: JSON.stringify({
+          first_name: prospect.first_name,
+          last_name: prospect.last_name,
+          company: prospect.company,
+          title: prospect.title,
+          addresses: prospect.location ? [{ value: prospect.location, type: 'home' }] : [],
+          email_addresses: prospect.email ? [{ value: prospect.email, type: 'personal' }] : [],
+          website_addresses: prospect.links.map((value) => ({ value, type: 'other' })),
+          custom_fields: Object.entries(prospect.fields).map(([name_key, value]) => ({ name_key, value })),
+          tags: ['HireLoop'],
+          application: { job_ids: [jobId] },
+        }),
+      });
+      const candidateId = String(created.id);
+      await request('greenhouse', `${baseUrl}/v1/candidates/${candidateId}/activity_feed/notes`, {
+        method: 'POST',
+        headers: write,
+        body: JSON.stringify({ user_id: onBehalfOf, body: prospect.note, visibility: 'admin_only' }),
+      });
+      if (prospect.resume) {
+        await request('greenhouse', `${baseUrl}/v1/candidates/${candidateId}/attachments`, {
+          method: 'POST',
+          headers: write,
+          body: JSON.stringify({
+            filename: prospect.resume.filename,
+            type: 'resume',
+            content: base64(prospect.resume.content),
+            content_type: prospect.resume.content_type,
+          }),
+        });
+      }
+      const application = (created.applications || [])[0];
+      return { candidate_id: candidateId, application_id: application ? String(application.id) : null };
+    },
+    async findProspect(jobId, email) {
+      const url = new URL(`${baseUrl}/v1/candidates`);
+      url.searchParams.set('email', email);
+      const rows = (await request('greenhouse', url.toString(), { headers: auth })) as any[];
+      for (const candidate of rows || []) {
+        const application = (candidate.applications || []).find((a: any) => (a.jobs || []).some((j: any) => String(j.id) === jobId));
+        if (application) return { candidate_id: String(candidate.id), application_id: String(application.id) };
+      }
+      return null;
+    },
+    async changes(jobId, since) {
+      const apps: AtsApplication[] = [];
+      for (let page = 1;; page++) {
+        const url = new URL(`${baseUrl}/v1/applications`);
+        url.searchParams.set('job_id', jobId);
+        url.searchParams.set('per_page', String(PAGE_LIMIT));
+        url.searchParams.set('page', String(page));
+        if (since) url.searchParams.set('last_activity_after', since);
+        const rows = (await request('greenhouse', url.toString(), { headers: auth })) as any[];
+        for (const app of rows || []) {
+          // A prospect that became a candidate continues on a new application
+          if (app.status === 'converted') continue;
+          apps.push({
+            candidate_id: String(app.candidate_id),
+            application_id: String(app.id),
+            stage: app.current_stage?.name || app.prospect_detail?.prospect_stage?.name || null,
+            state: app.status === 'rejected' ? 'rejected' : app.status === 'hired' ? 'hired' : 'active',
+            updated_at: app.last_activity_at || null,
+          });
+        }
+        if (!rows || rows.length < PAGE_LIMIT) break;
+      }
+      return apps;
+    },
+  };
+}
+
+// Lever API: Basic auth with the key as user name; writes are performed as a
+// Lever user (`perform_as`).  Lever has no custom fields on opportunities, so
+// mapped fields are listed in the note.
+export function leverConnector(apiKey: string, performAs: string | null, baseUrl = 'https://api.lever.co'): AtsConnector {
+  const auth = { Authorization: `Basic ${btoa(`${apiKey}:`)}` };
+  const as = performAs ? `?perform_as=${encodeURIComponent(performAs)}` : '';
+  let hiredReasons: Set<string> | null = null;
+
+  // Archive reasons of type 'hired' mark hires; every other reason a rejection
+  async function loadHiredReasons(): Promise<Set<string>> {
+    if (hiredReasons) return hiredReasons;
+    const body = await request('lever', `${baseUrl}/v1/archive_reasons`, { headers: auth });
+    hiredReasons = new Set(((body?.data || []) as any[]).filter((r) => r.type === 'hired').map((r) => String(r.id)));
+    return hiredReasons;
+  }
+
+  return {
+    provider: 'lever',
+    async pushProspect(jobId, prospect) {
+      const fields = Object.entries(prospect.fields).map(([key, value]) => `${key}: ${value}`);
+      const created = await request('lever', `${baseUrl}/v1/opportunities${as}`, {
+        method: 'POST',
+        headers: { ...auth, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: prospect.name,
+          headline: [prospect.title, prospect.company].filter(Boolean).join(' at '),
+          location: prospect.location || undefined,
+          emails: prospect.email ? [prospect.email] : [],
+          links: prospect.links,
+          tags: ['HireLoop'],
+          sources: ['HireLoop'],
+          origin: 'sourced',
+          postings: [jobId],
+        }),
+      });
+      const opportunityId = String(created.data.id);
+      await request('lever', `${baseUrl}/v1/opportunities/${opportunityId}/notes${as}`, {
+        method: 'POST',
+        headers: { ...auth, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ value: fields.length ? `${prospect.note}\n\n${fields.join('\n')}` : prospect.note }),
+      });
+      if (prospect.resume) {
+        const form = new FormData();
+        form.append('file', new Blob([prospect.resume.content], { type: prospect.resume.content_type }), prospect.resume.filename);
+        await request('lever', `${baseUrl}/v1/opportunities/${opportunityId}/files${as}`, { method: 'POST', headers: auth, body: form });
+      }
+      return { candidate_id: opportunityId, application_id: opportunityId };
+    },
+    async findProspect(jobId, email) {
+      const url = new URL(`${baseUrl}/v1/opportunities`);
+      url.searchParams.set('email', email);
+      url.searchParams.set('posting_id', jobId);
+      const body = await request('lever', url.toString(), { headers: auth });
+      const opportunity = (body?.data || [])[0];
+      return opportunity ? { candidate_id: String(opportunity.id), application_id: String(opportunity.id) } : null;
+    },
+    async changes(jobId, since) {
+      const hired = await loadHiredReasons();
+      const apps: AtsApplication[] = [];
+      let offset: string | null = null;
+      do {
+        const url = new URL(`${baseUrl}/v1/opportunities`);
+        url.searchParams.set('posting_id', jobId);
+        url.searchParams.set('limit', String(PAGE_LIMIT));
+        url.searchParams.set('expand', 'stage');
+        if (since) url.searchParams.set('updated_at_start', String(new Date(since).getTime()));
+        if (offset) url.searchParams.set('offset', offset);
+        const body = await request('lever', url.toString(), { headers: auth });
+        for (const opp of (body?.data || []) as any[]) {
+          const reason = opp.archived?.reason ? String(opp.archived.reason) : null;
+          apps.push({
+            candidate_id: String(opp.id),
+            application_id: String(opp.id),
+            stage: opp.stage?.text || null,
+            state: !opp.archived ? 'active' : reason && hired.has(reason) ? 'hired' : 'rejected',
+            updated_at: opp.updatedAt ? new Date(opp.updatedAt).toISOString() : null,
+          });
+        }
+        offset = body?.hasNext ? body.next : null;
+      } while (offset);
+      return apps;
+    },
+  };
+}
+
+// Hosts each provider's API is served from
+const PROVIDER_HOSTS: Record<AtsProvider, string[]> = {
+  greenhouse: ['harvest.greenhouse.io'],
+  lever: ['api.lever.co', 'api.eu.lever.co'],
+};
+
+// The secret holding an org's ATS key
+export function atsKeySecret(orgId: string): string {
+  return `ATS_KEY_${orgId.replace(/-/g, '_').toUpperCase()}`;
+}
+
+// The connection's API root, or undefined for the provider's default.  Any
+// host but the provider's is refused unless custom hosts are allowed.
+function allowedBaseUrl(connection: AtsConnection): string | undefined {
+  if (!connection.base_url) return undefined;
+  if (Deno.env.get('ATS_ALLOW_CUSTOM_BASE_URL') === 'true') return connection.base_url;
+  let url: URL;
+  try {
+    url = new URL(connection.base_url);
+  } catch (_e) {
+    throw new JobError(`Invalid ATS base URL '${connection.base_url}'`, false);
+  }
+  if (url.protocol !== 'https:' || !(PROVIDER_HOSTS[connection.provider] || []).includes(url.hostname)) {
+    throw new JobError(`ATS base URL must be one of ${connection.provider}'s own API hosts`, false);
+  }
+  return `${url.origin}${url.pathname.replace(/\/+$/, '')}`;
+}
+
+export function connectorFor(connection: AtsConnection): AtsConnector {
+  const secret = atsKeySecret(connection.org_id);
+  const apiKey = Deno.env.get(secret);
+  if (!apiKey) throw new JobError(`Secret ${secret} is not set`, false);
+  const baseUrl = allowedBaseUrl(connection);
+  if (connection.provider === 'greenhouse') return greenhouseConnector(apiKey, connection.on_behalf_of, baseUrl);
+  if (connection.provider === 'lever') return leverConnector(apiKey, connection.on_behalf_of, baseUrl);
+  throw new JobError(`Unknown ATS provider '${connection.provider}'`, false);
+}
+
+// The candidate status an ATS application stands for, or null to leave the
+// candidate where it is
+export function statusForStage(app: AtsApplication, stageMap: Record<string, string> | null): CandidateStatus | null {
+  if (app.state === 'rejected') return 'rejected';
+  if (app.state === 'hired') return 'hired';
+  if (!app.stage) return null;
+  const map: Record<string, string> = { ...DEFAULT_STAGE_MAP };
+  for (const [stage, status] of Object.entries(stageMap || {})) map[stage.toLowerCase()] = status;
+  const status = map[app.stage.trim().toLowerCase()];
+  return isCandidateStatus(status) ? status : null;
+}
+
+// A candidate value by column name or dotted path ('screening.top_reasons')
+export function fieldValue(candidate: Record<string, any>, path: string): string | null {
+  let value: any = candidate;
+  for (const key of path.split('.')) value = value == null ? undefined : value[key];
+  if (value == null || value === '') return null;
+  return Array.isArray(value) ? value.join('; ') : String(value);
+}
+
+export function screeningNote(candidate: Record<string, any>, roleTitle: string): string {
+  const lines = [`HireLoop screening for ${roleTitle}`];
+  if (candidate.fit_score != null) {
+    const parts = [['technical', candidate.technical_score], ['experience', candidate.experience_score], ['culture', candidate.culture_score]]
+      .filter(([, score]) => score != null)
+      .map(([name, score]) => `${name} ${score}/5`);
+    lines.push(`Fit score: ${candidate.fit_score}/100${parts.length ? ` (${parts.join(', ')})` : ''}`);
+  }
+  if (candidate.summary) lines.push('', candidate.summary);
+  const reasons: string[] = candidate.screening?.top_reasons || [];
+  if (reasons.length) lines.push('', 'Why:', ...reasons.map((r) => `- ${r}`));
+  const focus: string[] = candidate.screening?.interview_focus || [];
+  if (focus.length) lines.push('', 'Interview focus:', ...focus.map((f) => `- ${f}`));
+  return lines.join('\n');
+}
+
+async function loadResume(supabase: SupabaseClient, resumeUrl: string | null): Promise<AtsAttachment | null> {
+  if (!resumeUrl) return null;
+  const [bucket, ...rest] = resumeUrl.split('/');
+  const path = rest.join('/');
+  const { data, error } = await supabase.storage.from(bucket).download(path);
+  if (error || !data) throw new Error(`storage: ${error?.message || 'resume not found'}`);
+  return {
+    filename: path.split('/').pop() || 'resume',
+    content_type: data.type || 'application/octet-stream',
+    content: new Uint8Array(await data.arrayBuffer()),
+  };
+}
+
+export function buildProspect(
+  candidate: Record<string, any>,
+  roleTitle: string,
+  fieldMap: Record<string, string> | null,
+  resume: AtsAttachment | null,
+): AtsProspect {
+  const parts = String(candidate.name || '').trim().split(/\s+/);
+  const fields: Record<string, string> = {};
+  for (const [atsField, path] of Object.entries(fieldMap || {})) {
+    const value = fieldValue(candidate, path);
+    if (value !== null) fields[atsField] = value;
+  }
+  return {
+    name: candidate.name,
+    first_name: parts[0] || '',
+    last_name: parts.length > 1 ? parts.slice(1).join(' ') : '',
+    email: candidate.email || null,
+    company: candidate.company || null,
+    title: candidate.current_title || null,
+    location: candidate.location || null,
+    links: [...new Set([candidate.linkedin, candidate.public_url].filter(Boolean) as string[])],
+    note: screeningNote(candidate, roleTitle),
+    fields,
+    resume,
+  };
+}
+
+export async function loadConnection(supabase: SupabaseClient, connectionId: string): Promise<AtsConnection | null> {
+  const { data, error } = await supabase.from('ats_connections').select('*').eq('id', connectionId).maybeSingle();
+  if (error) throw new Error(`ats_connections: ${error.message}`);
+  return data as AtsConnection | null;
+}
+
+// Push one candidate to the connection’s ATS, once.  Run by job_worker as
+// the `ats_push` job so a failing ATS is retried.
+export async function pushCandidate(
+  supabase: SupabaseClient,
+  connectionId: string,
+  candidateId: string,
+): Promise<{ pushed: boolean; ats_candidate_id: string | null; ats_application_id: string | null }> {
+  const connection = await loadConnection(supabase, connectionId);
+  if (!connection || !connection.active) throw new JobError('ATS connection is missing or inactive', false);
+  const { data: existing, error: linkError } = await supabase
+    .from('ats_links')
+    .select('ats_candidate_id, ats_application_id')
+    .eq('connection_id', connectionId)
+    .eq('candidate_id', candidateId)
+    .maybeSingle();
+  if (linkError) throw new Error(`ats_links: ${linkError.message}`);
+  if (existing?.ats_candidate_id) return { pushed: false, ...existing };
+  const { data: candidate, error } = await supabase
+    .from('candidates')
+    .select('*, roles!inner(title, org_id, ats_job_id)')
+    .eq('id', candidateId)
+    .maybeSingle();
+  if (error) throw new Error(`candidates: ${error.message}`);
+  if (!candidate) throw new JobError('Candidate no longer exists', false);
+  const role = candidate.roles;
+  if (role.org_id !== connection.org_id) throw new JobError('Candidate belongs to another organisation', false);
+  if (!role.ats_job_id) throw new JobError(`Role '${role.title}' is not mapped to an ATS job`, false);
+  const connector = connectorFor(connection);
+  let record: AtsRecord | null = null;
+  if (existing) {
+    // An earlier attempt claimed the link and may have pushed the prospect
+    if (candidate.email) record = await connector.findProspect(role.ats_job_id, candidate.email);
+  } else {
+    const { error: claimError } = await supabase.from('ats_links').insert({ connection_id: connectionId, candidate_id: candidateId });
+    if (claimError) throw new Error(`ats_links: ${claimError.message}`);
+  }
+  if (!record) {
+    const prospect = buildProspect(candidate, role.title, connection.field_map, await loadResume(supabase, candidate.resume_url));
+    record = await connector.pushProspect(role.ats_job_id, prospect);
+  }
+  const { error: updateError } = await supabase
+    .from('ats_links')
+    .update({ ats_candidate_id: record.candidate_id, ats_application_id: record.application_id, pushed_at: new Date().toISOString() })
+    .eq('connection_id', connectionId)
+    .eq('candidate_id', candidateId);
+  if (updateError) throw new Error(`ats_links: ${updateError.message}`);
+  return { pushed: true, ats_candidate_id: record.candidate_id, ats_application_id: record.application_id };
+}
+
+export interface PullSummary {
+  applications: number;
+  moved: number;
+  refused: number;
+}
+
+// Apply the ATS stage of each linked application on the job to its candidate
+export async function pullStages(
+  supabase: SupabaseClient,
+  connection: AtsConnection,
+  connector: AtsConnector,
+  jobId: string,
+  since: string | null,
+): Promise<PullSummary> {
+  const summary: PullSummary = { applications: 0, moved: 0, refused: 0 };
+  const apps = await connector.changes(jobId, since);
+  const ids = [...new Set(apps.map((a) => a.candidate_id))];
+  if (!ids.length) return summary;
+  const { data: links, error } = await supabase
+    .from('ats_links')
+    .select('id, candidate_id, ats_candidate_id, ats_stage')
+    .eq('connection_id', connection.id)
+    .in('ats_candidate_id', ids);
+  if (error) throw new Error(`ats_links: ${error.message}`);
+  const byAtsId = new Map<string, any>((links || []).map((l: any) => [l.ats_candidate_id, l]));
+  for (const app of apps) {
+    const link = byAtsId.get(app.candidate_id);
+    if (!link) continue;
+    summary.applications++;
+    const stage = app.state === 'active' ? app.stage : app.state;
+    await supabase
+      .from('ats_links')
+      .update({ ats_stage: stage, ats_application_id: app.application_id, synced_at: new Date().toISOString() })
+      .eq('id', link.id);
+    const status = statusForStage(app, connection.stage_map);
+    if (!status) continue;
+    const result = await transitionStatus(supabase, link.candidate_id, status, {
+      actor: 'system:ats_sync',
+      reason: `${connection.provider} stage '${stage}'`,
+      source_event: `${connection.provider}:${app.application_id}:${stage}`,
+    });
+    if (result.changed) summary.moved++;
+    else if (result.refused) summary.refused++;
+  }
+  return summary;
+}
@@ -0,0 +1,129 @@
+// auth.ts – request authentication and org-scoped access checks
+//
+// Edge functions use the service-role client and therefore bypass RLS, so
+// every request is checked here instead.  `withAuth` wraps a handler: it
+// verifies the caller’s Supabase JWT (401 when missing or invalid) and loads
+// the orgs they belong to with their access role there:
+//
+//   owner      org_members.org_role = 'owner'
+//   recruiter  a 'member' whose profile role is 'admin' or 'recruiter'
+//   client     a 'viewer', or a member whose profile role is 'client'
+//
+// Clients are read-only.  Requests carrying the service-role key (the pipeline
+// daemon, functions invoking each other, scheduled jobs) are internal and may
+// touch every org.  `requireRole` and `requireCandidate` load the row and
+// throw an AuthError (403) when it belongs to another org or the caller may
+// only read it; `withAuth` turns that into the usual `{ error: { message } }`
+// response.  Webhook endpoints are authenticated by provider signatures and
+// do not use this module.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+
+export type AccessRole = 'owner' | 'recruiter' | 'client';
+export type Access = 'read' | 'write';
+
+export interface Caller {
+  // null for internal calls made with the service-role key
+  user_id: string | null;
+  internal: boolean;
+  orgs: Record<string, AccessRole>;
+}
+
+export class AuthError extends Error {
+  status: number;
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'AuthError';
+    this.status = status;
+  }
+}
+
+export function accessRoleFor(orgRole: string | null, profileRole: string | null): AccessRole {
+  if (orgRole === 'owner') return 'owner';
+  if (orgRole === 'viewer' || profileRole === 'client') return 'client';
+  return 'recruiter';
+}
+
+function bearerToken(req: Request): string | null {
+  const match = (req.headers.get('Authorization') || '').match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+export async function authenticate(supabase: SupabaseClient, req: Request): Promise<Caller> {
+  const token = bearerToken(req);
+  if (!token) throw new AuthError('Missing bearer token', 401);
+  if (token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) return { user_id: null, internal: true, orgs: {} };
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data?.user) throw new AuthError('Invalid or expired token', 401);
+  const userId = data.user.id;
+  const [{ data: memberships }, { data: profile }] = await Promise.all([
+    supabase.from('org_members').select('org_id, org_role').eq('user_id', userId),
+    supabase.from('profiles').select('role').eq('id', userId).maybeSingle(),
+  ]);
+  const orgs: Record<string, AccessRole> = {};
+  for (const m of memberships || []) orgs[m.org_id] = accessRoleFor(m.org_role, profile?.role || null);
+  return { user_id: userId, internal: false, orgs };
+}
+
+// The caller's role in the org, or a 403 when they are not allowed the access
+export function requireOrg(caller: Caller, orgId: string | null, access: Access): AccessRole | null {
+  if (caller.internal) return null;
+  const role = orgId ? caller.orgs[orgId] : undefined;
+  if (!role) throw new AuthError('Not a member of this organisation', 403);
+  if (access === 'write' && role === 'client') throw new AuthError('Clients have read-only access', 403);
+  return role;
+}
+
+export function requireInternal(caller: Caller): void {
+  if (!caller.internal) throw new AuthError('Only available to internal callers', 403);
+}
+
+export async function requireRole(supabase: SupabaseClient, caller: Caller, roleId: string, access: Access): Promise<any> {
+  const { data: role } = await supabase.from('roles').select('*').eq('id', roleId).maybeSingle();
+  // Roles of other orgs are reported as forbidden, not missing, so ids cannot be probed
+  if (!role) {
+    if (caller.internal) throw new AuthError('Role not found', 404);
+    throw new AuthError('Not a member of this organisation', 403);
+  }
+  requireOrg(caller, role.org_id, access);
+  return role;
+}
+
+export async function requireCandidate(
+  supabase: SupabaseClient,
+  caller: Caller,
+  candidateId: string,
+  access: Access,
+): Promise<{ candidate: any; role: any }> {
+  const { data: candidate } = await supabase.from('candidates').select('*').eq('id', candidateId).maybeSingle();
+  if (!candidate) {
+    if (caller.internal) throw new AuthError('Candidate not found', 404);
+    throw new AuthError('Not a member of this organisation', 403);
+  }
+  const role = await requireRole(supabase, caller, candidate.role_id, access);
+  return { candidate, role };
+}
+
+// 'user:<id>' for people, 'system:<fn>' for internal calls (status history)
+export function actorOf(caller: Caller, fn: string): string {
+  return caller.user_id ? `user:${caller.user_id}` : `system:${fn}`;
+}
+
+export function authErrorResponse(err: AuthError): Response {
+  return new Response(JSON.stringify({ error: { message: err.message } }), { status: err.status });
+}
+
+export function withAuth(
+  supabase: SupabaseClient,
+  handler: (req: Request, caller: Caller) => Promise<Response>,
+): (req: Request) => Promise<Response> {
+  return async (req) => {
+    try {
+      const caller = await authenticate(supabase, req);
+      return await handler(req, caller);
+    } catch (err) {
+      if (err instanceof AuthError) return authErrorResponse(err);
+      throw err;
+    }
+  };
+}
@@ -0,0 +1,114 @@
+// compliance.ts – org-wide suppression list and signed unsubscribe links
+//
+// Nobody on an org's suppression list is emailed again, by any role.  Entries
+// are keyed either on an email address or on a whole domain (e.g. a company
+// that asked not to be contacted).  Emails are stored as the SHA-256 of the
+// normalised address, so the list still works after a person's data has been
+// erased and never holds the address itself.  Bounces and spam complaints
+// (ingest_webhook), unsubscribe clicks (unsubscribe), unsubscribe replies
+// (inbound_email) and erasure requests (data_subject) add entries;
+// send_sequence and schedule_meeting check the list before every send.
+//
+// Outreach emails carry a per-candidate unsubscribe link signed with
+// UNSUBSCRIBE_SECRET, both in the body and as a one-click List-Unsubscribe
+// header (RFC 8058).
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { normaliseEmail } from './identity.ts';
+import { hmacSha256Hex, timingSafeEqual } from './webhook_adapters.ts';
+
+export type SuppressionReason = 'bounced' | 'spam_reported' | 'unsubscribed' | 'erased' | 'manual';
+
+export interface Suppression {
+  kind: 'email' | 'domain';
+  reason: SuppressionReason;
+}
+
+// Engagement events that put the recipient on the suppression list
+export const SUPPRESSING_EVENTS: Record<string, SuppressionReason> = {
+  bounced: 'bounced',
+  unsubscribed: 'unsubscribed',
+  spam_reported: 'spam_reported',
+};
+
+const encoder = new TextEncoder();
+
+export async function emailHash(email: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(normaliseEmail(email) || ''));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function emailDomain(email: string): string | null {
+  const domain = (normaliseEmail(email) || '').split('@')[1];
+  return domain || null;
+}
+
+export async function orgIdForCandidate(supabase: SupabaseClient, candidateId: string): Promise<string | null> {
+  const { data } = await supabase.from('candidates').select('roles(org_id)').eq('id', candidateId).maybeSingle();
+  return (data?.roles as any)?.org_id || null;
+}
+
+// Add an address (or a whole domain) to the org's list; repeats are ignored
+export async function suppress(
+  supabase: SupabaseClient,
+  orgId: string,
+  entry: { email?: string | null; domain?: string | null; reason: SuppressionReason; source?: string | null },
+): Promise<void> {
+  const rows: Record<string, unknown>[] = [];
+  if (entry.email && normaliseEmail(entry.email)) {
+    rows.push({ org_id: orgId, kind: 'email', value: await emailHash(entry.email), reason: entry.reason, source: entry.source || null });
+  }
+  if (entry.domain) {
+    rows.push({ org_id: orgId, kind: 'domain', value: entry.domain.trim().toLowerCase(), reason: entry.reason, source: entry.source || null });
+  }
+  if (!rows.length) return;
+  const { error } = await supabase.from('suppressions').upsert(rows, { onConflict: 'org_id,kind,value', ignoreDuplicates: true });
+  if (error) throw new Error(`suppressions: ${error.message}`);
+}
+
+// The entry that blocks sending to this address, or null when it may be emailed
+export async function findSuppression(supabase: SupabaseClient, orgId: string, email: string): Promise<Suppression | null> {
+  const domain = emailDomain(email);
+  const filters = [`and(kind.eq.email,value.eq.${await emailHash(email)})`];
+  if (domain) filters.push(`and(kind.eq.domain,value.eq."${domain}")`);
+  const { data, error } = await supabase
+    .from('suppressions')
+    .select('kind, reason')
+    .eq('org_id', orgId)
+    .or(filters.join(','))
+    .limit(1);
+  // Fail closed: an unreadable list must not let an email through
+  if (error) return { kind: 'email', reason: 'manual' };
+  return data && data.length ? (data[0] as Suppression) : null;
+}
+
+function unsubscribeSecret(): string {
+  const secret = Deno.env.get('UNSUBSCRIBE_SECRET');
+  if (!secret) throw new Error('UNSUBSCRIBE_SECRET is not set');
+  return secret;
+}
+
+export async function unsubscribeToken(candidateId: string): Promise<string> {
+  return await hmacSha256Hex(unsubscribeSecret(), `unsubscribe:${candidateId}`);
+}
+
+export async function verifyUnsubscribeToken(candidateId: string, token: string): Promise<boolean> {
+  return timingSafeEqual(await unsubscribeToken(candidateId), token);
+}
+
+export async function unsubscribeUrl(candidateId: string): Promise<string> {
+  const base = Deno.env.get('PUBLIC_FUNCTIONS_URL') || `${Deno.env.get('SUPABASE_URL')}/functions/v1`;
+  const url = new URL(`${base.replace(/\/+$/, '')}/unsubscribe`);
+  url.searchParams.set('c', candidateId);
+  url.searchParams.set('t', await unsubscribeToken(candidateId));
+  return url.toString();
+}
+
+// Footer and headers every outreach email carries
+export async function unsubscribeParts(candidateId: string): Promise<{ footer: string; headers: Record<string, string> }> {
+  const url = await unsubscribeUrl(candidateId);
+  return {
+    footer: `\n\n--\nNot interested? Unsubscribe: ${url}`,
+    headers: { 'List-Unsubscribe': `<${url}>`, 'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click' },
+  };
+}
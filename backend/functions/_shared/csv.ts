@@ -0,0 +1,25 @@
+// csv.ts – RFC 4180 CSV writing shared by the export and report functions
+//
+// Every field that needs it is quoted, lines end in CRLF and the file starts
+// with a UTF-8 BOM so Excel picks the right encoding.  Cells a spreadsheet
+// would otherwise evaluate as formulas are neutralised.
+
+export type Cell = string | number | string[] | null;
+
+export function flat(value: Cell): string | number {
+  if (value === null || value === undefined) return '';
+  return Array.isArray(value) ? value.join('; ') : value;
+}
+
+function csvField(value: Cell): string {
+  let text = String(flat(value));
+  // A leading =, +, - or @ would run as a formula when opened in a spreadsheet;
+  // only real numbers, such as a negative score, are left as they are
+  if (typeof value !== 'number' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function csvTable(headers: string[], rows: Cell[][]): Uint8Array {
+  const lines = [headers, ...rows].map((fields) => fields.map(csvField).join(','));
+  return new TextEncoder().encode('\uFEFF' + lines.join('\r\n') + '\r\n');
+}
@@ -0,0 +1,166 @@
+// email.ts – pluggable email delivery for outreach sequences
+//
+// Every provider implements `EmailProvider.send` and returns the provider’s
+// message id, which send_sequence stores so webhook events can be matched
+// back to the candidate.  The candidate id also travels with the message as a
+// custom argument (SendGrid) or user variable (Mailgun).  The SMTP backend
+// talks to any plain SMTP server, e.g. a local Mailpit/MailHog catcher on
+// port 1025, so the whole send path can be exercised without outside services.
+//
+// The provider is chosen with EMAIL_PROVIDER (sendgrid|mailgun|smtp) or, when
+// unset, from whichever credentials are present.
+
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+
+export interface EmailAttachment {
+  filename: string;
+  content: string;
+  content_type: string;
+}
+
+export interface OutboundEmail {
+  to: string;
+  subject: string;
+  text: string;
+  candidate_id: string;
+  headers?: Record<string, string>;
+  attachments?: EmailAttachment[];
+}
+
+export interface SendResult {
+  message_id: string;
+}
+
+export interface EmailProvider {
+  name: string;
+  send(email: OutboundEmail): Promise<SendResult>;
+}
+
+const fromAddress = Deno.env.get('EMAIL_FROM') || 'recruiting@hireloop.dev';
+const fromName = Deno.env.get('EMAIL_FROM_NAME') || 'HireLoop Recruiter';
+
+function base64Utf8(text: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+export function sendgridProvider(apiKey: string): EmailProvider {
+  return {
+    name: 'sendgrid',
+    async send(email) {
+      const resp = await fetch('https://api.sendgrid.com/v3/mail/send', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+        body: JSON.stringify({
+          personalizations: [{ to: [{ email: email.to }], custom_args: { candidate_id: email.candidate_id } }],
+          from: { email: fromAddress, name: fromName },
+          subject: email.subject,
+          content: [{ type: 'text/plain', value: email.text }],
+          headers: email.headers,
+          attachments: email.attachments?.map((a) => ({
+            content: base64Utf8(a.content),
+            filename: a.filename,
+            type: a.content_type,
+            disposition: 'attachment',
+          })),
+        }),
+      });
+      if (!resp.ok) throw new Error(`SendGrid error ${resp.status}: ${await resp.text()}`);
+      const messageId = resp.headers.get('X-Message-Id');
+      if (!messageId) throw new Error('SendGrid response is missing X-Message-Id');
+      return { message_id: messageId };
+    },
+  };
+}
+
+export function mailgunProvider(apiKey: string, domain: string, baseUrl = 'https://api.mailgun.net'): EmailProvider {
+  return {
+    name: 'mailgun',
+    async send(email) {
+      const form = new FormData();
+      form.set('from', `${fromName} <${fromAddress}>`);
+      form.set('to', email.to);
+      form.set('subject', email.subject);
+      form.set('text', email.text);
+      form.set('v:candidate_id', email.candidate_id);
+      for (const [name, value] of Object.entries(email.headers || {})) form.set(`h:${name}`, value);
+      for (const a of email.attachments || []) form.append('attachment', new Blob([a.content], { type: a.content_type }), a.filename);
+      const resp = await fetch(`${baseUrl}/v3/${domain}/messages`, {
+        method: 'POST',
+        headers: { Authorization: `Basic ${btoa(`api:${apiKey}`)}` },
+        body: form,
+      });
+      if (!resp.ok) throw new Error(`Mailgun error ${resp.status}: ${await resp.text()}`);
+      const data = await resp.json();
+      // Mailgun returns the RFC Message-ID wrapped in angle brackets
+      return { message_id: String(data.id).replace(/^<|>$/g, '') };
+    },
+  };
+}
+
+export function smtpProvider(opts: { hostname: string; port: number; tls: boolean; username?: string; password?: string }): EmailProvider {
+  return {
+    name: 'smtp',
+    async send(email) {
+      const client = new SMTPClient({
+        connection: {
+          hostname: opts.hostname,
+          port: opts.port,
+          tls: opts.tls,
+          auth: opts.username ? { username: opts.username, password: opts.password || '' } : undefined,
+        },
+      });
+      // Plain SMTP has no provider id, so we mint our own Message-ID
+      const messageId = `${crypto.randomUUID()}@${fromAddress.split('@')[1]}`;
+      try {
+        await client.send({
+          from: `${fromName} <${fromAddress}>`,
+          to: email.to,
+          subject: email.subject,
+          content: email.text,
+          headers: { ...email.headers, 'Message-ID': `<${messageId}>`, 'X-HireLoop-Candidate': email.candidate_id },
+          attachments: email.attachments?.map((a) => ({ filename: a.filename, content: a.content, encoding: 'text' as const, contentType: a.content_type })),
+        });
+      } finally {
+        await client.close();
+      }
+      return { message_id: messageId };
+    },
+  };
+}
+
+export function emailProviderFromEnv(): EmailProvider | null {
+  const sendgridKey = Deno.env.get('SENDGRID_API_KEY');
+  const mailgunKey = Deno.env.get('MAILGUN_API_KEY');
+  const mailgunDomain = Deno.env.get('MAILGUN_DOMAIN');
+  const smtpHost = Deno.env.get('SMTP_HOST');
+  const choice = Deno.env.get('EMAIL_PROVIDER') ||
+    (sendgridKey ? 'sendgrid' : mailgunKey && mailgunDomain ? 'mailgun' : smtpHost ? 'smtp' : '');
+  switch (choice) {
+    case 'sendgrid':
+      return sendgridKey ? sendgridProvider(sendgridKey) : null;
+    case 'mailgun':
+      return mailgunKey && mailgunDomain ? mailgunProvider(mailgunKey, mailgunDomain, Deno.env.get('MAILGUN_BASE_URL')) : null;
+    case 'smtp':
+      return smtpHost
+        ? smtpProvider({
+          hostname: smtpHost,
+          port: parseInt(Deno.env.get('SMTP_PORT') || '1025', 10),
+          tls: Deno.env.get('SMTP_TLS') === 'true',
+          username: Deno.env.get('SMTP_USERNAME'),
+          password: Deno.env.get('SMTP_PASSWORD'),
+        })
+        : null;
+    default:
+      return null;
+  }
+}
+
+// Fill the placeholders that are only known at send time.  Anything still
+// unresolved is removed rather than mailed to a candidate verbatim.
+export function renderEmail(meta: { subject: string; body: string }, vars: Record<string, string>): { subject: string; text: string } {
+  const fill = (text: string) =>
+    text.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, key) => vars[key] ?? '');
+  return { subject: fill(meta.subject), text: fill(meta.body) };
+}
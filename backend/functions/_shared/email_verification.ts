@@ -0,0 +1,221 @@
+// email_verification.ts – checks an address before anyone is emailed at it
+//
+// Enrichment providers guess addresses as often as they know them.  Before a
+// candidate is marked contactable the address is checked in three steps:
+//
+//   syntax     a plain local@domain shape with a dotted domain
+//   MX         the domain must accept mail: an MX record, or an A record as
+//              the implicit MX (RFC 5321); a null MX (RFC 7505) or a missing
+//              domain fails.  Lookups go through an MxResolver so tests and
+//              local setups can use a static table instead of DNS.
+//   mailbox    optional, with a MailboxProber: a made-up address at the
+//              domain is tried first, and a server that accepts it is a
+//              catch-all whose answer for the real address means nothing.
+//              Otherwise the real address is tried.
+//
+// Without a prober an address whose domain takes mail is only `mx_only`:
+// the mailbox itself was never asked about.  `valid` addresses are
+// contactable, `catch_all` ones too when EMAIL_ALLOW_CATCH_ALL is set, and
+// `mx_only` ones when the address is trusted at least
+// EMAIL_MX_ONLY_MIN_CONFIDENCE (default 0.9, an address the provider itself
+// verified).  `unknown` means a check could not be completed and may be
+// retried later.
+
+export type EmailStatus = 'valid' | 'invalid' | 'no_mx' | 'catch_all' | 'mx_only' | 'unknown' | 'unverified';
+
+export interface EmailVerification {
+  email: string;
+  status: EmailStatus;
+  mx: string[];
+  // null when no mailbox probe was made
+  catch_all: boolean | null;
+  reason: string | null;
+  checked_at: string;
+}
+
+export interface MxResolver {
+  name: string;
+  // Mail hosts by preference; [] when the domain takes no mail, null when it does not exist
+  resolveMx(domain: string): Promise<string[] | null>;
+}
+
+export type ProbeResult = 'accepted' | 'rejected' | 'unknown';
+
+export interface MailboxProber {
+  probe(mxHost: string, address: string): Promise<ProbeResult>;
+}
+
+export interface EmailVerifier {
+  verify(email: string): Promise<EmailVerification>;
+}
+
+const EMAIL_PATTERN = /^[a-z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?)+$/i;
+
+const allowCatchAll = Deno.env.get('EMAIL_ALLOW_CATCH_ALL') === 'true';
+const mxOnlyMinConfidence = parseFloat(Deno.env.get('EMAIL_MX_ONLY_MIN_CONFIDENCE') || '0.9');
+
+export function validSyntax(email: string): boolean {
+  if (email.length > 254 || !EMAIL_PATTERN.test(email)) return false;
+  const local = email.slice(0, email.lastIndexOf('@'));
+  return local.length <= 64 && !local.startsWith('.') && !local.endsWith('.') && !local.includes('..');
+}
+
+// `confidence` is how sure the address’s source is of it, from 0 to 1
+export function isContactable(status: EmailStatus | string | null | undefined, confidence = 0): boolean {
+  if (status === 'mx_only') return confidence >= mxOnlyMinConfidence;
+  return status === 'valid' || (status === 'catch_all' && allowCatchAll);
+}
+
+// Enriched addresses carry the provider’s confidence; one the candidate gave
+// themselves (a resume upload or manual entry) has no enrichment and is taken
+// as certain
+export function emailConfidence(candidate: { enrichment?: { fields?: { email?: { confidence?: number } } } | null }): number {
+  if (!candidate.enrichment) return 1;
+  return candidate.enrichment.fields?.email?.confidence ?? 0;
+}
+
+export function dnsResolver(): MxResolver {
+  return {
+    name: 'dns',
+    async resolveMx(domain) {
+      try {
+        const records: { preference: number; exchange: string }[] = await Deno.resolveDns(domain, 'MX');
+        const hosts = records
+          .sort((a, b) => a.preference - b.preference)
+          .map((r) => r.exchange.replace(/\.$/, ''))
+          .filter(Boolean);
+        // A lone "." exchange is a null MX: the domain takes no mail
+        if (records.length) return hosts;
+      } catch (err) {
+        if (!(err instanceof Deno.errors.NotFound)) throw err;
+      }
+      try {
+        const addresses: string[] = await Deno.resolveDns(domain, 'A');
+        return addresses.length ? [domain] : [];
+      } catch (err) {
+        if (err instanceof Deno.errors.NotFound) return null;
+        throw err;
+      }
+    },
+  };
+}
+
+// Fixed answers for tests and local setups; domains not listed do not exist
+export function staticResolver(records: Record<string, string[]>): MxResolver {
+  return {
+    name: 'static',
+    resolveMx(domain) {
+      return Promise.resolve(records[domain.toLowerCase()] ?? null);
+    },
+  };
+}
+
+// Asks the mail server through RCPT TO without sending anything.  Needs
+// outbound port 25, which many hosts (Supabase’s edge runtime included)
+// block, so it is off unless EMAIL_VERIFY_SMTP is set.
+export function smtpProber(opts: { helo: string; from: string; timeoutMs: number }): MailboxProber {
+  return {
+    async probe(mxHost, address) {
+      let conn: Deno.Conn | null = null;
+      const timer = setTimeout(() => conn?.close(), opts.timeoutMs);
+      try {
+        conn = await Deno.connect({ hostname: mxHost, port: 25 });
+        const encoder = new TextEncoder();
+        const decoder = new TextDecoder();
+        const buffer = new Uint8Array(4096);
+        let pending = '';
+        // Read one (possibly multi-line) reply and return its code
+        const reply = async (): Promise<number> => {
+          while (true) {
+            const lines = pending.split('\r\n');
+            const last = lines.findIndex((line) => /^\d{3} /.test(line));
+            if (last >= 0) {
+              pending = lines.slice(last + 1).join('\r\n');
+              return parseInt(lines[last].slice(0, 3), 10);
+            }
+            const n = await conn!.read(buffer);
+            if (n === null) throw new Error('Connection closed');
+            pending += decoder.decode(buffer.subarray(0, n));
+          }
+        };
+        const command = async (line: string) => {
+          await conn!.write(encoder.encode(`${line}\r\n`));
+          return await reply();
+        };
+        if ((await reply()) !== 220) return 'unknown';
+        if ((await command(`EHLO ${opts.helo}`)) !== 250) return 'unknown';
+        if ((await command(`MAIL FROM:<${opts.from}>`)) !== 250) return 'unknown';
+        const code = await command(`RCPT TO:<${address}>`);
+        await command('QUIT').catch(() => 0);
+        if (code === 250 || code === 251) return 'accepted';
+        if (code >= 550 && code <= 553) return 'rejected';
+        return 'unknown';
+      } catch (_e) {
+        return 'unknown';
+      } finally {
+        clearTimeout(timer);
+        try {
+          conn?.close();
+        } catch (_e) {
+          // Already closed by the timeout
+        }
+      }
+    },
+  };
+}
+
+// Domain answers (MX hosts, catch-all) are kept for the verifier’s lifetime,
+// so a batch of leads at one company costs one lookup.
+export function emailVerifier(resolver: MxResolver, prober: MailboxProber | null = null): EmailVerifier {
+  const mxCache = new Map<string, Promise<string[] | null>>();
+  const catchAllCache = new Map<string, Promise<ProbeResult>>();
+  return {
+    async verify(raw) {
+      const email = raw.trim().toLowerCase();
+      const result = (status: EmailStatus, mx: string[], catchAll: boolean | null, reason: string | null): EmailVerification => ({
+        email,
+        status,
+        mx,
+        catch_all: catchAll,
+        reason,
+        checked_at: new Date().toISOString(),
+      });
+      if (!validSyntax(email)) return result('invalid', [], null, 'Malformed address');
+      const domain = email.split('@')[1];
+      let mx: string[] | null;
+      try {
+        if (!mxCache.has(domain)) mxCache.set(domain, resolver.resolveMx(domain));
+        mx = await mxCache.get(domain)!;
+      } catch (err) {
+        mxCache.delete(domain);
+        return result('unknown', [], null, `MX lookup failed: ${(err as Error).message}`);
+      }
+      if (mx === null) return result('invalid', [], null, `Domain ${domain} does not exist`);
+      if (!mx.length) return result('no_mx', [], null, `Domain ${domain} does not accept mail`);
+      if (!prober) return result('mx_only', mx, null, 'Mailbox not probed');
+      if (!catchAllCache.has(domain)) catchAllCache.set(domain, prober.probe(mx[0], `${crypto.randomUUID().slice(0, 12)}@${domain}`));
+      const decoy = await catchAllCache.get(domain)!;
+      if (decoy === 'accepted') return result('catch_all', mx, true, `${domain} accepts any address`);
+      const probed = await prober.probe(mx[0], email);
+      const catchAll = decoy === 'rejected' ? false : null;
+      if (probed === 'accepted') return result('valid', mx, catchAll, null);
+      if (probed === 'rejected') return result('invalid', mx, catchAll, 'Mailbox does not exist');
+      return result('unknown', mx, catchAll, 'Mail server did not answer');
+    },
+  };
+}
+
+export function emailVerifierFromEnv(): EmailVerifier {
+  let resolver = dnsResolver();
+  if (Deno.env.get('EMAIL_MX_RESOLVER') === 'static') {
+    resolver = staticResolver(JSON.parse(Deno.env.get('EMAIL_STATIC_MX') || '{}'));
+  }
+  const prober = Deno.env.get('EMAIL_VERIFY_SMTP') === 'true'
+    ? smtpProber({
+      helo: Deno.env.get('EMAIL_VERIFY_HELO') || 'localhost',
+      from: Deno.env.get('EMAIL_VERIFY_FROM') || Deno.env.get('EMAIL_FROM') || '',
+      timeoutMs: parseInt(Deno.env.get('EMAIL_VERIFY_TIMEOUT_MS') || '8000', 10),
+    })
+    : null;
+  return emailVerifier(resolver, prober);
+}
@@ -0,0 +1,327 @@
+// embeddings.ts – text embeddings for roles and candidates
+//
+// Each role’s parsed JD and each candidate’s title, summary, skills and resume
+// are embedded into a vector kept on the row (`embedding`, with the model in
+// `embedding_model`), so candidates can be found by meaning rather than by
+// role and status.  parse_jd embeds a role when it saves the JD and
+// screen_resume a candidate once screened; `backfillEmbeddings` catches up on
+// rows without an embedding, or with one from another model, before every
+// search.  Vectors from different models are never compared: searches only
+// look at rows embedded with the current model.
+//
+// Embedders:
+//
+//   openai   any OpenAI-compatible /embeddings endpoint: OpenAI itself, or a
+//            local model served by Ollama, llama.cpp or text-embeddings-
+//            inference through EMBEDDINGS_BASE_URL (no key needed)
+//   hash     hashed bag of words and word pairs.  Needs no model or network,
+//            so search works offline and in demos; it matches shared words
+//            rather than meaning.
+//
+// EMBEDDINGS_PROVIDER picks one; by default OpenAI is used when a key or base
+// URL is set and hash otherwise.  Requests to a paid API take a token from
+// the provider’s rate limit and are written to the usage ledger as LLM tokens.
+//
+// The nearest rows are found in the database by the `match_candidates`
+// function (pgvector cosine distance), so the vectors never leave Postgres.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { normaliseText } from './identity.ts';
+import { acquireToken, recordUsage } from './usage.ts';
+
+export interface EmbeddingResult {
+  vectors: number[][];
+  tokens: number;
+}
+
+export interface Embedder {
+  // Also the rate-limit bucket and the ledger provider
+  name: 'openai' | 'hash';
+  model: string;
+  // Whether requests cost money and are metered
+  paid: boolean;
+  embed(texts: string[]): Promise<EmbeddingResult>;
+}
+
+export interface CandidateMatch {
+  id: string;
+  role_id: string;
+  similarity: number;
+}
+
+const HASH_DIMENSIONS = 256;
+const BATCH_SIZE = 64;
+// Resumes are cut to this many characters before embedding
+const MAX_TEXT_CHARS = 6000;
+
+export function openaiEmbedder(apiKey: string | null, model: string, baseUrl = 'https://api.openai.com/v1'): Embedder {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+  return {
+    name: 'openai',
+    model,
+    // Local servers run without a key and cost nothing
+    paid: !!apiKey,
+    async embed(texts) {
+      const resp = await fetch(`${baseUrl.replace(/\/+$/, '')}/embeddings`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ model, input: texts }),
+      });
+      if (!resp.ok) throw new Error(`Embeddings API error ${resp.status}`);
+      const data = await resp.json();
+      const rows = ((data.data || []) as any[]).sort((a, b) => a.index - b.index);
+      return { vectors: rows.map((r) => r.embedding as number[]), tokens: data.usage?.total_tokens || 0 };
+    },
+  };
+}
+
+// FNV-1a, 32 bit
+function fnv(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+export function normalise(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm ? vector.map((v) => v / norm) : vector;
+}
+
+export function hashEmbedder(dimensions = HASH_DIMENSIONS): Embedder {
+  return {
+    name: 'hash',
+    model: `hash-${dimensions}`,
+    paid: false,
+    embed(texts) {
+      const vectors = texts.map((text) => {
+        const vector = new Array(dimensions).fill(0);
+        const words = normaliseText(text).split(' ').filter((w) => w.length > 1);
+        const terms = [...words, ...words.slice(1).map((w, i) => `${words[i]} ${w}`)];
+        for (const term of terms) {
+          const hash = fnv(term);
+          // The top bit picks the sign so unrelated terms cancel out on average
+          vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+        }
+        return normalise(vector);
+      });
+      return Promise.resolve({ vectors, tokens: 0 });
+    },
+  };
+}
+
+export function embedderFromEnv(): Embedder {
+  const apiKey = Deno.env.get('EMBEDDINGS_API_KEY') || Deno.env.get('OPENAI_API_KEY') || null;
+  const baseUrl = Deno.env.get('EMBEDDINGS_BASE_URL');
+  const provider = Deno.env.get('EMBEDDINGS_PROVIDER') || (apiKey || baseUrl ? 'openai' : 'hash');
+  if (provider === 'openai') {
+    return openaiEmbedder(apiKey, Deno.env.get('EMBEDDINGS_MODEL') || 'text-embedding-3-small', baseUrl || undefined);
+  }
+  return hashEmbedder();
+}
+
+// Wrap a paid embedder with its rate limit and a ledger row per request
+export function meteredEmbedder(supabase: SupabaseClient, embedder: Embedder, orgId: string | null, fn: string): Embedder {
+  if (!embedder.paid) return embedder;
+  return {
+    ...embedder,
+    async embed(texts) {
+      await acquireToken(supabase, embedder.name);
+      const started = Date.now();
+      const entry = { org_id: orgId, metric: 'llm_tokens' as const, provider: embedder.name, fn };
+      try {
+        const result = await embedder.embed(texts);
+        await recordUsage(supabase, {
+          ...entry,
+          quantity: result.tokens,
+          status: 'ok',
+          latency_ms: Date.now() - started,
+          meta: { model: embedder.model, prompt_tokens: result.tokens, completion_tokens: 0 },
+        });
+        return result;
+      } catch (err) {
+        await recordUsage(supabase, { ...entry, quantity: 0, status: 'error', latency_ms: Date.now() - started, meta: { model: embedder.model } });
+        throw err;
+      }
+    },
+  };
+}
+
+function list(items: unknown): string {
+  return Array.isArray(items) ? items.filter(Boolean).join(', ') : '';
+}
+
+export function roleText(role: { title?: string | null; description?: string | null; parsed_json?: any }): string {
+  const jd = role.parsed_json;
+  if (!jd) return [role.title, role.description].filter(Boolean).join('\n').slice(0, MAX_TEXT_CHARS);
+  return [
+    jd.title || role.title,
+    jd.level,
+    jd.location,
+    list(jd.required_skills),
+    list(jd.nice_to_have),
+    list(jd.responsibilities),
+    jd.ideal_candidate_summary,
+  ].filter(Boolean).join('\n').slice(0, MAX_TEXT_CHARS);
+}
+
+export function candidateText(candidate: Record<string, any>): string {
+  const profile = candidate.profile || {};
+  return [
+    [candidate.current_title, candidate.company].filter(Boolean).join(' at '),
+    candidate.location,
+    candidate.summary,
+    list(profile.skills),
+    list((profile.work_history || []).map((w: any) => [w.title, w.company].filter(Boolean).join(' at '))),
+    candidate.resume_text,
+  ].filter(Boolean).join('\n').slice(0, MAX_TEXT_CHARS);
+}
+
+// pgvector columns come back as '[0.1,0.2,...]'
+export function parseVector(value: unknown): number[] | null {
+  if (Array.isArray(value)) return value as number[];
+  if (typeof value !== 'string' || !value.startsWith('[')) return null;
+  return JSON.parse(value);
+}
+
+export function toVector(vector: number[]): string {
+  return JSON.stringify(vector);
+}
+
+export async function embedText(embedder: Embedder, text: string): Promise<number[]> {
+  const { vectors } = await embedder.embed([text]);
+  return vectors[0];
+}
+
+async function storeVector(supabase: SupabaseClient, embedder: Embedder, table: 'roles' | 'candidates', id: string, vector: number[]) {
+  const { error } = await supabase
+    .from(table)
+    .update({ embedding: toVector(vector), embedding_model: embedder.model, embedded_at: new Date().toISOString() })
+    .eq('id', id);
+  if (error) throw new Error(`${table}: ${error.message}`);
+}
+
+// Embed the rows of one table and store the vectors; rows without any text
+// are left alone.  Returns how many were written.
+export async function embedRows(
+  supabase: SupabaseClient,
+  embedder: Embedder,
+  table: 'roles' | 'candidates',
+  rows: Record<string, any>[],
+): Promise<number> {
+  const textOf = table === 'roles' ? roleText : candidateText;
+  const pending = rows.map((row) => ({ id: row.id as string, text: textOf(row) })).filter((r) => r.text.trim());
+  let written = 0;
+  for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+    const batch = pending.slice(i, i + BATCH_SIZE);
+    const { vectors } = await embedder.embed(batch.map((r) => r.text));
+    for (const [j, row] of batch.entries()) {
+      if (!vectors[j]) continue;
+      await storeVector(supabase, embedder, table, row.id, vectors[j]);
+      written++;
+    }
+  }
+  return written;
+}
+
+// Embed up to `limit` roles and candidates of the org that have no embedding
+// from the current model yet
+export async function backfillEmbeddings(
+  supabase: SupabaseClient,
+  embedder: Embedder,
+  orgId: string,
+  limit: number,
+): Promise<{ roles: number; candidates: number }> {
+  const stale = `embedding.is.null,embedding_model.neq.${embedder.model}`;
+  const { data: roles, error: roleError } = await supabase
+    .from('roles')
+    .select('id, title, description, parsed_json')
+    .eq('org_id', orgId)
+    .or(stale)
+    .limit(limit);
+  if (roleError) throw new Error(`roles: ${roleError.message}`);
+  const { data: candidates, error } = await supabase
+    .from('candidates')
+    .select('id, current_title, company, location, summary, profile, resume_text, roles!inner(org_id)')
+    .eq('roles.org_id', orgId)
+    .or(stale)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(`candidates: ${error.message}`);
+  return {
+    roles: await embedRows(supabase, embedder, 'roles', roles || []),
+    candidates: await embedRows(supabase, embedder, 'candidates', candidates || []),
+  };
+}
+
+export async function matchCandidates(
+  supabase: SupabaseClient,
+  embedder: Embedder,
+  orgId: string,
+  vector: number[],
+  opts: { excludeRoleId?: string | null; statuses?: string[] | null; limit: number },
+): Promise<CandidateMatch[]> {
+  const { data, error } = await supabase.rpc('match_candidates', {
+    query_embedding: toVector(vector),
+    match_org: orgId,
+    match_model: embedder.model,
+    exclude_role: opts.excludeRoleId || null,
+    match_statuses: opts.statuses?.length ? opts.statuses : null,
+    match_count: opts.limit,
+  });
+  if (error) throw new Error(`match_candidates: ${error.message}`);
+  return ((data || []) as any[]).map((r) => ({ id: r.id, role_id: r.role_id, similarity: Math.round(r.similarity * 10000) / 10000 }));
+}
+
+// The role’s stored JD embedding, or a fresh one when it is missing or from
+// another model
+export async function roleVector(supabase: SupabaseClient, embedder: Embedder, role: Record<string, any>): Promise<number[] | null> {
+  if (role.embedding_model === embedder.model) {
+    const stored = parseVector(role.embedding);
+    if (stored) return stored;
+  }
+  const text = roleText(role);
+  if (!text.trim()) return null;
+  const vector = await embedText(embedder, text);
+  await storeVector(supabase, embedder, 'roles', role.id, vector);
+  return vector;
+}
+
+// Candidates of other roles who may be offered a new one: not hired, not
+// withdrawn and not in conversation about another role right now.  Contacted
+// candidates only count once their sequence is over.
+export const REDISCOVER_STATUSES = ['sourced', 'screened', 'contacted', 'rejected'];
+
+// Outreach statuses of a sequence that is still running
+const OPEN_OUTREACH = ['active', 'paused'];
+
+// Past candidates from the org’s other roles ranked against the role’s JD,
+// best first, at least `minSimilarity` alike; anyone with an open outreach
+// sequence is left out so they are never in two at once
+export async function rediscoverCandidates(
+  supabase: SupabaseClient,
+  embedder: Embedder,
+  role: Record<string, any>,
+  opts: { limit: number; minSimilarity: number },
+): Promise<CandidateMatch[]> {
+  const vector = await roleVector(supabase, embedder, role);
+  if (!vector) return [];
+  const matches = await matchCandidates(supabase, embedder, role.org_id, vector, {
+    excludeRoleId: role.id,
+    statuses: REDISCOVER_STATUSES,
+    limit: opts.limit,
+  });
+  const similar = matches.filter((m) => m.similarity >= opts.minSimilarity);
+  if (!similar.length) return [];
+  const { data: open, error } = await supabase
+    .from('outreach')
+    .select('candidate_id')
+    .in('candidate_id', similar.map((m) => m.id))
+    .in('status', OPEN_OUTREACH);
+  if (error) throw new Error(`outreach: ${error.message}`);
+  const busy = new Set((open || []).map((o: any) => o.candidate_id));
+  return similar.filter((m) => !busy.has(m.id));
+}
@@ -0,0 +1,109 @@
+// engagements.ts – recording engagement events exactly once
+//
+// Providers retry webhooks and jobs are retried after failures, so the same
+// event can arrive several times.  `recordEngagement` inserts an engagement
+// under a dedupe key (the provider’s event id, or e.g. outreach id + step for
+// our own sends); a second insert with the same key is ignored and reported
+// as a duplicate.  `applyWebhookEvents` holds what ingest_webhook does for
+// each normalised provider event.  Its side effects (stopping sequences,
+// suppressing, status moves) are safe to repeat, so a retried batch finishes
+// what a failed attempt started without writing any event twice.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { suppress, SUPPRESSING_EVENTS } from './compliance.ts';
+import { candidateIdForMessage, stopSequences, STOP_EVENTS } from './sequences.ts';
+import { CandidateStatus, transitionStatus } from './status.ts';
+import { NormalisedEvent } from './webhook_adapters.ts';
+
+export interface EngagementInput {
+  candidate_id: string;
+  event: string;
+  payload: Record<string, unknown>;
+  key?: string | null;
+  classification?: string | null;
+  confidence?: number | null;
+}
+
+// Map webhook events to candidate statuses
+const STATUS_FOR_EVENT: Record<string, CandidateStatus> = {
+  opened: 'contacted',
+  bounced: 'rejected',
+  unsubscribed: 'withdrawn',
+  spam_reported: 'withdrawn',
+};
+
+// Returns false when an engagement with the same key was already recorded
+export async function recordEngagement(supabase: SupabaseClient, input: EngagementInput): Promise<boolean> {
+  const row = {
+    candidate_id: input.candidate_id,
+    event: input.event,
+    payload: input.payload,
+    event_key: input.key || null,
+    classification: input.classification ?? null,
+    confidence: input.confidence ?? null,
+  };
+  if (!row.event_key) {
+    const { error } = await supabase.from('engagements').insert(row);
+    if (error) throw new Error(`engagements: ${error.message}`);
+    return true;
+  }
+  const { data, error } = await supabase
+    .from('engagements')
+    .upsert(row, { onConflict: 'event_key', ignoreDuplicates: true })
+    .select('id');
+  if (error) throw new Error(`engagements: ${error.message}`);
+  return !!data && data.length > 0;
+}
+
+async function resolveCandidateId(supabase: SupabaseClient, event: NormalisedEvent): Promise<string | null> {
+  if (event.candidate_id) return event.candidate_id;
+  return event.message_id ? await candidateIdForMessage(supabase, event.message_id) : null;
+}
+
+export async function applyWebhookEvents(
+  supabase: SupabaseClient,
+  provider: string,
+  webhookRequestId: string,
+  events: NormalisedEvent[],
+): Promise<{ processed: number; skipped: number; duplicates: number }> {
+  let processed = 0;
+  let skipped = 0;
+  let duplicates = 0;
+  for (const e of events) {
+    const candidateId = await resolveCandidateId(supabase, e);
+    if (!candidateId) {
+      skipped++;
+      continue;
+    }
+    const sourceEvent = `${provider}:${e.provider_event_id || e.provider_event}`;
+    const recorded = await recordEngagement(supabase, {
+      candidate_id: candidateId,
+      event: e.event,
+      key: e.provider_event_id ? `${provider}:${e.provider_event_id}` : null,
+      payload: {
+        provider,
+        provider_event: e.provider_event,
+        provider_event_id: e.provider_event_id,
+        message_id: e.message_id,
+        webhook_request_id: webhookRequestId,
+        raw: e.raw,
+      },
+    });
+    if (!recorded) duplicates++;
+    if (STOP_EVENTS.includes(e.event)) {
+      await stopSequences(supabase, candidateId, e.event);
+    }
+    const reason = SUPPRESSING_EVENTS[e.event];
+    if (reason) {
+      const { data: candidate } = await supabase.from('candidates').select('email, roles(org_id)').eq('id', candidateId).maybeSingle();
+      const orgId = (candidate?.roles as any)?.org_id;
+      if (orgId) await suppress(supabase, orgId, { email: e.email || candidate?.email, reason, source: sourceEvent });
+    }
+    const newStatus = STATUS_FOR_EVENT[e.event];
+    if (newStatus) {
+      await transitionStatus(supabase, candidateId, newStatus, { actor: `webhook:${provider}`, reason: e.event, source_event: sourceEvent });
+    }
+    processed++;
+  }
+  return { processed, skipped, duplicates };
+}
@@ -0,0 +1,299 @@
+// enrichment.ts – contact enrichment providers and the waterfall across them
+//
+// An Enricher looks up a batch of leads (no more than its `batchSize` per
+// request) and answers for each one whether it found the person: `matched`,
+// `no_match`, or `ambiguous` when the name fits but nothing confirms it is
+// the same person (several hits, or a different company).  Every field it
+// returns carries the provider as `source` and a `confidence` from 0 to 1;
+// fields from ambiguous matches count for half.
+//
+// `runWaterfall` asks the first enricher about every lead and each further
+// one only about the leads still without a usable email, passing along what
+// is already known (a company domain from Apollo helps Hunter).  For each
+// field the most confident value wins.  A request that fails only costs its
+// own batch: the error is noted on those leads and what earlier enrichers
+// found is kept.
+//
+// Enrichers are chosen with ENRICHERS (e.g. 'apollo,hunter'); by default
+// every provider with an API key is used, Apollo first.
+
+import { normaliseCompany, normaliseLinkedIn, normaliseText, similarity } from './identity.ts';
+
+export interface Lead {
+  name: string;
+  title?: string;
+  company?: string;
+  location?: string;
+  public_url?: string;
+  // Set on leads found by x-ray search ('linkedin', 'github')
+  source?: string;
+}
+
+export type MatchStatus = 'matched' | 'no_match' | 'ambiguous';
+
+export type EnrichedFieldName = 'email' | 'linkedin' | 'company_domain' | 'title' | 'location';
+
+export interface EnrichedField {
+  value: string;
+  confidence: number;
+  source: string;
+}
+
+export type EnrichedFields = Partial<Record<EnrichedFieldName, EnrichedField>>;
+
+export interface LeadMatch {
+  status: MatchStatus;
+  fields: EnrichedFields;
+}
+
+export interface EnrichmentRequest {
+  lead: Lead;
+  known: EnrichedFields;
+}
+
+export interface Enricher {
+  // Also the rate-limit bucket and the ledger provider
+  name: string;
+  batchSize: number;
+  // One match per request, in the same order
+  enrich(requests: EnrichmentRequest[]): Promise<LeadMatch[]>;
+}
+
+export interface EnrichmentResult {
+  lead: Lead;
+  status: MatchStatus;
+  fields: EnrichedFields;
+  // Enrichers that were asked about this lead, in order
+  tried: string[];
+  // Failed requests about this lead, as '<enricher>: <message>'
+  errors: string[];
+}
+
+// Emails below this confidence are looked up again further down the waterfall
+export const MIN_EMAIL_CONFIDENCE = 0.5;
+
+const NAME_THRESHOLD = 0.9;
+const COMPANY_THRESHOLD = 0.85;
+
+const STATUS_RANK: Record<MatchStatus, number> = { no_match: 0, ambiguous: 1, matched: 2 };
+
+// Apollo’s own opinion of the addresses it returns
+const APOLLO_EMAIL_CONFIDENCE: Record<string, number> = {
+  verified: 0.9,
+  likely_to_engage: 0.7,
+  extrapolated: 0.6,
+  guessed: 0.5,
+};
+
+function splitName(name: string): { first: string; last: string } {
+  const parts = name.trim().split(/\s+/);
+  return { first: parts[0] || '', last: parts.length > 1 ? parts[parts.length - 1] : '' };
+}
+
+function linkedinOf(lead: Lead): string | null {
+  return normaliseLinkedIn(lead.public_url);
+}
+
+function field(value: unknown, confidence: number, source: string): EnrichedField | undefined {
+  return typeof value === 'string' && value.trim() ? { value: value.trim(), confidence, source } : undefined;
+}
+
+function compact(fields: Record<string, EnrichedField | undefined>): EnrichedFields {
+  return Object.fromEntries(Object.entries(fields).filter(([, f]) => f)) as EnrichedFields;
+}
+
+function discount(fields: EnrichedFields, factor: number): EnrichedFields {
+  const out: EnrichedFields = {};
+  for (const [name, f] of Object.entries(fields) as [EnrichedFieldName, EnrichedField][]) {
+    out[name] = { ...f, confidence: Math.round(f.confidence * factor * 100) / 100 };
+  }
+  return out;
+}
+
+// Which of the people a provider returned is this lead?  A LinkedIn match is
+// proof; otherwise the name has to fit and the company must not contradict it.
+export function pickPerson<T extends { name?: string | null; linkedin?: string | null; company?: string | null }>(
+  lead: Lead,
+  people: T[],
+): { status: MatchStatus; person: T | null } {
+  const linkedin = linkedinOf(lead);
+  if (linkedin) {
+    const exact = people.filter((p) => normaliseLinkedIn(p.linkedin) === linkedin);
+    if (exact.length === 1) return { status: 'matched', person: exact[0] };
+  }
+  const name = normaliseText(lead.name);
+  const named = people.filter((p) => similarity(name, normaliseText(p.name)) >= NAME_THRESHOLD);
+  if (!named.length) return { status: 'no_match', person: null };
+  const company = normaliseCompany(lead.company);
+  const confirmed = company ? named.filter((p) => similarity(company, normaliseCompany(p.company)) >= COMPANY_THRESHOLD) : [];
+  if (confirmed.length === 1) return { status: 'matched', person: confirmed[0] };
+  return { status: 'ambiguous', person: confirmed[0] || named[0] };
+}
+
+// Apollo People Bulk Match: up to 10 people per request, one credit each
+export function apolloEnricher(apiKey: string, baseUrl = 'https://api.apollo.io'): Enricher {
+  return {
+    name: 'apollo',
+    batchSize: 10,
+    async enrich(requests) {
+      const details = requests.map(({ lead }) => ({
+        name: lead.name,
+        ...splitName(lead.name),
+        organization_name: lead.company || undefined,
+        linkedin_url: linkedinOf(lead) ? `https://www.${linkedinOf(lead)}` : undefined,
+      }));
+      const resp = await fetch(`${baseUrl}/api/v1/people/bulk_match`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-cache', 'X-Api-Key': apiKey },
+        body: JSON.stringify({ details, reveal_personal_emails: false }),
+      });
+      if (!resp.ok) throw new Error(`Apollo API error ${resp.status}`);
+      const data = await resp.json();
+      // Unmatched details come back as null or are left out, so matches are
+      // paired with leads by identity rather than by position
+      const people = ((data.matches || []) as any[]).filter(Boolean).map((p) => ({
+        ...p,
+        linkedin: p.linkedin_url,
+        company: p.organization?.name || null,
+      }));
+      return requests.map(({ lead }) => {
+        const { status, person } = pickPerson(lead, people);
+        if (!person) return { status, fields: {} };
+        const emailConfidence = APOLLO_EMAIL_CONFIDENCE[String(person.email_status || '').replace(/ /g, '_')] ?? 0.4;
+        const fields = compact({
+          email: person.email_status === 'unavailable' || person.email_status === 'bounced' ? undefined : field(person.email, emailConfidence, 'apollo'),
+          linkedin: field(person.linkedin_url, 0.9, 'apollo'),
+          company_domain: field(person.organization?.primary_domain, 0.9, 'apollo'),
+          title: field(person.title, 0.8, 'apollo'),
+          location: field([person.city, person.state, person.country].filter(Boolean).join(', '), 0.7, 'apollo'),
+        });
+        return { status, fields: status === 'matched' ? fields : discount(fields, 0.5) };
+      });
+    },
+  };
+}
+
+// Hunter Email Finder: one person per request, by name and company domain
+export function hunterEnricher(apiKey: string, baseUrl = 'https://api.hunter.io'): Enricher {
+  return {
+    name: 'hunter',
+    batchSize: 1,
+    async enrich(requests) {
+      const results: LeadMatch[] = [];
+      for (const { lead, known } of requests) {
+        const url = new URL(`${baseUrl}/v2/email-finder`);
+        url.searchParams.set('full_name', lead.name);
+        if (known.company_domain) url.searchParams.set('domain', known.company_domain.value);
+        else if (lead.company) url.searchParams.set('company', lead.company);
+        url.searchParams.set('api_key', apiKey);
+        const resp = await fetch(url.toString());
+        // 404 is Hunter’s answer for "no one by that name"
+        if (resp.status === 404) {
+          results.push({ status: 'no_match', fields: {} });
+          continue;
+        }
+        if (!resp.ok) throw new Error(`Hunter API error ${resp.status}`);
+        const data = (await resp.json()).data || {};
+        if (!data.email) {
+          results.push({ status: 'no_match', fields: {} });
+          continue;
+        }
+        const score = Math.min(Math.max(Number(data.score) || 0, 0), 100) / 100;
+        results.push({
+          status: 'matched',
+          fields: compact({
+            email: field(data.email, score, 'hunter'),
+            linkedin: field(data.linkedin_url, 0.7, 'hunter'),
+            company_domain: field(data.domain, 0.8, 'hunter'),
+            title: field(data.position, 0.6, 'hunter'),
+          }),
+        });
+      }
+      return results;
+    },
+  };
+}
+
+// Offline stand-in for demos: echoes what the lead already says and makes up
+// an address on the reserved example.com domain that never verifies.  No
+// company domain is guessed.
+export function mockEnricher(): Enricher {
+  return {
+    name: 'mock',
+    batchSize: 10,
+    enrich(requests) {
+      return Promise.resolve(requests.map(({ lead }) => {
+        const { first, last } = splitName(lead.name);
+        const local = [first, last].filter(Boolean).join('.').toLowerCase().replace(/[^a-z0-9.]/g, '');
+        return {
+          status: 'matched' as const,
+          fields: compact({
+            email: local ? field(`${local}@example.com`, 0.1, 'mock') : undefined,
+            linkedin: linkedinOf(lead) ? field(lead.public_url, 1, 'mock') : undefined,
+          }),
+        };
+      }));
+    },
+  };
+}
+
+export function enrichersFromEnv(): Enricher[] {
+  const keys: Record<string, string | undefined> = {
+    apollo: Deno.env.get('APOLLO_API_KEY'),
+    hunter: Deno.env.get('HUNTER_API_KEY'),
+  };
+  const order = (Deno.env.get('ENRICHERS') || 'apollo,hunter').split(',').map((s) => s.trim());
+  const enrichers: Enricher[] = [];
+  for (const name of order) {
+    if (name === 'apollo' && keys.apollo) enrichers.push(apolloEnricher(keys.apollo, Deno.env.get('APOLLO_BASE_URL')));
+    if (name === 'hunter' && keys.hunter) enrichers.push(hunterEnricher(keys.hunter, Deno.env.get('HUNTER_BASE_URL')));
+  }
+  return enrichers;
+}
+
+function needsEmail(result: EnrichmentResult): boolean {
+  return !result.fields.email || result.fields.email.confidence < MIN_EMAIL_CONFIDENCE;
+}
+
+function merge(result: EnrichmentResult, match: LeadMatch) {
+  if (STATUS_RANK[match.status] > STATUS_RANK[result.status]) result.status = match.status;
+  for (const [name, f] of Object.entries(match.fields) as [EnrichedFieldName, EnrichedField][]) {
+    const current = result.fields[name];
+    if (!current || f.confidence > current.confidence) result.fields[name] = f;
+  }
+}
+
+// Run the leads through the enrichers in order.  `budget` is asked before
+// each enricher how many of the wanted lookups it may make (the org’s
+// remaining credits); leads beyond it are not looked up by that enricher.
+// Throws only when every request failed, as there is then nothing to keep.
+export async function runWaterfall(
+  enrichers: Enricher[],
+  leads: Lead[],
+  opts: { budget?: (enricher: Enricher, wanted: number) => Promise<number> } = {},
+): Promise<EnrichmentResult[]> {
+  const results: EnrichmentResult[] = leads.map((lead) => ({ lead, status: 'no_match', fields: {}, tried: [], errors: [] }));
+  let lastError: Error | null = null;
+  for (const [i, enricher] of enrichers.entries()) {
+    let pending = i === 0 ? results : results.filter(needsEmail);
+    if (!pending.length) break;
+    if (opts.budget) pending = pending.slice(0, Math.max(await opts.budget(enricher, pending.length), 0));
+    for (let start = 0; start < pending.length; start += enricher.batchSize) {
+      const batch = pending.slice(start, start + enricher.batchSize);
+      let matches: LeadMatch[];
+      try {
+        matches = await enricher.enrich(batch.map((r) => ({ lead: r.lead, known: r.fields })));
+      } catch (err) {
+        lastError = err as Error;
+        for (const result of batch) result.errors.push(`${enricher.name}: ${lastError.message}`);
+        continue;
+      }
+      batch.forEach((result, j) => {
+        result.tried.push(enricher.name);
+        if (matches[j]) merge(result, matches[j]);
+      });
+    }
+  }
+  if (lastError && !results.some((r) => r.tried.length)) throw lastError;
+  return results;
+}
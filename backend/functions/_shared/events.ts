@@ -0,0 +1,316 @@
+// events.ts – outbound webhooks for pipeline events
+//
+// Organisations subscribe URLs to pipeline events through
+// `webhook_subscriptions` rows, which owners manage like their ATS
+// connection.  Functions call `emitEvent` (or `emitCandidateEvent`) where
+// something happens:
+//
+//   candidate.sourced          a new candidate joined a pipeline, from any source
+//   candidate.screened         screen_resume scored a candidate
+//   outreach.sent              send_sequence sent an outreach step
+//   candidate.replied          inbound_email classified a reply
+//   meeting.scheduled          an interview was booked or rescheduled
+//   role.pipeline_underfilled  the pipeline daemon found fewer candidates than
+//                              `min_pipeline` (at most once a day per role)
+//
+// Every matching subscription gets a `webhook_deliveries` row and a
+// `webhook_delivery` job, so the request is made by job_worker and retried
+// with the queue’s backoff while the endpoint is down.  An event emitted
+// twice under the same key (a retried job, a provider retrying its webhook)
+// has the same id and is delivered once per subscription.  The status code
+// and error of the last attempt are kept on the delivery, and
+// webhook_deliveries lists and replays them.
+//
+// Bodies are signed with the subscription’s secret in a
+// `HireLoop-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`
+// header.  Subscriptions with format 'slack' get a Slack message (`{ text }`)
+// instead of the event JSON, so a Slack incoming webhook URL works as is.
+//
+// Deliveries only go to https URLs whose host resolves to public addresses,
+// and redirects are not followed.  fetch resolves the host again after the
+// check, so a rebinding host could still reach an inner address: response
+// bodies are therefore never read back or stored, only the status code.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { enqueueJob, JobError } from './jobs.ts';
+import { hmacSha256Hex } from './webhook_adapters.ts';
+
+export type EventType =
+  | 'candidate.sourced'
+  | 'candidate.screened'
+  | 'outreach.sent'
+  | 'candidate.replied'
+  | 'meeting.scheduled'
+  | 'role.pipeline_underfilled'
+  | 'ping';
+
+export const EVENT_TYPES: EventType[] = [
+  'candidate.sourced',
+  'candidate.screened',
+  'outreach.sent',
+  'candidate.replied',
+  'meeting.scheduled',
+  'role.pipeline_underfilled',
+];
+
+export type DeliveryStatus = 'pending' | 'delivered' | 'retrying' | 'failed';
+
+export interface WebhookEvent {
+  id: string;
+  type: EventType;
+  created_at: string;
+  org_id: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookSubscription {
+  id: string;
+  org_id: string;
+  url: string;
+  secret: string;
+  // null or empty for every event
+  events: string[] | null;
+  format: 'json' | 'slack';
+  active: boolean;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscription_id: string;
+  org_id: string;
+  event_id: string;
+  event_type: EventType;
+  payload: WebhookEvent;
+  status: DeliveryStatus;
+  attempts: number;
+  replays: number;
+  response_status: number | null;
+  last_error: string | null;
+  last_attempt_at: string | null;
+  delivered_at: string | null;
+  created_at: string;
+}
+
+const MAX_ATTEMPTS = parseInt(Deno.env.get('WEBHOOK_MAX_ATTEMPTS') || '8', 10);
+const TIMEOUT_MS = parseInt(Deno.env.get('WEBHOOK_TIMEOUT_MS') || '10000', 10);
+
+// Addresses a webhook may not be sent to: private, loopback, link-local,
+// shared, benchmarking, multicast and unspecified ranges, and NAT64
+// prefixes that translate to any IPv4 address
+function privateAddress(ip: string): boolean {
+  const v4 = ip.match(/^(?:::ffff:)?(\d+)\.(\d+)\.(\d+)\.(\d+)$/i);
+  if (v4) {
+    const [a, b] = [Number(v4[1]), Number(v4[2])];
+    return a === 0 || a === 10 || a === 127 || a >= 224 || (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) || (a === 100 && b >= 64 && b <= 127) || (a === 198 && (b === 18 || b === 19));
+  }
+  const v6 = ip.toLowerCase();
+  return v6 === '::' || v6 === '::1' || /^f[cd]/.test(v6) || /^fe[89ab]/.test(v6) || v6.startsWith('ff') || v6.startsWith('::ffff:') ||
+    /^0*64:ff9b:/.test(v6);
+}
+
+// Refuse URLs that are not https or whose host resolves to an address
+// inside our network; these fail for good
+async function checkTarget(url: string) {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch (_e) {
+    throw new JobError('Webhook URL is not a valid URL', false);
+  }
+  if (target.protocol !== 'https:') throw new JobError('Webhook URLs must use https', false);
+  const host = target.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[] = [];
+  if (/^[\d.]+$/.test(host) || host.includes(':')) {
+    addresses = [host];
+  } else {
+    for (const type of ['A', 'AAAA'] as const) {
+      try {
+        addresses.push(...await Deno.resolveDns(host, type));
+      } catch (_e) {
+        // A host may have only one kind of record
+      }
+    }
+    if (!addresses.length) throw new Error(`Could not resolve ${host}`);
+  }
+  if (addresses.some(privateAddress)) throw new JobError(`Webhook host ${host} resolves to a private address`, false);
+}
+
+// The candidate fields events carry.  Subscribers sit outside the org’s
+// access rules, so contact details (email, LinkedIn) are never sent.
+const CANDIDATE_FIELDS = 'id, role_id, name, current_title, company, location, source, status, fit_score, summary';
+
+export function eventCandidate(row: Record<string, any>): Record<string, unknown> {
+  const candidate: Record<string, unknown> = {};
+  for (const field of CANDIDATE_FIELDS.split(', ')) candidate[field] = row[field] ?? null;
+  return candidate;
+}
+
+// Events emitted under the same key get the same id
+async function eventId(type: EventType, key?: string | null): Promise<string> {
+  if (!key) return `evt_${crypto.randomUUID().replace(/-/g, '')}`;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${type}:${key}`));
+  return `evt_${Array.from(new Uint8Array(digest)).slice(0, 16).map((b) => b.toString(16).padStart(2, '0')).join('')}`;
+}
+
+// Log a delivery of the event to one subscription and queue it; false when
+// this event was already delivered to it
+export async function queueDelivery(supabase: SupabaseClient, subscriptionId: string, event: WebhookEvent): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .upsert(
+      { subscription_id: subscriptionId, org_id: event.org_id, event_id: event.id, event_type: event.type, payload: event },
+      { onConflict: 'subscription_id,event_id', ignoreDuplicates: true },
+    )
+    .select('id');
+  if (error) throw new Error(`webhook_deliveries: ${error.message}`);
+  if (!data || !data.length) return false;
+  await enqueueJob(supabase, 'webhook_delivery', { delivery_id: data[0].id }, { key: `${data[0].id}:0`, orgId: event.org_id, maxAttempts: MAX_ATTEMPTS });
+  return true;
+}
+
+// Queue the event for every active subscription of the org that wants it.
+// Never throws: the action that raised the event stands even when the event
+// cannot be queued.  Returns how many deliveries were queued.
+export async function emitEvent(
+  supabase: SupabaseClient,
+  orgId: string,
+  type: EventType,
+  data: Record<string, unknown>,
+  opts: { key?: string | null } = {},
+): Promise<number> {
+  try {
+    const { data: subscriptions, error } = await supabase
+      .from('webhook_subscriptions')
+      .select('id, events')
+      .eq('org_id', orgId)
+      .eq('active', true);
+    if (error) throw new Error(`webhook_subscriptions: ${error.message}`);
+    const matching = (subscriptions || []).filter((s: any) => !s.events?.length || s.events.includes(type));
+    if (!matching.length) return 0;
+    const event: WebhookEvent = { id: await eventId(type, opts.key), type, created_at: new Date().toISOString(), org_id: orgId, data };
+    let queued = 0;
+    for (const subscription of matching) {
+      if (await queueDelivery(supabase, subscription.id, event)) queued++;
+    }
+    return queued;
+  } catch (_e) {
+    // Events are best effort; a delivery that was logged can be replayed
+    return 0;
+  }
+}
+
+// Emit an event about a candidate, with the candidate and their role
+export async function emitCandidateEvent(
+  supabase: SupabaseClient,
+  type: EventType,
+  candidateId: string,
+  data: Record<string, unknown> = {},
+  opts: { key?: string | null } = {},
+): Promise<number> {
+  const { data: row } = await supabase.from('candidates').select(`${CANDIDATE_FIELDS}, roles(org_id, title)`).eq('id', candidateId).maybeSingle();
+  if (!row?.roles) return 0;
+  const role = { id: row.role_id, title: row.roles.title || null };
+  return await emitEvent(supabase, row.roles.org_id, type, { candidate: eventCandidate(row), role, ...data }, opts);
+}
+
+// One line for a Slack channel
+export function slackText(event: WebhookEvent): string {
+  const data = event.data as Record<string, any>;
+  const who = data.candidate?.name || 'A candidate';
+  const role = data.role?.title || 'a role';
+  switch (event.type) {
+    case 'candidate.sourced':
+      return `${who} joined the pipeline for ${role} (${data.candidate?.source || 'manual'})`;
+    case 'candidate.screened':
+      return `${who} was screened for ${role}: fit ${data.screening?.fit_score ?? '?'}/100. ${data.screening?.summary || ''}`.trim();
+    case 'outreach.sent':
+      return `Outreach step ${data.outreach?.step ?? '?'} was sent to ${who} about ${role}`;
+    case 'candidate.replied':
+      return `${who} replied about ${role} (${data.reply?.classification || 'unclassified'}). ${data.reply?.summary || ''}`.trim();
+    case 'meeting.scheduled':
+      return `Interview with ${who} for ${role} ${data.interview?.rescheduled ? 'rescheduled' : 'booked'} for ${data.interview?.start || 'a time to be confirmed'}`;
+    case 'role.pipeline_underfilled':
+      return `${role} has ${data.pipeline} of the ${data.min_pipeline} candidates it needs`;
+    default:
+      return `HireLoop webhook test (${event.type})`;
+  }
+}
+
+export async function signature(secret: string, body: string, timestamp: number): Promise<string> {
+  return `t=${timestamp},v1=${await hmacSha256Hex(secret, `${timestamp}.${body}`)}`;
+}
+
+// Make one delivery attempt; a failed attempt throws so job_worker retries
+// it.  `final` marks the job’s last attempt, after which the delivery is
+// left `failed` until it is replayed.
+export async function deliverWebhook(supabase: SupabaseClient, deliveryId: string, final: boolean): Promise<unknown> {
+  const { data: delivery, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*, webhook_subscriptions(url, secret, format, active)')
+    .eq('id', deliveryId)
+    .maybeSingle();
+  if (error) throw new Error(`webhook_deliveries: ${error.message}`);
+  if (!delivery) throw new JobError('Webhook delivery no longer exists', false);
+  const subscription = delivery.webhook_subscriptions as WebhookSubscription | null;
+  const attemptedAt = new Date().toISOString();
+  if (!subscription?.active) {
+    await supabase.from('webhook_deliveries').update({ status: 'failed', last_error: 'Subscription is inactive', last_attempt_at: attemptedAt }).eq('id', delivery.id);
+    return { delivery_id: delivery.id, skipped: 'inactive' };
+  }
+  const event = delivery.payload as WebhookEvent;
+  const body = JSON.stringify(subscription.format === 'slack' ? { text: slackText(event) } : event);
+  let responseStatus: number | null = null;
+  let failure: string | null = null;
+  let retryable = true;
+  try {
+    await checkTarget(subscription.url);
+    const resp = await fetch(subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'HireLoop-Webhooks/1.0',
+        'HireLoop-Event': event.type,
+        'HireLoop-Delivery': delivery.id,
+        'HireLoop-Signature': await signature(subscription.secret, body, Math.floor(Date.now() / 1000)),
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    responseStatus = resp.status;
+    await resp.body?.cancel();
+    if (resp.status >= 300 && resp.status < 400) failure = `HTTP ${resp.status} (redirects are not followed)`;
+    else if (!resp.ok) failure = `HTTP ${resp.status}`;
+  } catch (err) {
+    failure = (err as Error).message;
+    if (err instanceof JobError) retryable = err.retryable;
+  }
+  const status: DeliveryStatus = !failure ? 'delivered' : final || !retryable ? 'failed' : 'retrying';
+  await supabase.from('webhook_deliveries').update({
+    status,
+    attempts: delivery.attempts + 1,
+    response_status: responseStatus,
+    last_error: failure,
+    last_attempt_at: attemptedAt,
+    delivered_at: failure ? null : attemptedAt,
+  }).eq('id', delivery.id);
+  if (failure) throw new JobError(`${subscription.url}: ${failure}`, retryable);
+  return { delivery_id: delivery.id, status: responseStatus };
+}
+
+// Queue a delivered or failed delivery again.  Each replay is its own job,
+// keyed by the delivery’s replay count.
+export async function replayDelivery(supabase: SupabaseClient, delivery: Pick<WebhookDelivery, 'id' | 'org_id' | 'replays'>): Promise<boolean> {
+  const replays = delivery.replays + 1;
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .update({ status: 'pending', replays })
+    .eq('id', delivery.id)
+    .eq('replays', delivery.replays)
+    .select('id');
+  if (error) throw new Error(`webhook_deliveries: ${error.message}`);
+  if (!data || !data.length) return false;
+  await enqueueJob(supabase, 'webhook_delivery', { delivery_id: delivery.id }, { key: `${delivery.id}:${replays}`, orgId: delivery.org_id, maxAttempts: MAX_ATTEMPTS });
+  return true;
+}
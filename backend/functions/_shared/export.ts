@@ -0,0 +1,182 @@
+// export.ts – shortlist renderers for export_shortlist
+//
+// Each renderer takes the same candidate rows and the caller’s column
+// selection.  CSV is written by _shared/csv.ts (RFC 4180, formula cells
+// neutralised), XLSX with SheetJS and the PDF report with pdf-lib.
+
+import * as XLSX from 'https://esm.sh/xlsx@0.18.5';
+import { PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from 'https://esm.sh/pdf-lib@1.17.1';
+import { Cell, csvTable, flat } from './csv.ts';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf' | 'json';
+
+export type ExportColumn =
+  | 'name'
+  | 'email'
+  | 'current_title'
+  | 'company'
+  | 'location'
+  | 'linkedin'
+  | 'public_url'
+  | 'status'
+  | 'summary'
+  | 'fit_score'
+  | 'technical_score'
+  | 'experience_score'
+  | 'culture_score'
+  | 'top_reasons'
+  | 'interview_focus';
+
+export const COLUMNS: Record<ExportColumn, { header: string; value(c: any): Cell }> = {
+  name: { header: 'Name', value: (c) => c.name },
+  email: { header: 'Email', value: (c) => c.email },
+  current_title: { header: 'Title', value: (c) => c.current_title },
+  company: { header: 'Company', value: (c) => c.company },
+  location: { header: 'Location', value: (c) => c.location },
+  linkedin: { header: 'LinkedIn', value: (c) => c.linkedin },
+  public_url: { header: 'Profile URL', value: (c) => c.public_url },
+  status: { header: 'Status', value: (c) => c.status },
+  summary: { header: 'Summary', value: (c) => c.summary },
+  fit_score: { header: 'Fit score', value: (c) => c.fit_score },
+  technical_score: { header: 'Technical', value: (c) => c.technical_score },
+  experience_score: { header: 'Experience', value: (c) => c.experience_score },
+  culture_score: { header: 'Culture', value: (c) => c.culture_score },
+  top_reasons: { header: 'Top reasons', value: (c) => c.screening?.top_reasons || [] },
+  interview_focus: { header: 'Interview focus', value: (c) => c.screening?.interview_focus || [] },
+};
+
+export const DEFAULT_COLUMNS: ExportColumn[] = ['name', 'company', 'current_title', 'location', 'fit_score'];
+
+// Contact details, which clients of the org may not export
+export const PII_COLUMNS: ExportColumn[] = ['email', 'linkedin', 'public_url'];
+
+export const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+  json: 'application/json',
+};
+
+const BRAND = rgb(0.31, 0.27, 0.9);
+const INK = rgb(0.12, 0.12, 0.14);
+const MUTED = rgb(0.42, 0.42, 0.47);
+
+export function toCsv(rows: any[], columns: ExportColumn[]): Uint8Array {
+  return csvTable(
+    columns.map((col) => COLUMNS[col].header),
+    rows.map((row) => columns.map((col) => COLUMNS[col].value(row))),
+  );
+}
+
+export function toXlsx(rows: any[], columns: ExportColumn[]): Uint8Array {
+  const sheet = XLSX.utils.aoa_to_sheet([
+    columns.map((col) => COLUMNS[col].header),
+    ...rows.map((row) => columns.map((col) => flat(COLUMNS[col].value(row)))),
+  ]);
+  sheet['!cols'] = columns.map((col) => ({ wch: ['summary', 'top_reasons', 'interview_focus'].includes(col) ? 60 : 20 }));
+  const book = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(book, sheet, 'Shortlist');
+  return new Uint8Array(XLSX.write(book, { type: 'array', bookType: 'xlsx' }));
+}
+
+export function toJson(rows: any[], columns: ExportColumn[]): Uint8Array {
+  const records = rows.map((row) => Object.fromEntries(columns.map((col) => [col, COLUMNS[col].value(row) ?? null])));
+  return new TextEncoder().encode(JSON.stringify(records, null, 2));
+}
+
+// The standard PDF fonts only cover WinAnsi; anything else would throw
+function winAnsi(text: string): string {
+  return text.replace(/[^\x20-\x7E\xA0-\xFF–—‘’“”•…€]/g, '?');
+}
+
+function wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of winAnsi(text).split(/\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const next = line ? `${line} ${word}` : word;
+      if (line && font.widthOfTextAtSize(next, size) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = next;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+// Branded report: a header band with the role on every page, then for each
+// candidate the one-liner, score breakdown, top reasons and interview focus.
+export async function toPdf(role: { title?: string; org_name?: string }, rows: any[]): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const margin = 48;
+  let page: PDFPage;
+  let y = 0;
+  let width = 0;
+
+  const newPage = () => {
+    page = doc.addPage();
+    width = page.getWidth() - margin * 2;
+    const height = page.getHeight();
+    page.drawRectangle({ x: 0, y: height - 64, width: page.getWidth(), height: 64, color: BRAND });
+    page.drawText('HireLoop', { x: margin, y: height - 40, size: 18, font: bold, color: rgb(1, 1, 1) });
+    const heading = winAnsi(`Shortlist – ${role.title || 'Untitled role'}`);
+    page.drawText(heading, { x: margin + 110, y: height - 40, size: 12, font: regular, color: rgb(1, 1, 1) });
+    y = height - 64 - 28;
+  };
+  const ensure = (space: number) => {
+    if (y - space < margin) newPage();
+  };
+  const text = (value: string, opts: { size?: number; font?: PDFFont; color?: typeof INK; indent?: number } = {}) => {
+    const size = opts.size || 10;
+    const font = opts.font || regular;
+    const indent = opts.indent || 0;
+    for (const line of wrap(value, font, size, width - indent)) {
+      ensure(size + 4);
+      page.drawText(line, { x: margin + indent, y, size, font, color: opts.color || INK });
+      y -= size + 4;
+    }
+  };
+
+  newPage();
+  const generated = new Date().toISOString().slice(0, 10);
+  text(`${rows.length} candidate${rows.length === 1 ? '' : 's'}${role.org_name ? ` · ${role.org_name}` : ''} · generated ${generated}`, { color: MUTED });
+  y -= 8;
+
+  rows.forEach((c, index) => {
+    ensure(90);
+    page.drawLine({ start: { x: margin, y: y + 6 }, end: { x: margin + width, y: y + 6 }, thickness: 0.5, color: MUTED });
+    y -= 10;
+    text(`${index + 1}. ${c.name || 'Unknown'}`, { size: 13, font: bold });
+    const who = [c.current_title, c.company].filter(Boolean).join(' at ');
+    text([who, c.location].filter(Boolean).join(' · ') || '—', { color: MUTED });
+    if (c.summary) text(c.summary, { font: regular });
+    const scores = [
+      `Fit ${c.fit_score ?? '–'}/100`,
+      `Technical ${c.technical_score ?? '–'}/5`,
+      `Experience ${c.experience_score ?? '–'}/5`,
+      `Culture ${c.culture_score ?? '–'}/5`,
+    ].join('   ');
+    text(scores, { font: bold, color: BRAND });
+    for (const criterion of c.score_breakdown?.criteria || []) {
+      if (!criterion.items?.length) continue;
+      const items = criterion.items.map((i: any) => `${i.item} (${i.status})`).join(', ');
+      text(`${criterion.criterion.replace(/_/g, ' ')}: ${Math.round(criterion.score * 100)}% – ${items}`, { size: 9, color: MUTED, indent: 8 });
+    }
+    const sections: [string, string[]][] = [
+      ['Top reasons', c.screening?.top_reasons || []],
+      ['Interview focus', c.screening?.interview_focus || []],
+    ];
+    for (const [title, items] of sections) {
+      if (!items.length) continue;
+      text(title, { size: 10, font: bold });
+      for (const item of items) text(`• ${item}`, { indent: 8 });
+    }
+    y -= 10;
+  });
+  return await doc.save();
+}
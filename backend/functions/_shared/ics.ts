@@ -0,0 +1,90 @@
+// ics.ts – iCalendar (RFC 5545) invites for scheduled interviews
+//
+// `buildInvite` produces a single VEVENT wrapped in a VCALENDAR with METHOD
+// REQUEST (or CANCEL), which mail clients show as an accept/decline invite.
+// Text values are escaped and long lines folded at 75 octets as the RFC
+// requires; times are written in UTC.
+
+export interface Attendee {
+  email: string;
+  name?: string | null;
+}
+
+export interface InviteOptions {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string | null;
+  organizer: Attendee;
+  attendees: Attendee[];
+  method?: 'REQUEST' | 'CANCEL';
+  // Must increase every time the same event is re-sent (reschedules)
+  sequence?: number;
+}
+
+const encoder = new TextEncoder();
+
+function icsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function escapeParam(value: string): string {
+  // Parameter values cannot be escaped, only quoted
+  return `"${value.replace(/"/g, "'")}"`;
+}
+
+// Lines longer than 75 octets continue on the next line after a single space,
+// without splitting a multi-byte character.
+function fold(line: string): string {
+  if (encoder.encode(line).length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function person(prop: string, who: Attendee, extra = ''): string {
+  const cn = who.name ? `;CN=${escapeParam(who.name)}` : '';
+  return `${prop}${cn}${extra}:mailto:${who.email}`;
+}
+
+export function buildInvite(opts: InviteOptions): string {
+  const method = opts.method || 'REQUEST';
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//HireLoop//Interview Scheduling//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+    'BEGIN:VEVENT',
+    `UID:${opts.uid}`,
+    `SEQUENCE:${opts.sequence || 0}`,
+    `DTSTAMP:${icsDate(new Date())}`,
+    `DTSTART:${icsDate(opts.start)}`,
+    `DTEND:${icsDate(opts.end)}`,
+    `SUMMARY:${escapeText(opts.summary)}`,
+    ...(opts.description ? [`DESCRIPTION:${escapeText(opts.description)}`] : []),
+    ...(opts.location ? [`LOCATION:${escapeText(opts.location)}`] : []),
+    person('ORGANIZER', opts.organizer),
+    ...opts.attendees.map((a) => person('ATTENDEE', a, ';ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE')),
+    `STATUS:${method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
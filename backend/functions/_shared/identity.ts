@@ -0,0 +1,269 @@
+// identity.ts – candidate identity resolution and merging
+//
+// Sourcing, enrichment and screening all create candidate rows, often for the
+// same person.  Identities are matched on normalised email, LinkedIn profile,
+// public URL and, failing those, a fuzzy name + company comparison; two rows
+// with different emails are never the same person.  Within a role the
+// incoming record is merged into the existing row (keeping the richest value
+// of every field and the score history, but never replacing an email,
+// LinkedIn profile or public URL it already has); across the org’s other
+// roles the match is only flagged through `also_in_roles`.  A merge never
+// changes the status; new rows start their status history here.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { emitEvent, eventCandidate } from './events.ts';
+import { recordInitialStatus } from './status.ts';
+
+export interface CandidateFields {
+  name?: string | null;
+  email?: string | null;
+  linkedin?: string | null;
+  public_url?: string | null;
+  company?: string | null;
+  current_title?: string | null;
+  location?: string | null;
+  resume_url?: string | null;
+  summary?: string | null;
+  culture_score?: number | null;
+  technical_score?: number | null;
+  experience_score?: number | null;
+  fit_score?: number | null;
+  email_status?: string | null;
+  email_checked_at?: string | null;
+  contactable?: boolean;
+  enrichment?: Record<string, unknown> | null;
+  // How the person entered the pipeline: 'xray', 'apollo', 'upload', 'manual'
+  // or 'rediscovered' (found in another role's pipeline)
+  source?: string | null;
+  status?: string;
+}
+
+export type MatchVia = 'email' | 'linkedin' | 'public_url' | 'name_company';
+
+export interface ResolveResult {
+  candidate: any;
+  merged: boolean;
+  via: MatchVia | null;
+  also_in_roles: string[];
+}
+
+const TEXT_FIELDS = ['name', 'email', 'linkedin', 'public_url', 'company', 'current_title', 'location', 'resume_url', 'summary'] as const;
+// Fields identities are matched on; filled in when empty, never replaced
+const IDENTITY_FIELDS: readonly string[] = ['email', 'linkedin', 'public_url'];
+const SCORE_FIELDS = ['culture_score', 'technical_score', 'experience_score', 'fit_score'] as const;
+// Fields the candidate's embedding is made from (_shared/embeddings.ts)
+const EMBEDDED_FIELDS = ['current_title', 'company', 'location', 'summary'];
+
+const NAME_THRESHOLD = 0.9;
+const COMPANY_THRESHOLD = 0.85;
+
+export function normaliseEmail(email?: string | null): string | null {
+  if (!email) return null;
+  const [local, domain] = email.trim().toLowerCase().split('@');
+  if (!local || !domain) return null;
+  let user = local.split('+')[0];
+  if (domain === 'gmail.com' || domain === 'googlemail.com') user = user.replace(/\./g, '');
+  return `${user}@${domain}`;
+}
+
+export function normaliseUrl(url?: string | null): string | null {
+  if (!url) return null;
+  try {
+    const u = new URL(/^https?:\/\//i.test(url) ? url : `https://${url}`);
+    const host = u.hostname.toLowerCase().replace(/^(www|m|[a-z]{2})\.(?=.+\..+)/, '');
+    const path = u.pathname.replace(/\/+$/, '').toLowerCase();
+    return `${host}${path}`;
+  } catch (_e) {
+    return null;
+  }
+}
+
+export function normaliseLinkedIn(url?: string | null): string | null {
+  const normalised = normaliseUrl(url);
+  const match = normalised?.match(/^linkedin\.com\/in\/([^/]+)/);
+  return match ? `linkedin.com/in/${decodeURIComponent(match[1])}` : null;
+}
+
+export function normaliseText(text?: string | null): string {
+  return (text || '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function normaliseCompany(company?: string | null): string {
+  return normaliseText(company).replace(/\b(inc|llc|ltd|limited|gmbh|corp|corporation|co|plc)\b/g, '').trim();
+}
+
+// Levenshtein distance scaled to 0..1 (1 = identical)
+export function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diag = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diag + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diag = tmp;
+    }
+  }
+  return 1 - prev[b.length] / Math.max(a.length, b.length);
+}
+
+export function matchIdentity(a: CandidateFields, b: CandidateFields): MatchVia | null {
+  const emailA = normaliseEmail(a.email);
+  const emailB = normaliseEmail(b.email);
+  if (emailA && emailA === emailB) return 'email';
+  // Colleagues share a company and sometimes a name; an email tells them apart
+  if (emailA && emailB) return null;
+  const linkedinA = normaliseLinkedIn(a.linkedin) || normaliseLinkedIn(a.public_url);
+  if (linkedinA && linkedinA === (normaliseLinkedIn(b.linkedin) || normaliseLinkedIn(b.public_url))) return 'linkedin';
+  const urlA = normaliseUrl(a.public_url);
+  if (urlA && urlA === normaliseUrl(b.public_url)) return 'public_url';
+  const nameA = normaliseText(a.name);
+  const companyA = normaliseCompany(a.company);
+  if (nameA && companyA && nameA !== 'unknown') {
+    if (similarity(nameA, normaliseText(b.name)) >= NAME_THRESHOLD && similarity(companyA, normaliseCompany(b.company)) >= COMPANY_THRESHOLD) {
+      return 'name_company';
+    }
+  }
+  return null;
+}
+
+function hasScores(fields: CandidateFields): boolean {
+  return SCORE_FIELDS.some((f) => typeof fields[f] === 'number');
+}
+
+function scoreEntry(fields: CandidateFields, source: string) {
+  return {
+    fit_score: fields.fit_score ?? null,
+    culture_score: fields.culture_score ?? null,
+    technical_score: fields.technical_score ?? null,
+    experience_score: fields.experience_score ?? null,
+    summary: fields.summary ?? null,
+    source,
+    scored_at: new Date().toISOString(),
+  };
+}
+
+// Build the update for an existing row: the longer of two non-empty values
+// wins, except that identity fields are only filled in when empty; new scores
+// replace old ones and are appended to the history.  An email check only
+// describes the address it was made for, so a new address starts
+// unverified.  The first known source is kept, and a change to the
+// embedded text drops the embedding.
+export function mergeFields(existing: any, incoming: CandidateFields, source: string): Record<string, unknown> {
+  const update: Record<string, unknown> = {};
+  for (const field of TEXT_FIELDS) {
+    const next = incoming[field];
+    if (!next || next === 'Unknown') continue;
+    const current = existing[field];
+    if (current && IDENTITY_FIELDS.includes(field)) continue;
+    if (!current || current === 'Unknown' || String(next).length > String(current).length) update[field] = next;
+  }
+  const email = (update.email ?? existing.email) as string | null;
+  if (update.email && normaliseEmail(update.email as string) !== normaliseEmail(existing.email)) {
+    update.email_status = null;
+    update.email_checked_at = null;
+    update.contactable = false;
+  }
+  if (incoming.email_status && normaliseEmail(incoming.email) === normaliseEmail(email)) {
+    update.email_status = incoming.email_status;
+    update.email_checked_at = incoming.email_checked_at ?? null;
+    update.contactable = incoming.contactable ?? false;
+  }
+  if (incoming.enrichment) update.enrichment = incoming.enrichment;
+  if (incoming.source && !existing.source) update.source = incoming.source;
+  // A stale embedding is dropped and made again by the next backfill
+  if (EMBEDDED_FIELDS.some((field) => field in update)) update.embedding = null;
+  if (hasScores(incoming)) {
+    for (const field of SCORE_FIELDS) {
+      if (typeof incoming[field] === 'number') update[field] = incoming[field];
+    }
+    update.score_history = [...(existing.score_history || []), scoreEntry(incoming, source)];
+  }
+  return update;
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/"/g, '\\"')}"`;
+}
+
+// Narrow the org’s candidates down to plausible matches before comparing
+function candidateFilter(fields: CandidateFields): string | null {
+  const clauses: string[] = [];
+  if (fields.email) clauses.push(`email.ilike.${quote(fields.email.trim())}`);
+  const linkedin = normaliseLinkedIn(fields.linkedin) || normaliseLinkedIn(fields.public_url);
+  if (linkedin) clauses.push(`linkedin.ilike.${quote(`%${linkedin.split('/').pop()}%`)}`);
+  const url = normaliseUrl(fields.public_url);
+  if (url) clauses.push(`public_url.ilike.${quote(`%${url}%`)}`);
+  const lastName = normaliseText(fields.name).split(' ').pop();
+  if (lastName && lastName !== 'unknown' && lastName.length > 1) clauses.push(`name.ilike.${quote(`%${lastName}%`)}`);
+  return clauses.length ? clauses.join(',') : null;
+}
+
+export async function findOrgMatches(supabase: SupabaseClient, orgId: string, fields: CandidateFields) {
+  const filter = candidateFilter(fields);
+  if (!filter) return [];
+  const { data, error } = await supabase
+    .from('candidates')
+    .select('*, roles!inner(org_id)')
+    .eq('roles.org_id', orgId)
+    .or(filter);
+  if (error) throw new Error(`candidates: ${error.message}`);
+  const matches: { candidate: any; via: MatchVia }[] = [];
+  for (const candidate of data || []) {
+    const via = matchIdentity(fields, candidate);
+    if (via) matches.push({ candidate, via });
+  }
+  return matches;
+}
+
+// Insert or merge a candidate for a role and flag the person’s other pipelines
+export async function resolveCandidate(
+  supabase: SupabaseClient,
+  roleId: string,
+  fields: CandidateFields,
+  source: string,
+): Promise<ResolveResult> {
+  const { data: role } = await supabase.from('roles').select('org_id, title').eq('id', roleId).maybeSingle();
+  if (!role) throw new Error(`Role ${roleId} not found`);
+  const matches = await findOrgMatches(supabase, role.org_id, fields);
+  const sameRole = matches.find((m) => m.candidate.role_id === roleId);
+  const otherRoles = [...new Set(matches.filter((m) => m.candidate.role_id !== roleId).map((m) => m.candidate.role_id as string))];
+
+  let candidate: any;
+  if (sameRole) {
+    const update = mergeFields(sameRole.candidate, fields, source);
+    update.also_in_roles = [...new Set([...(sameRole.candidate.also_in_roles || []), ...otherRoles])];
+    const { data, error } = await supabase.from('candidates').update(update).eq('id', sameRole.candidate.id).select().single();
+    if (error) throw new Error(`candidates: ${error.message}`);
+    candidate = data;
+  } else {
+    const insert = {
+      ...fields,
+      role_id: roleId,
+      status: fields.status || 'sourced',
+      also_in_roles: otherRoles,
+      score_history: hasScores(fields) ? [scoreEntry(fields, source)] : [],
+    };
+    const { data, error } = await supabase.from('candidates').insert(insert).select().single();
+    if (error) throw new Error(`candidates: ${error.message}`);
+    candidate = data;
+    await recordInitialStatus(supabase, candidate.id, candidate.status, { actor: `system:${source}` });
+    await emitEvent(supabase, role.org_id, 'candidate.sourced', { candidate: eventCandidate(candidate), role: { id: roleId, title: role.title || null } }, { key: candidate.id });
+  }
+  // Let the other pipelines know about this role as well
+  for (const m of matches.filter((m) => m.candidate.role_id !== roleId)) {
+    const flagged = m.candidate.also_in_roles || [];
+    if (!flagged.includes(roleId)) {
+      await supabase.from('candidates').update({ also_in_roles: [...flagged, roleId] }).eq('id', m.candidate.id);
+    }
+  }
+  return { candidate, merged: !!sameRole, via: sameRole?.via || null, also_in_roles: otherRoles };
+}
@@ -0,0 +1,195 @@
+// jobs.ts – durable job queue backed by the `jobs` table
+//
+// Work that must not be lost when a provider or the network fails (drafting,
+// enrichment, sending, webhook side effects) is enqueued here and run by
+// job_worker instead of being called directly.  Every job carries an
+// idempotency key, unique per kind, so enqueueing the same work twice (the
+// daemon ticking again, a provider retrying a webhook) returns the existing
+// job.  Claiming a job bumps its `attempts`, which doubles as a version
+// number: the claim, completion and failure updates only apply while
+// `attempts` is unchanged, so two workers never own the same attempt.  A
+// claimed job stays invisible until `locked_until`; a worker that dies
+// mid-job simply lets the lock expire.  Failures are retried with
+// exponential backoff and jitter until `max_attempts`, after which the job
+// is left `dead` until someone replays it (replay_jobs).
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'dead';
+
+export interface Job {
+  id: string;
+  org_id: string | null;
+  kind: string;
+  payload: Record<string, unknown>;
+  idempotency_key: string;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_until: string | null;
+  last_error: string | null;
+  result: unknown;
+  created_at: string;
+  finished_at: string | null;
+}
+
+export interface EnqueueOptions {
+  key: string;
+  orgId?: string | null;
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+// Thrown by job handlers; non-retryable errors dead-letter the job at once
+export class JobError extends Error {
+  retryable: boolean;
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.name = 'JobError';
+    this.retryable = retryable;
+  }
+}
+
+const BACKOFF_BASE_SECONDS = parseInt(Deno.env.get('JOB_BACKOFF_BASE_SECONDS') || '30', 10);
+const BACKOFF_MAX_SECONDS = parseInt(Deno.env.get('JOB_BACKOFF_MAX_SECONDS') || '3600', 10);
+const DEFAULT_MAX_ATTEMPTS = parseInt(Deno.env.get('JOB_MAX_ATTEMPTS') || '5', 10);
+
+function retryableStatus(status: number | undefined): boolean {
+  return status === undefined || status >= 500 || status === 408 || status === 429;
+}
+
+// Call a sibling edge function; 4xx answers other than 408 and 429 will not
+// get better by retrying and raise a non-retryable JobError
+export async function invokeFunction(supabase: SupabaseClient, name: string, payload: Record<string, unknown>): Promise<unknown> {
+  const { data, error } = await supabase.functions.invoke(name, { body: payload });
+  if (error) {
+    // Non-2xx answers carry the response; its body holds the function's error
+    const resp: Response | undefined = (error as any).context instanceof Response ? (error as any).context : undefined;
+    let message = error.message;
+    try {
+      const body = resp ? await resp.json() : null;
+      if (body?.error?.message) message = body.error.message;
+    } catch (_e) {
+      // Keep the transport message
+    }
+    throw new JobError(`${name}: ${resp ? `${resp.status} ` : ''}${message}`, retryableStatus(resp?.status));
+  }
+  if (data?.error) throw new JobError(`${name}: ${data.error.message}`, true);
+  return data;
+}
+
+// Delay before attempt `attempts + 1`: base · 2^(attempts-1), capped, ±20% jitter
+export function backoffSeconds(attempts: number): number {
+  const delay = Math.min(BACKOFF_BASE_SECONDS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_SECONDS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+export async function enqueueJob(
+  supabase: SupabaseClient,
+  kind: string,
+  payload: Record<string, unknown>,
+  opts: EnqueueOptions,
+): Promise<{ job: Job; created: boolean }> {
+  const row = {
+    kind,
+    payload,
+    idempotency_key: opts.key,
+    org_id: opts.orgId || null,
+    run_at: (opts.runAt || new Date()).toISOString(),
+    max_attempts: opts.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+  };
+  const { data, error } = await supabase
+    .from('jobs')
+    .upsert(row, { onConflict: 'kind,idempotency_key', ignoreDuplicates: true })
+    .select('*');
+  if (error) throw new Error(`jobs: ${error.message}`);
+  if (data && data.length) return { job: data[0] as Job, created: true };
+  const { data: existing, error: readError } = await supabase
+    .from('jobs')
+    .select('*')
+    .eq('kind', kind)
+    .eq('idempotency_key', opts.key)
+    .single();
+  if (readError) throw new Error(`jobs: ${readError.message}`);
+  return { job: existing as Job, created: false };
+}
+
+// Claim up to `limit` runnable jobs for `visibilitySeconds`, oldest first
+export async function claimJobs(supabase: SupabaseClient, limit: number, visibilitySeconds: number): Promise<Job[]> {
+  const now = new Date();
+  const { data: candidates, error } = await supabase
+    .from('jobs')
+    .select('*')
+    .or(`and(status.eq.queued,run_at.lte.${now.toISOString()}),and(status.eq.running,locked_until.lt.${now.toISOString()})`)
+    .order('run_at', { ascending: true })
+    .limit(limit);
+  if (error) throw new Error(`jobs: ${error.message}`);
+  const claimed: Job[] = [];
+  for (const job of (candidates || []) as Job[]) {
+    // A job whose last attempt timed out has used that attempt up
+    if (job.status === 'running' && job.attempts >= job.max_attempts) {
+      await settle(supabase, job, { status: 'dead', last_error: job.last_error || 'Visibility timeout exceeded', finished_at: now.toISOString() });
+      continue;
+    }
+    const { data: updated, error: claimError } = await supabase
+      .from('jobs')
+      .update({
+        status: 'running',
+        attempts: job.attempts + 1,
+        locked_until: new Date(now.getTime() + visibilitySeconds * 1000).toISOString(),
+      })
+      .eq('id', job.id)
+      .eq('attempts', job.attempts)
+      .select('*');
+    if (claimError) throw new Error(`jobs: ${claimError.message}`);
+    // Another worker got there first
+    if (updated && updated.length) claimed.push(updated[0] as Job);
+  }
+  return claimed;
+}
+
+// Update a claimed job unless another worker has claimed it since
+async function settle(supabase: SupabaseClient, job: Job, update: Record<string, unknown>): Promise<boolean> {
+  const { data, error } = await supabase.from('jobs').update(update).eq('id', job.id).eq('attempts', job.attempts).select('id');
+  if (error) throw new Error(`jobs: ${error.message}`);
+  return !!data && data.length > 0;
+}
+
+export async function completeJob(supabase: SupabaseClient, job: Job, result: unknown): Promise<boolean> {
+  return await settle(supabase, job, {
+    status: 'succeeded',
+    result: result ?? null,
+    last_error: null,
+    locked_until: null,
+    finished_at: new Date().toISOString(),
+  });
+}
+
+// Requeue with backoff, or dead-letter once the attempts are used up
+export async function failJob(supabase: SupabaseClient, job: Job, err: Error): Promise<JobStatus> {
+  const retryable = !(err instanceof JobError) || err.retryable;
+  if (!retryable || job.attempts >= job.max_attempts) {
+    await settle(supabase, job, { status: 'dead', last_error: err.message, locked_until: null, finished_at: new Date().toISOString() });
+    return 'dead';
+  }
+  await settle(supabase, job, {
+    status: 'queued',
+    last_error: err.message,
+    locked_until: null,
+    run_at: new Date(Date.now() + backoffSeconds(job.attempts) * 1000).toISOString(),
+  });
+  return 'queued';
+}
+
+// Give a dead job a fresh set of attempts
+export async function replayJob(supabase: SupabaseClient, jobId: string): Promise<Job | null> {
+  const { data, error } = await supabase
+    .from('jobs')
+    .update({ status: 'queued', attempts: 0, run_at: new Date().toISOString(), locked_until: null, finished_at: null })
+    .eq('id', jobId)
+    .eq('status', 'dead')
+    .select('*');
+  if (error) throw new Error(`jobs: ${error.message}`);
+  return data && data.length ? (data[0] as Job) : null;
+}
@@ -0,0 +1,288 @@
+// llm.ts – chat completion client shared by the LLM-backed edge functions
+//
+// Two wire formats are supported: OpenAI-compatible chat completions (OpenAI
+// itself, or a local llama.cpp / Ollama server through `LLM_BASE_URL`) and
+// Anthropic messages.  The provider, base URL and key come from the
+// environment only; the model, temperature, token limit and timeout can also
+// be set per function and per org through the `config` table:
+//
+//   key `llm`          → { model?, temperature?, max_tokens?, timeout_ms?, functions?: { <fn>: {...} } }
+//   key `llm:<org_id>` → same shape, applied on top
+//
+// Later layers win: the caller’s defaults, then env (`LLM_MODEL`,
+// `LLM_MODEL_<FN>`), then the global row, then the org row, each with its
+// per-function block applied after its top-level settings.  Requests time
+// out after `timeout_ms`, 429 and 5xx responses are retried with backoff
+// (honouring Retry-After), and every request’s token usage and estimated cost
+// is written to the usage ledger (_shared/usage.ts).  Each request takes a
+// token from the provider’s rate-limit bucket first; a client for an org whose
+// monthly LLM token quota is used up is created unavailable, so callers fall
+// back to their non-LLM path, and the skip is logged.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { acquireToken, checkQuota, quotaReason, RateLimitError, recordSkip, recordUsage } from './usage.ts';
+
+export type LLMProvider = 'openai' | 'anthropic';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatOptions {
+  max_tokens: number;
+  temperature: number;
+}
+
+// Settings that may be overridden from the config table
+export interface LLMSettings extends Partial<ChatOptions> {
+  model?: string;
+  timeout_ms?: number;
+}
+
+export interface LLMConfig extends ChatOptions {
+  provider: LLMProvider;
+  base_url: string;
+  model: string;
+  timeout_ms: number;
+}
+
+export interface ChatUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+export interface ChatResult {
+  content: string;
+  usage: ChatUsage;
+}
+
+export interface LLMClient {
+  fn: string;
+  org_id: string | null;
+  config: LLMConfig;
+  // False when the provider needs an API key and none is configured, or the
+  // org's token quota is used up (see `skipped`)
+  available: boolean;
+  skipped?: string;
+  chat(messages: ChatMessage[]): Promise<ChatResult>;
+}
+
+const provider: LLMProvider = Deno.env.get('LLM_PROVIDER') === 'anthropic' ? 'anthropic' : 'openai';
+const customBaseUrl = Deno.env.get('LLM_BASE_URL') || '';
+const apiKey = Deno.env.get('LLM_API_KEY') ||
+  (provider === 'anthropic' ? Deno.env.get('ANTHROPIC_API_KEY') : Deno.env.get('OPENAI_API_KEY')) || '';
+const defaultTimeoutMs = parseInt(Deno.env.get('LLM_TIMEOUT_MS') || '30000', 10);
+const maxRetries = parseInt(Deno.env.get('LLM_MAX_RETRIES') || '3', 10);
+
+const DEFAULT_BASE_URL: Record<LLMProvider, string> = {
+  openai: 'https://api.openai.com/v1',
+  anthropic: 'https://api.anthropic.com/v1',
+};
+
+const DEFAULT_MODEL: Record<LLMProvider, string> = {
+  openai: 'gpt-4o',
+  anthropic: 'claude-3-5-sonnet-latest',
+};
+
+const RETRYABLE = new Set([429, 500, 502, 503, 504, 529]);
+
+export class LLMHttpError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'LLMHttpError';
+    this.status = status;
+  }
+}
+
+// Only the settings we understand are taken from a config row, so a typo or
+// a stray key there cannot end up in the request body.
+function pickSettings(value: any): LLMSettings {
+  const out: LLMSettings = {};
+  if (!value || typeof value !== 'object') return out;
+  if (typeof value.model === 'string' && value.model) out.model = value.model;
+  for (const key of ['max_tokens', 'temperature', 'timeout_ms'] as const) {
+    const n = Number(value[key]);
+    if (value[key] !== undefined && value[key] !== null && Number.isFinite(n)) out[key] = n;
+  }
+  return out;
+}
+
+function envSettings(fn: string): LLMSettings {
+  const model = Deno.env.get(`LLM_MODEL_${fn.toUpperCase()}`) || Deno.env.get('LLM_MODEL');
+  return model ? { model } : {};
+}
+
+export async function resolveLLMConfig(
+  supabase: SupabaseClient,
+  fn: string,
+  orgId: string | null,
+  defaults: ChatOptions,
+): Promise<LLMConfig> {
+  const keys = orgId ? ['llm', `llm:${orgId}`] : ['llm'];
+  const { data: rows } = await supabase.from('config').select('key, value').in('key', keys);
+  const layers: LLMSettings[] = [envSettings(fn)];
+  for (const key of keys) {
+    const value = rows?.find((r: any) => r.key === key)?.value;
+    layers.push(pickSettings(value), pickSettings(value?.functions?.[fn]));
+  }
+  const config: LLMConfig = {
+    provider,
+    base_url: (customBaseUrl || DEFAULT_BASE_URL[provider]).replace(/\/+$/, ''),
+    model: DEFAULT_MODEL[provider],
+    timeout_ms: defaultTimeoutMs,
+    ...defaults,
+  };
+  return Object.assign(config, ...layers);
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function retryDelayMs(resp: Response, attempt: number): number {
+  const header = resp.headers.get('retry-after');
+  if (header) {
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const at = Date.parse(header);
+    if (!Number.isNaN(at)) return Math.max(0, at - Date.now());
+  }
+  return 2 ** attempt * 1000 + Math.floor(Math.random() * 250);
+}
+
+function buildRequest(config: LLMConfig, messages: ChatMessage[]): { url: string; init: RequestInit } {
+  if (config.provider === 'anthropic') {
+    // Anthropic takes the system prompt separately from the turns
+    const system = messages.filter((m) => m.role === 'system').map((m) => m.content).join('\n\n');
+    return {
+      url: `${config.base_url}/messages`,
+      init: {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' },
+        body: JSON.stringify({
+          model: config.model,
+          max_tokens: config.max_tokens,
+          temperature: config.temperature,
+          ...(system ? { system } : {}),
+          messages: messages.filter((m) => m.role !== 'system'),
+        }),
+      },
+    };
+  }
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  // Local servers usually run without a key
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+  return {
+    url: `${config.base_url}/chat/completions`,
+    init: {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model: config.model, messages, max_tokens: config.max_tokens, temperature: config.temperature }),
+    },
+  };
+}
+
+function readResult(config: LLMConfig, data: any): ChatResult {
+  if (config.provider === 'anthropic') {
+    const content = (data.content || []).filter((c: any) => c.type === 'text').map((c: any) => c.text).join('');
+    return {
+      content: content.trim(),
+      usage: { prompt_tokens: data.usage?.input_tokens || 0, completion_tokens: data.usage?.output_tokens || 0 },
+    };
+  }
+  return {
+    content: data.choices?.[0]?.message?.content?.trim() || '',
+    usage: { prompt_tokens: data.usage?.prompt_tokens || 0, completion_tokens: data.usage?.completion_tokens || 0 },
+  };
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (err) {
+    if ((err as Error).name === 'AbortError') throw new LLMHttpError(`LLM request timed out after ${timeoutMs}ms`, 504);
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export async function chatCompletion(config: LLMConfig, messages: ChatMessage[]): Promise<ChatResult> {
+  const { url, init } = buildRequest(config, messages);
+  for (let attempt = 0;; attempt++) {
+    const resp = await fetchWithTimeout(url, init, config.timeout_ms);
+    if (resp.ok) return readResult(config, await resp.json());
+    if (!RETRYABLE.has(resp.status) || attempt >= maxRetries) {
+      throw new LLMHttpError(`${config.provider} API error: ${resp.status}`, resp.status);
+    }
+    await resp.body?.cancel();
+    await new Promise((resolve) => setTimeout(resolve, retryDelayMs(resp, attempt)));
+  }
+}
+
+async function recordLLMUsage(
+  supabase: SupabaseClient,
+  client: { fn: string; org_id: string | null; config: LLMConfig },
+  usage: ChatUsage,
+  latencyMs: number,
+  status: string,
+) {
+  await recordUsage(supabase, {
+    org_id: client.org_id,
+    metric: 'llm_tokens',
+    provider: client.config.provider,
+    fn: client.fn,
+    quantity: usage.prompt_tokens + usage.completion_tokens,
+    status,
+    latency_ms: latencyMs,
+    meta: { model: client.config.model, prompt_tokens: usage.prompt_tokens, completion_tokens: usage.completion_tokens },
+  });
+}
+
+// Resolve the configuration for one function (and org) and return a client
+// that records the usage of every request it makes.
+export async function llmClient(
+  supabase: SupabaseClient,
+  fn: string,
+  orgId: string | null,
+  defaults: ChatOptions,
+): Promise<LLMClient> {
+  const config = await resolveLLMConfig(supabase, fn, orgId, defaults);
+  const configured = !!apiKey || (config.provider === 'openai' && !!customBaseUrl);
+  let skipped: string | undefined;
+  if (configured) {
+    const quota = await checkQuota(supabase, orgId, 'llm_tokens');
+    if (!quota.allowed) {
+      skipped = quotaReason(quota);
+      await recordSkip(supabase, { org_id: orgId, metric: 'llm_tokens', provider: config.provider, fn }, skipped);
+    }
+  }
+  const client: LLMClient = {
+    fn,
+    org_id: orgId,
+    config,
+    available: configured && !skipped,
+    skipped,
+    async chat(messages: ChatMessage[]): Promise<ChatResult> {
+      try {
+        await acquireToken(supabase, config.provider);
+      } catch (err) {
+        if (err instanceof RateLimitError) throw new LLMHttpError(err.message, 429);
+        throw err;
+      }
+      const started = Date.now();
+      try {
+        const result = await chatCompletion(config, messages);
+        await recordLLMUsage(supabase, client, result.usage, Date.now() - started, 'ok');
+        return result;
+      } catch (err) {
+        const status = err instanceof LLMHttpError ? String(err.status) : 'error';
+        await recordLLMUsage(supabase, client, { prompt_tokens: 0, completion_tokens: 0 }, Date.now() - started, status);
+        throw err;
+      }
+    },
+  };
+  return client;
+}
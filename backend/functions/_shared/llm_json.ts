@@ -0,0 +1,101 @@
+// llm_json.ts – validated JSON calls to the LLM
+//
+// `callLLMJson` sends the prompt, strips code fences or chatter around the
+// JSON, parses it and validates it against a Zod schema.  When parsing or
+// validation fails, the model is shown its previous answer together with the
+// failing fields and asked to repair it, up to `maxRepairs` times.  If the
+// answer is still invalid an `LLMValidationError` lists the fields that
+// failed so the caller can report them.
+
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { ChatMessage, LLMClient, LLMHttpError } from './llm.ts';
+
+export interface FieldIssue {
+  path: string;
+  message: string;
+}
+
+export interface LLMJsonResult<T> {
+  data: T;
+  attempts: number;
+  // Fields that failed on an earlier attempt and were fixed by a repair
+  repaired: string[];
+}
+
+export class LLMValidationError extends Error {
+  issues: FieldIssue[];
+  attempts: number;
+
+  constructor(message: string, issues: FieldIssue[], attempts: number) {
+    super(message);
+    this.name = 'LLMValidationError';
+    this.issues = issues;
+    this.attempts = attempts;
+  }
+}
+
+const DEFAULT_MAX_REPAIRS = parseInt(Deno.env.get('LLM_MAX_REPAIRS') || '2', 10);
+
+// Pull the JSON document out of a reply that may wrap it in ```json fences
+// or surround it with prose.
+export function extractJson(content: string): string {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const body = (fenced ? fenced[1] : content).trim();
+  const start = body.search(/[{[]/);
+  if (start === -1) return body;
+  const end = Math.max(body.lastIndexOf('}'), body.lastIndexOf(']'));
+  return end > start ? body.slice(start, end + 1) : body.slice(start);
+}
+
+function parseWith<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, content: string): { data?: T; issues: FieldIssue[] } {
+  let json: unknown;
+  try {
+    json = JSON.parse(extractJson(content));
+  } catch (err) {
+    return { issues: [{ path: '$', message: `Not valid JSON: ${(err as Error).message}` }] };
+  }
+  const parsed = schema.safeParse(json);
+  if (parsed.success) return { data: parsed.data, issues: [] };
+  return {
+    issues: parsed.error.issues.map((i) => ({ path: i.path.length ? i.path.join('.') : '$', message: i.message })),
+  };
+}
+
+function repairPrompt(issues: FieldIssue[]): string {
+  const list = issues.map((i) => `- ${i.path}: ${i.message}`).join('\n');
+  return `Your previous answer did not match the required format:\n${list}\n\nReturn the corrected answer as a single JSON object only, with no code fences or commentary.`;
+}
+
+export async function callLLMJson<T>(opts: {
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  messages: ChatMessage[];
+  llm: LLMClient;
+  maxRepairs?: number;
+}): Promise<LLMJsonResult<T>> {
+  const maxRepairs = opts.maxRepairs ?? DEFAULT_MAX_REPAIRS;
+  const messages = [...opts.messages];
+  const repaired = new Set<string>();
+  let issues: FieldIssue[] = [];
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    const { content } = await opts.llm.chat(messages);
+    const result = parseWith(opts.schema, content);
+    if (result.data !== undefined) {
+      return { data: result.data, attempts: attempt, repaired: [...repaired] };
+    }
+    issues = result.issues;
+    issues.forEach((i) => repaired.add(i.path));
+    messages.push({ role: 'assistant', content }, { role: 'user', content: repairPrompt(issues) });
+  }
+  throw new LLMValidationError(`LLM response failed validation after ${maxRepairs + 1} attempts`, issues, maxRepairs + 1);
+}
+
+// Standard error body for functions that surface LLM validation failures
+export function llmErrorResponse(err: unknown): Response {
+  if (err instanceof LLMValidationError) {
+    return new Response(JSON.stringify({ error: { message: err.message, fields: err.issues, attempts: err.attempts } }), { status: 502 });
+  }
+  if (err instanceof LLMHttpError) {
+    return new Response(JSON.stringify({ error: { message: err.message } }), { status: err.status === 504 ? 504 : 502 });
+  }
+  return new Response(JSON.stringify({ error: { message: (err as Error).message } }), { status: 500 });
+}
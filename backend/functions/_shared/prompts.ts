@@ -0,0 +1,169 @@
+// prompts.ts – versioned prompt templates with org overrides and A/B variants
+//
+// The LLM-backed functions load their prompts here instead of carrying them
+// inline.  Every prompt has a built-in default (version 1, variant 'a'); rows
+// in the `prompts` table replace it.  Active rows without an org apply to
+// every org, and an org’s own active rows for a prompt replace those.  Within
+// the chosen rows the highest version of each variant counts, so editing a
+// variant means adding a new version of it.
+//
+// Several variants of one prompt form an A/B test.  `loadPrompt` assigns one
+// by hashing a subject id (the candidate for outreach) in proportion to the
+// variants' weights, so a candidate keeps the same wording through every step
+// of a sequence.  The prompt’s `ref` (e.g. 'outreach_body@2b') is stored with
+// what it produced, and prompt_stats relates the refs to replies and
+// interviews.
+//
+// Templates use {{placeholders}}; values are inserted once and not scanned
+// again, so a JD containing braces cannot inject further placeholders.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { ChatMessage } from './llm.ts';
+
+export type PromptName = 'parse_jd' | 'screen_resume' | 'outreach_body' | 'outreach_subject' | 'classify_reply';
+
+export const PROMPT_NAMES: PromptName[] = ['parse_jd', 'screen_resume', 'outreach_body', 'outreach_subject', 'classify_reply'];
+
+// Prompts whose variants are compared in prompt_stats
+export const OUTREACH_PROMPTS: PromptName[] = ['outreach_subject', 'outreach_body'];
+
+export interface PromptTemplate {
+  // null for the built-in defaults
+  id: string | null;
+  name: PromptName;
+  version: number;
+  variant: string;
+  system: string | null;
+  template: string;
+  weight: number;
+}
+
+export interface LoadedPrompt extends PromptTemplate {
+  ref: string;
+}
+
+export const DEFAULT_PROMPTS: Record<PromptName, PromptTemplate> = {
+  parse_jd: {
+    id: null,
+    name: 'parse_jd',
+    version: 1,
+    variant: 'a',
+    system: 'You are a helpful assistant that outputs strict JSON.',
+    template: 'You are HireLoop Agent, an expert technical recruiter. Given a JD, output strict JSON with: title, location, level, required_skills[], nice_to_have[], responsibilities[], keywords[] (search operators), ideal_candidate_summary (2–3 sentences). Output ONLY JSON.\n\n{{jd}}',
+    weight: 1,
+  },
+  screen_resume: {
+    id: null,
+    name: 'screen_resume',
+    version: 1,
+    variant: 'a',
+    system: 'You are HireLoop screening agent.',
+    template: 'You evaluate a candidate for a specific JD. Return ONLY JSON with: one_liner, culture_score (1–5), technical_score (1–5), experience_score (1–5), fit_score (0–100), top_reasons[] (3 bullets), interview_focus[] (3 bullets).\n\nJD:\n{{jd}}\n\nCandidate profile (parsed from resume):\n{{profile}}',
+    weight: 1,
+  },
+  outreach_body: {
+    id: null,
+    name: 'outreach_body',
+    version: 1,
+    variant: 'a',
+    system: 'You are HireLoop outreach agent.',
+    template: 'You write concise, human outreach for passive candidates. Using the JD and candidate profile, craft subject + 120–160 word email with a single clear CTA link (Calendly). Tone: {{tone}}, specific, respectful.{{follow_up}} {{subject_guidance}} Output ONLY JSON with subject, body.\n\nJD: {{jd}}\n\nCandidate: {{candidate}}',
+    weight: 1,
+  },
+  outreach_subject: {
+    id: null,
+    name: 'outreach_subject',
+    version: 1,
+    variant: 'a',
+    system: null,
+    template: 'The subject line is under 8 words and names something specific about the role or the candidate’s work.',
+    weight: 1,
+  },
+  classify_reply: {
+    id: null,
+    name: 'classify_reply',
+    version: 1,
+    variant: 'a',
+    system: 'You are a helpful assistant that outputs strict JSON.',
+    template: "Classify a candidate's reply to recruiting outreach. Return ONLY JSON with: classification (one of interested, not_now, not_interested, referral, out_of_office, unsubscribe), confidence (0–1), summary (one sentence), referral_email (the address of anyone they refer us to, or null).\n\nSubject: {{subject}}\n\nReply:\n{{reply}}",
+    weight: 1,
+  },
+};
+
+export function promptRef(prompt: Pick<PromptTemplate, 'name' | 'version' | 'variant'>): string {
+  return `${prompt.name}@${prompt.version}${prompt.variant}`;
+}
+
+function loaded(prompt: PromptTemplate): LoadedPrompt {
+  return { ...prompt, ref: promptRef(prompt) };
+}
+
+// FNV-1a, scaled to 0..1: stable across instances and cheap
+function bucket(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+// The latest version of every variant, in variant order
+function latestVariants(rows: PromptTemplate[]): PromptTemplate[] {
+  const latest = new Map<string, PromptTemplate>();
+  for (const row of rows) {
+    const current = latest.get(row.variant);
+    if (!current || row.version > current.version) latest.set(row.variant, row);
+  }
+  return [...latest.values()].sort((a, b) => a.variant.localeCompare(b.variant));
+}
+
+export function assignVariant(variants: PromptTemplate[], subjectId?: string | null): PromptTemplate {
+  // Variants weighted 0 are paused, unless that leaves nothing
+  const weighted = variants.filter((v) => v.weight > 0);
+  const pool = weighted.length ? weighted : variants.map((v) => ({ ...v, weight: 1 }));
+  if (pool.length === 1) return pool[0];
+  const total = pool.reduce((sum, v) => sum + v.weight, 0);
+  let point = (subjectId ? bucket(`${pool[0].name}:${subjectId}`) : Math.random()) * total;
+  for (const variant of pool) {
+    point -= variant.weight;
+    if (point < 0) return variant;
+  }
+  return pool[pool.length - 1];
+}
+
+export async function promptVariants(supabase: SupabaseClient, name: PromptName, orgId: string | null): Promise<PromptTemplate[]> {
+  let query = supabase
+    .from('prompts')
+    .select('id, org_id, name, version, variant, system, template, weight')
+    .eq('name', name)
+    .eq('active', true);
+  query = orgId ? query.or(`org_id.is.null,org_id.eq.${orgId}`) : query.is('org_id', null);
+  const { data: rows, error } = await query;
+  if (error) throw new Error(`prompts: ${error.message}`);
+  const own = (rows || []).filter((r: any) => orgId && r.org_id === orgId);
+  const shared = (rows || []).filter((r: any) => !r.org_id);
+  const chosen = (own.length ? own : shared).map((r: any) => ({ ...r, weight: Number(r.weight ?? 1) }) as PromptTemplate);
+  return chosen.length ? latestVariants(chosen) : [DEFAULT_PROMPTS[name]];
+}
+
+// The prompt to use for `name`, with an A/B variant picked for `subjectId`
+export async function loadPrompt(
+  supabase: SupabaseClient,
+  name: PromptName,
+  orgId: string | null,
+  subjectId?: string | null,
+): Promise<LoadedPrompt> {
+  return loaded(assignVariant(await promptVariants(supabase, name, orgId), subjectId));
+}
+
+export function renderPrompt(template: string, vars: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_m, key) => vars[key] ?? '');
+}
+
+export function promptMessages(prompt: PromptTemplate, vars: Record<string, string>): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  if (prompt.system) messages.push({ role: 'system', content: renderPrompt(prompt.system, vars) });
+  messages.push({ role: 'user', content: renderPrompt(prompt.template, vars) });
+  return messages;
+}
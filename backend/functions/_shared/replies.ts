@@ -0,0 +1,131 @@
+// replies.ts – extracting and classifying candidate replies
+//
+// `extractReply` cuts the quoted thread, signature and mobile footers off an
+// inbound email so only what the candidate actually wrote is classified.
+// `classifyReply` asks the configured LLM, with the `classify_reply` prompt
+// from the registry (_shared/prompts.ts), for one of the ReplyClass labels
+// with a confidence between 0 and 1, validated against
+// `ReplyClassificationSchema`; without an LLM, or when the call fails, the
+// keyword rules in `classifyByRules` decide instead.  The rules are checked
+// most specific first so that "not interested" never reads as "interested",
+// and a bare "interested" is too weak a sign to act on by itself.
+
+import { LLMClient } from './llm.ts';
+import { callLLMJson } from './llm_json.ts';
+import { DEFAULT_PROMPTS, promptMessages, PromptTemplate } from './prompts.ts';
+import { ReplyClassificationSchema } from './schemas.ts';
+import { ReplyClass, ReplyClassification } from './types.ts';
+
+export type ClassifiedReply = ReplyClassification & { method: 'llm' | 'rules' };
+
+// Lines that start the quoted original message
+const QUOTE_HEADERS = [
+  /^-{2,}\s*Original Message\s*-{2,}/i,
+  /^_{10,}\s*$/,
+  /^From:\s.+/i,
+  /^Le .+a écrit\s*:\s*$/i,
+  /^Am .+schrieb .+:\s*$/i,
+];
+
+const FOOTERS = [/^--\s*$/, /^Sent from my /i, /^Get Outlook for /i, /^Sent from Mail for /i];
+
+function startsQuote(lines: string[], i: number): boolean {
+  const line = lines[i].trim();
+  if (line.startsWith('>') || QUOTE_HEADERS.some((re) => re.test(line))) return true;
+  // "On Mon, 3 Jun 2024 at 10:00, Jane <jane@x.io> wrote:" is often wrapped
+  return /^On\s/i.test(line) && lines.slice(i, i + 3).some((l) => /wrote:\s*$/i.test(l.trim()));
+}
+
+export function extractReply(text: string): string {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const kept: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    if (startsQuote(lines, i) || FOOTERS.some((re) => re.test(lines[i].trim()))) break;
+    kept.push(lines[i]);
+  }
+  return kept.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+const EMAIL_RE = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+
+const RULES: { classification: ReplyClass; confidence: number; patterns: RegExp[] }[] = [
+  {
+    classification: 'unsubscribe',
+    confidence: 0.9,
+    patterns: [/\bunsubscribe\b/i, /\bremove me\b/i, /\bstop (?:emailing|contacting|messaging)\b/i, /\bdo not (?:contact|email)\b/i, /\btake me off\b/i],
+  },
+  {
+    classification: 'out_of_office',
+    confidence: 0.9,
+    patterns: [/\bout of (?:the )?office\b/i, /\bautomatic reply\b/i, /\bauto-?reply\b/i, /\bon (?:annual |parental |maternity |paternity )?leave\b/i, /\blimited access to (?:my )?e-?mail\b/i, /\bI(?:'| a)m (?:currently )?away\b/i],
+  },
+  {
+    classification: 'not_now',
+    confidence: 0.75,
+    patterns: [/\bnot (?:right )?now\b/i, /\bmaybe later\b/i, /\b(?:in|after) (?:a few|a couple of|\d+) (?:weeks|months)\b/i, /\bnext (?:year|quarter)\b/i, /\btiming (?:isn'?t|is not) right\b/i, /\bnot at (?:the|this) moment\b/i, /\b(?:check|reach out) (?:back|again)\b/i],
+  },
+  {
+    classification: 'not_interested',
+    confidence: 0.8,
+    patterns: [
+      // Negated interest: "not really", "no longer", "wouldn't be" interested
+      /\b(?:not|no longer|never)\b[^.!?,;]{0,20}\binterested\b/i,
+      /n[’']t\b[^.!?,;]{0,20}\binterested\b/i,
+      /\bno,? thanks?\b/i, /\bnot (?:currently )?looking\b/i, /\bhappy (?:where I am|in my current)\b/i, /\bpass on this\b/i, /\bno longer looking\b/i, /\bnot a (?:good )?fit for me\b/i,
+    ],
+  },
+  {
+    classification: 'referral',
+    confidence: 0.7,
+    patterns: [/\b(?:reach out to|contact|talk to|speak to|try) (?:my )?(?:colleague|friend|former colleague)\b/i, /\bmight be interested\b/i, /\bI(?:'d| would) (?:recommend|suggest)\b/i, /\brefer(?:ring)?\b/i],
+  },
+  {
+    classification: 'interested',
+    confidence: 0.65,
+    patterns: [/\bI(?:[’']m| am|[’']d| would)(?: be)?(?: (?:very|really|definitely|quite))? interested\b/i, /\bsounds (?:good|great|interesting)\b/i, /\bhappy to (?:chat|talk|connect)\b/i, /\blet'?s (?:talk|chat|connect)\b/i, /\bI(?:'d| would) love to\b/i, /\bkeen\b/i, /\b(?:book|schedule) a (?:call|time|chat)\b/i, /\btell me more\b/i],
+  },
+  {
+    classification: 'interested',
+    confidence: 0.5,
+    patterns: [/\binterested\b/i],
+  },
+];
+
+export function classifyByRules(reply: string, subject = '', sender: string | null = null): ReplyClassification {
+  for (const rule of RULES) {
+    // Our own subject line is quoted back, so it only counts for auto-replies
+    const text = rule.classification === 'out_of_office' ? `${subject}\n${reply}` : reply;
+    if (!rule.patterns.some((re) => re.test(text))) continue;
+    const others = (reply.match(EMAIL_RE) || []).filter((e) => e.toLowerCase() !== sender?.toLowerCase());
+    // A referral without anyone to contact is just a polite no
+    if (rule.classification === 'referral' && others.length === 0 && !/might be interested/i.test(reply)) continue;
+    return {
+      classification: rule.classification,
+      confidence: rule.confidence,
+      summary: reply.split('\n')[0].slice(0, 200),
+      referral_email: rule.classification === 'referral' ? others[0] || null : null,
+    };
+  }
+  // Nothing matched: a human answered, but what they want is unclear
+  return { classification: 'interested', confidence: 0.3, summary: reply.split('\n')[0].slice(0, 200), referral_email: null };
+}
+
+export async function classifyReply(
+  llm: LLMClient | null,
+  reply: string,
+  opts: { subject?: string; sender?: string | null; prompt?: PromptTemplate } = {},
+): Promise<ClassifiedReply> {
+  if (llm?.available && reply) {
+    try {
+      const { data } = await callLLMJson({
+        schema: ReplyClassificationSchema,
+        messages: promptMessages(opts.prompt || DEFAULT_PROMPTS.classify_reply, { subject: opts.subject || '', reply: reply.slice(0, 4000) }),
+        llm,
+      });
+      return { ...data, method: 'llm' };
+    } catch (_e) {
+      // The rules below still give the reply a label
+    }
+  }
+  return { ...classifyByRules(reply, opts.subject, opts.sender), method: 'rules' };
+}
@@ -0,0 +1,56 @@
+import { assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts';
+import { classifyByRules, extractReply } from './replies.ts';
+
+Deno.test('extractReply cuts the quoted thread after a wrapped "On … wrote:" line', () => {
+  const text = [
+    'Thanks, happy to chat next week.',
+    '',
+    'On Mon, 3 Jun 2024 at 10:00, Jane Recruiter',
+    '<jane@hireloop.io> wrote:',
+    '> Hi Sam, are you open to a new role?',
+  ].join('\r\n');
+  assertEquals(extractReply(text), 'Thanks, happy to chat next week.');
+});
+
+Deno.test('extractReply cuts Outlook headers, signatures and mobile footers', () => {
+  assertEquals(extractReply('Not for me.\n\n-----Original Message-----\nFrom: Jane'), 'Not for me.');
+  assertEquals(extractReply('Sounds good\n--\nSam Lee\nStaff Engineer'), 'Sounds good');
+  assertEquals(extractReply('Tell me more\n\n\n\nSent from my iPhone'), 'Tell me more');
+  assertEquals(extractReply('Merci\nLe lun. 3 juin 2024, Jane a écrit :\n> Bonjour'), 'Merci');
+});
+
+Deno.test('extractReply keeps a reply with no quote', () => {
+  assertEquals(extractReply('Line one\n\n\n\nLine two'), 'Line one\n\nLine two');
+});
+
+Deno.test('classifyByRules reads negated interest as not_interested', () => {
+  for (const reply of ['Not interested, thanks', 'I am not really interested', "I'm no longer interested", 'I wouldn’t be interested']) {
+    assertEquals(classifyByRules(reply).classification, 'not_interested', reply);
+  }
+});
+
+Deno.test('classifyByRules needs more than a bare "interested" to act', () => {
+  const strong = classifyByRules("I'd be very interested, let's chat");
+  assertEquals([strong.classification, strong.confidence], ['interested', 0.65]);
+  const bare = classifyByRules('interested?');
+  assertEquals([bare.classification, bare.confidence], ['interested', 0.5]);
+  const unclear = classifyByRules('Who is this?');
+  assertEquals([unclear.classification, unclear.confidence], ['interested', 0.3]);
+});
+
+Deno.test('classifyByRules puts unsubscribe and not-now before interest', () => {
+  assertEquals(classifyByRules('Interested in general, but please unsubscribe me').classification, 'unsubscribe');
+  assertEquals(classifyByRules('Sounds interesting but not right now').classification, 'not_now');
+});
+
+Deno.test('classifyByRules only reads the subject for auto-replies', () => {
+  assertEquals(classifyByRules('Back on Monday.', 'Automatic reply: Senior Backend Engineer').classification, 'out_of_office');
+  assertEquals(classifyByRules('Sounds good', 'Not interested in a new role?').classification, 'interested');
+});
+
+Deno.test('classifyByRules keeps a referral only when someone else is named', () => {
+  const referral = classifyByRules('Not me, but talk to my colleague priya@example.com', '', 'sam@example.com');
+  assertEquals([referral.classification, referral.referral_email], ['referral', 'priya@example.com']);
+  const own = classifyByRules('Try my colleague at sam@example.com', '', 'sam@example.com');
+  assertEquals([own.classification, own.confidence], ['interested', 0.3]);
+});
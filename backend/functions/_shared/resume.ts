@@ -0,0 +1,208 @@
+// resume.ts – resume text extraction and structured profile parsing
+//
+// `extractText` turns an uploaded PDF or DOCX into plain text (PDFs through
+// unpdf, DOCX by reading word/document.xml out of the zip).  `parseProfile`
+// then pulls contact details, the current position, location, work history,
+// skills and education out of that text with layout heuristics that hold up
+// for the common one- and two-column resume formats.
+
+import { extractText as extractPdfText, getDocumentProxy } from 'https://esm.sh/unpdf@0.11.0';
+import { strFromU8, unzipSync } from 'https://esm.sh/fflate@0.8.2';
+
+export interface WorkHistoryEntry {
+  title: string;
+  company: string;
+  start: string | null;
+  end: string | null;
+}
+
+export interface ResumeProfile {
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  linkedin: string | null;
+  public_url: string | null;
+  current_title: string | null;
+  current_company: string | null;
+  location: string | null;
+  work_history: WorkHistoryEntry[];
+  skills: string[];
+  education: string[];
+}
+
+export type ResumeFormat = 'pdf' | 'docx' | 'txt';
+
+export function detectFormat(path: string, contentType?: string): ResumeFormat | null {
+  const ext = path.toLowerCase().split('.').pop();
+  if (ext === 'pdf' || contentType === 'application/pdf') return 'pdf';
+  if (ext === 'docx' || contentType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') return 'docx';
+  if (ext === 'txt' || contentType?.startsWith('text/')) return 'txt';
+  return null;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_m, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+function extractDocxText(bytes: Uint8Array): string {
+  const files = unzipSync(bytes, { filter: (file) => file.name === 'word/document.xml' });
+  const xml = files['word/document.xml'];
+  if (!xml) throw new Error('DOCX file has no word/document.xml');
+  return decodeEntities(
+    strFromU8(xml)
+      .replace(/<w:tab\/>/g, '\t')
+      .replace(/<w:br\/>|<\/w:p>/g, '\n')
+      .replace(/<[^>]+>/g, ''),
+  );
+}
+
+export async function extractText(bytes: Uint8Array, format: ResumeFormat): Promise<string> {
+  switch (format) {
+    case 'pdf': {
+      const pdf = await getDocumentProxy(bytes);
+      const { text } = await extractPdfText(pdf, { mergePages: true });
+      return text as string;
+    }
+    case 'docx':
+      return extractDocxText(bytes);
+    default:
+      return new TextDecoder().decode(bytes);
+  }
+}
+
+const SECTION_HEADINGS: Record<string, RegExp> = {
+  summary: /^(summary|profile|about me|professional summary|objective)$/i,
+  experience: /^(experience|work experience|professional experience|employment|employment history|work history|career history)$/i,
+  skills: /^(skills|technical skills|core skills|technologies|tech stack|competencies|key skills)$/i,
+  education: /^(education|academic background|qualifications)$/i,
+  other: /^(projects|certifications|awards|publications|languages|interests|volunteering|references)$/i,
+};
+
+const EMAIL_RE = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/i;
+const PHONE_RE = /(?:\+?\d{1,3}[\s.-]?)?\(?\d{2,4}\)?[\s.-]?\d{3,4}[\s.-]?\d{3,4}/;
+const LINKEDIN_RE = /(?:https?:\/\/)?(?:[a-z]{2,3}\.)?linkedin\.com\/in\/[A-Za-z0-9_%-]+\/?/i;
+// Links in the contact block: any URL with a scheme, or a profile on a known
+// code or portfolio host
+const SCHEME_URL_RE = /https?:\/\/[^\s|,;]+/i;
+const PROFILE_URL_RE = /(?:www\.)?(?:(?:github\.com|gitlab\.com|bitbucket\.org)\/[A-Za-z0-9_.-]+|[a-z0-9-]+\.github\.io)(?:\/[^\s|,;]*)?/i;
+// A bare personal domain, only when it stands on its own in the contact block
+const DOMAIN_RE = /^(?:www\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:dev|io|me|com|net|org|co|app|page|site|xyz)(?:\/\S*)?$/i;
+const LOCATION_RE = /^[A-Z][A-Za-z .'-]+,\s*(?:[A-Z]{2}|[A-Z][A-Za-z .]+)$/;
+const MONTH = '(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec)[a-z]*\\.?';
+const DATE_RANGE_RE = new RegExp(
+  `((?:${MONTH}\\s+)?\\d{4}|\\d{1,2}/\\d{4})\\s*(?:-|–|—|to)\\s*((?:${MONTH}\\s+)?\\d{4}|\\d{1,2}/\\d{4}|present|current|now)`,
+  'i',
+);
+const POSITION_RE = /^(.+?)\s+(?:at|@|–|—|-|\|)\s+(.+)$/;
+
+function sectionOf(line: string): string | null {
+  const heading = line.replace(/[:\s]+$/, '').trim();
+  if (heading.length > 40) return null;
+  for (const [section, re] of Object.entries(SECTION_HEADINGS)) {
+    if (re.test(heading)) return section;
+  }
+  return null;
+}
+
+function looksLikeName(line: string): boolean {
+  const words = line.split(/\s+/);
+  return words.length >= 2 && words.length <= 4 && words.every((w) => /^[A-Z][A-Za-z'’.-]*$/.test(w) || /^[A-Z]+$/.test(w));
+}
+
+function cleanUrl(url: string): string {
+  return /^https?:\/\//i.test(url) ? url : `https://${url}`;
+}
+
+function parsePosition(line: string): WorkHistoryEntry | null {
+  const range = line.match(DATE_RANGE_RE);
+  const withoutDates = line.replace(DATE_RANGE_RE, '').replace(/[(),|•·]+\s*$/, '').replace(/\(\s*\)/, '').trim();
+  const match = withoutDates.match(POSITION_RE) || withoutDates.match(/^(.+?),\s+(.+)$/);
+  if (!match) return null;
+  const title = match[1].trim();
+  const company = match[2].replace(/[,|•·-]+\s*$/, '').trim();
+  if (!title || !company || title.length > 80 || company.length > 80) return null;
+  return { title, company, start: range?.[1] || null, end: range?.[2] || null };
+}
+
+export function parseProfile(text: string): ResumeProfile {
+  const lines = text.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+  const profile: ResumeProfile = {
+    name: null,
+    email: text.match(EMAIL_RE)?.[0].toLowerCase() || null,
+    phone: null,
+    linkedin: null,
+    public_url: null,
+    current_title: null,
+    current_company: null,
+    location: null,
+    work_history: [],
+    skills: [],
+    education: [],
+  };
+  const linkedin = text.match(LINKEDIN_RE)?.[0];
+  if (linkedin) profile.linkedin = cleanUrl(linkedin.replace(/\/$/, ''));
+
+  // The header block (before the first section) carries name, contact details
+  // and location, often joined on one line with separators.
+  const sections: Record<string, string[]> = { header: [] };
+  let current = 'header';
+  for (const line of lines) {
+    const section = sectionOf(line);
+    if (section) {
+      current = section;
+      sections[current] = sections[current] || [];
+      continue;
+    }
+    sections[current].push(line);
+  }
+  const headerFragments = sections.header.slice(0, 10).flatMap((l) => l.split(/\s*[|•·]\s*/)).map((f) => f.trim()).filter(Boolean);
+  // Company names such as "Amazon.com" appear all over the body, so links are
+  // only taken from the header and never from a bare domain inside a sentence
+  for (const fragment of headerFragments) {
+    if (profile.public_url) break;
+    const rest = fragment.replace(LINKEDIN_RE, '').replace(EMAIL_RE, '').replace(/^[\s,;]+|[\s,;]+$/g, '');
+    const url = rest.match(SCHEME_URL_RE)?.[0] || rest.match(PROFILE_URL_RE)?.[0] || (DOMAIN_RE.test(rest) ? rest : null);
+    if (url) profile.public_url = cleanUrl(url.replace(/[.)]+$/, ''));
+  }
+  for (const fragment of headerFragments) {
+    if (!profile.name && looksLikeName(fragment) && !sectionOf(fragment)) profile.name = fragment;
+    else if (!profile.location && LOCATION_RE.test(fragment) && !EMAIL_RE.test(fragment)) profile.location = fragment;
+    else if (!profile.phone && !EMAIL_RE.test(fragment) && PHONE_RE.test(fragment)) profile.phone = fragment.match(PHONE_RE)![0].trim();
+  }
+
+  const experience = sections.experience || [];
+  for (let i = 0; i < experience.length; i++) {
+    const line = experience[i].replace(/^[-•·*]\s*/, '');
+    if (experience[i] !== line) continue; // bullet points describe the role, not the role itself
+    const entry = parsePosition(line);
+    if (!entry) continue;
+    // Dates frequently sit on their own line right below the position
+    if (!entry.start && experience[i + 1]) {
+      const range = experience[i + 1].match(DATE_RANGE_RE);
+      if (range) {
+        entry.start = range[1];
+        entry.end = range[2];
+      }
+    }
+    profile.work_history.push(entry);
+  }
+  const currentRole = profile.work_history.find((w) => /present|current|now/i.test(w.end || '')) || profile.work_history[0];
+  if (currentRole) {
+    profile.current_title = currentRole.title;
+    profile.current_company = currentRole.company;
+  }
+
+  const skills = (sections.skills || [])
+    .flatMap((l) => l.replace(/^[^:]{1,30}:\s*/, '').split(/[,;|•·]|\s{2,}/))
+    .map((s) => s.replace(/^[-*]\s*/, '').trim())
+    .filter((s) => s.length > 0 && s.length <= 40);
+  profile.skills = [...new Set(skills)];
+  profile.education = (sections.education || []).slice(0, 6);
+  return profile;
+}
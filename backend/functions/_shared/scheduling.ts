@@ -0,0 +1,162 @@
+// scheduling.ts – interview scheduling providers
+//
+// A SchedulingProvider hands out single-use booking links and reports open
+// slots.  The Calendly provider creates a one-off scheduling link for the
+// configured event type (CALENDLY_EVENT_TYPE) per candidate; the link carries
+// the interview id as `utm_content`, which Calendly echoes back in its
+// invitee webhooks so calendly_webhook can find the interview again.  The
+// fake provider needs no outside service: its links point at
+// FAKE_SCHEDULING_URL and it offers weekday business-hour slots, so the whole
+// flow (including webhooks signed with a local CALENDLY_WEBHOOK_SIGNING_KEY)
+// can be exercised offline.
+//
+// Interviews live in the `interviews` table: `pending` while the candidate has
+// a link but no booking, `scheduled` once a time is fixed and `canceled`.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+
+export interface Slot {
+  start: string;
+  end: string;
+}
+
+export interface SchedulingLink {
+  url: string;
+}
+
+export interface LinkRequest {
+  interview_id: string;
+  name?: string | null;
+  email?: string | null;
+}
+
+export interface SchedulingProvider {
+  name: 'calendly' | 'fake';
+  createLink(req: LinkRequest): Promise<SchedulingLink>;
+  availability(from: Date, to: Date): Promise<Slot[]>;
+}
+
+export const DURATION_MINUTES = parseInt(Deno.env.get('INTERVIEW_DURATION_MINUTES') || '30', 10);
+
+function withTracking(url: string, req: LinkRequest): string {
+  const u = new URL(url);
+  u.searchParams.set('utm_source', 'hireloop');
+  u.searchParams.set('utm_content', req.interview_id);
+  // Calendly prefills the booking form from these
+  if (req.name) u.searchParams.set('name', req.name);
+  if (req.email) u.searchParams.set('email', req.email);
+  return u.toString();
+}
+
+function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60_000);
+}
+
+export function calendlyProvider(token: string, eventType: string): SchedulingProvider {
+  const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+  return {
+    name: 'calendly',
+    async createLink(req) {
+      const resp = await fetch('https://api.calendly.com/scheduling_links', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ max_event_count: 1, owner: eventType, owner_type: 'EventType' }),
+      });
+      if (!resp.ok) throw new Error(`Calendly error ${resp.status}: ${await resp.text()}`);
+      const data = await resp.json();
+      return { url: withTracking(data.resource.booking_url, req) };
+    },
+    async availability(from, to) {
+      // Calendly only answers for future times and at most 7 days per request
+      const slots: Slot[] = [];
+      let start = new Date(Math.max(from.getTime(), Date.now() + 60_000));
+      while (start < to) {
+        const end = new Date(Math.min(to.getTime(), start.getTime() + 7 * 24 * 3600_000));
+        const url = new URL('https://api.calendly.com/event_type_available_times');
+        url.searchParams.set('event_type', eventType);
+        url.searchParams.set('start_time', start.toISOString());
+        url.searchParams.set('end_time', end.toISOString());
+        const resp = await fetch(url.toString(), { headers });
+        if (!resp.ok) throw new Error(`Calendly error ${resp.status}: ${await resp.text()}`);
+        const data = await resp.json();
+        for (const t of data.collection || []) {
+          if (t.status !== 'available') continue;
+          slots.push({ start: new Date(t.start_time).toISOString(), end: addMinutes(new Date(t.start_time), DURATION_MINUTES).toISOString() });
+        }
+        start = end;
+      }
+      return slots;
+    },
+  };
+}
+
+export function fakeSchedulingProvider(baseUrl = 'http://localhost:54321/fake-scheduler'): SchedulingProvider {
+  return {
+    name: 'fake',
+    async createLink(req) {
+      return { url: withTracking(`${baseUrl.replace(/\/+$/, '')}/book/${req.interview_id}`, req) };
+    },
+    async availability(from, to) {
+      const slots: Slot[] = [];
+      const cursor = new Date(from);
+      cursor.setUTCMinutes(Math.ceil(cursor.getUTCMinutes() / DURATION_MINUTES) * DURATION_MINUTES, 0, 0);
+      while (cursor < to && slots.length < 500) {
+        const day = cursor.getUTCDay();
+        const hour = cursor.getUTCHours();
+        const end = addMinutes(cursor, DURATION_MINUTES);
+        if (day !== 0 && day !== 6 && hour >= 9 && end.getUTCHours() * 60 + end.getUTCMinutes() <= 17 * 60) {
+          slots.push({ start: cursor.toISOString(), end: end.toISOString() });
+        }
+        cursor.setTime(end.getTime());
+      }
+      return slots;
+    },
+  };
+}
+
+export function schedulingProviderFromEnv(): SchedulingProvider | null {
+  const token = Deno.env.get('CALENDLY_TOKEN');
+  const eventType = Deno.env.get('CALENDLY_EVENT_TYPE');
+  const choice = Deno.env.get('SCHEDULING_PROVIDER') || (token && eventType ? 'calendly' : '');
+  switch (choice) {
+    case 'calendly':
+      return token && eventType ? calendlyProvider(token, eventType) : null;
+    case 'fake':
+      return fakeSchedulingProvider(Deno.env.get('FAKE_SCHEDULING_URL'));
+    default:
+      return null;
+  }
+}
+
+// The candidate’s open interview, or a new pending one with a fresh
+// single-use link.  Without a provider the static CALENDLY_LINK is used.
+export async function schedulingLinkFor(
+  supabase: SupabaseClient,
+  provider: SchedulingProvider | null,
+  candidate: { id: string; role_id: string; name?: string | null; email?: string | null },
+): Promise<{ url: string; interview_id: string | null }> {
+  if (!provider) return { url: Deno.env.get('CALENDLY_LINK') || '', interview_id: null };
+  const { data: open } = await supabase
+    .from('interviews')
+    .select('id, scheduling_url')
+    .eq('candidate_id', candidate.id)
+    .eq('provider', provider.name)
+    .eq('status', 'pending')
+    .not('scheduling_url', 'is', null)
+    .limit(1)
+    .maybeSingle();
+  if (open) return { url: open.scheduling_url, interview_id: open.id };
+  const { data: interview, error } = await supabase
+    .from('interviews')
+    .insert({ candidate_id: candidate.id, role_id: candidate.role_id, provider: provider.name, status: 'pending' })
+    .select('id')
+    .single();
+  if (error) throw new Error(error.message);
+  const link = await provider.createLink({ interview_id: interview.id, name: candidate.name, email: candidate.email });
+  await supabase.from('interviews').update({ scheduling_url: link.url }).eq('id', interview.id);
+  return { url: link.url, interview_id: interview.id };
+}
+
+export function slotIsOpen(slots: Slot[], start: Date): boolean {
+  return slots.some((s) => new Date(s.start).getTime() === start.getTime());
+}
@@ -0,0 +1,66 @@
+// schemas.ts – runtime schemas for the JSON the LLM returns
+//
+// The schemas are deliberately forgiving about representation: numbers sent
+// as strings are coerced, scores outside their range are clamped and a
+// newline/semicolon separated string is accepted where a list is expected.
+// Missing or unusable values still fail validation and trigger a repair.
+
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { OutreachResponse, ParsedJD, ReplyClassification, ScreenResult } from './types.ts';
+
+// null and "" would otherwise coerce to 0 and hide a missing score
+function clampedInt(min: number, max: number) {
+  return z.preprocess(
+    (v) => (v === null || v === '' ? undefined : v),
+    z.coerce.number().finite().transform((n) => Math.round(Math.min(max, Math.max(min, n)))),
+  );
+}
+
+const stringList = z.preprocess(
+  (v) => (typeof v === 'string' ? v.split(/\n|;/).map((s) => s.replace(/^(?:[-*•]|\d+[.)])\s*/, '').trim()).filter(Boolean) : v),
+  z.array(z.coerce.string().trim()).transform((list) => list.filter(Boolean)),
+);
+
+const text = z.string().trim().min(1);
+
+export const ParsedJDSchema: z.ZodType<ParsedJD, z.ZodTypeDef, unknown> = z.object({
+  title: text,
+  location: z.string().trim().default(''),
+  level: z.string().trim().default(''),
+  required_skills: stringList,
+  nice_to_have: stringList.default([]),
+  responsibilities: stringList.default([]),
+  keywords: stringList,
+  ideal_candidate_summary: z.string().trim().default(''),
+});
+
+export const ScreenResultSchema: z.ZodType<ScreenResult, z.ZodTypeDef, unknown> = z.object({
+  one_liner: text,
+  culture_score: clampedInt(1, 5),
+  technical_score: clampedInt(1, 5),
+  experience_score: clampedInt(1, 5),
+  fit_score: clampedInt(0, 100),
+  top_reasons: stringList,
+  interview_focus: stringList,
+});
+
+export const OutreachResponseSchema: z.ZodType<OutreachResponse, z.ZodTypeDef, unknown> = z.object({
+  subject: text,
+  body: text,
+});
+
+// Models tend to answer "not interested" or "Out-Of-Office" for the enum
+const replyClass = z.preprocess(
+  (v) => (typeof v === 'string' ? v.trim().toLowerCase().replace(/[\s-]+/g, '_') : v),
+  z.enum(['interested', 'not_now', 'not_interested', 'referral', 'out_of_office', 'unsubscribe']),
+);
+
+export const ReplyClassificationSchema: z.ZodType<ReplyClassification, z.ZodTypeDef, unknown> = z.object({
+  classification: replyClass,
+  confidence: z.preprocess(
+    (v) => (v === null || v === '' ? undefined : v),
+    z.coerce.number().finite().transform((n) => Math.min(1, Math.max(0, n > 1 ? n / 100 : n))),
+  ),
+  summary: z.string().trim().default(''),
+  referral_email: z.preprocess((v) => (v === '' ? null : v), z.string().trim().email().nullable().default(null)),
+});
@@ -0,0 +1,229 @@
+// scoring.ts – deterministic, explainable candidate scoring
+//
+// Scores a parsed resume against a ParsedJD on four criteria: required
+// skills, nice-to-have skills, seniority level and location.  Every item of a
+// criterion is reported as matched, partial or missing, and the fit score is
+// the weighted average of the criterion scores.  The same input always gives
+// the same score, so this runs on its own in mock/offline mode and is blended
+// with the LLM scores otherwise.  Weights can be overridden per role through
+// `roles.scoring_weights`.
+
+import { ResumeProfile } from './resume.ts';
+import { ParsedJD, ScreenResult } from './types.ts';
+
+export type Criterion = 'required_skills' | 'nice_to_have' | 'level' | 'location';
+export type CriterionStatus = 'matched' | 'partial' | 'missing';
+
+export interface ScoringWeights {
+  required_skills: number;
+  nice_to_have: number;
+  level: number;
+  location: number;
+  // Share of the final fit score taken from the LLM (0 = deterministic only)
+  llm_blend: number;
+}
+
+export interface CriterionItem {
+  item: string;
+  status: CriterionStatus;
+  evidence: string | null;
+}
+
+export interface CriterionScore {
+  criterion: Criterion;
+  weight: number;
+  score: number; // 0..1
+  items: CriterionItem[];
+}
+
+export interface ScoreBreakdown {
+  criteria: CriterionScore[];
+  fit_score: number; // 0..100, deterministic
+  llm_fit_score: number | null;
+  weights: ScoringWeights;
+}
+
+export const DEFAULT_WEIGHTS: ScoringWeights = {
+  required_skills: 0.5,
+  nice_to_have: 0.15,
+  level: 0.2,
+  location: 0.15,
+  llm_blend: 0.5,
+};
+
+const STATUS_POINTS: Record<CriterionStatus, number> = { matched: 1, partial: 0.5, missing: 0 };
+
+// Common spellings that should count as the same skill
+const SKILL_ALIASES: Record<string, string> = {
+  node: 'nodejs',
+  postgres: 'postgresql',
+  psql: 'postgresql',
+  js: 'javascript',
+  ts: 'typescript',
+  k8s: 'kubernetes',
+  golang: 'go',
+  reactjs: 'react',
+  vuejs: 'vue',
+  amazonwebservices: 'aws',
+  gcp: 'googlecloud',
+  googlecloudplatform: 'googlecloud',
+};
+
+const LEVELS: [RegExp, number][] = [
+  [/\b(intern|junior|jr|graduate|entry)\b/i, 1],
+  [/\b(mid|intermediate)\b/i, 2],
+  [/\b(senior|sr)\b/i, 3],
+  [/\b(staff|lead|tech lead|manager)\b/i, 4],
+  [/\b(principal|distinguished|architect|director|head)\b/i, 5],
+];
+
+export function resolveWeights(overrides?: Partial<ScoringWeights> | null): ScoringWeights {
+  const weights = { ...DEFAULT_WEIGHTS, ...(overrides || {}) };
+  weights.llm_blend = Math.min(1, Math.max(0, weights.llm_blend));
+  return weights;
+}
+
+function skillKey(skill: string): string {
+  const key = skill.toLowerCase().replace(/\.js\b/g, 'js').replace(/[^a-z0-9+#]/g, '');
+  return SKILL_ALIASES[key] || key;
+}
+
+function levelRank(text?: string | null): number | null {
+  if (!text) return null;
+  for (const [re, rank] of [...LEVELS].reverse()) {
+    if (re.test(text)) return rank;
+  }
+  return null;
+}
+
+function yearOf(value: string | null): number | null {
+  if (!value) return null;
+  if (/present|current|now/i.test(value)) return new Date().getFullYear();
+  const match = value.match(/\d{4}/);
+  return match ? Number(match[0]) : null;
+}
+
+function yearsOfExperience(profile: ResumeProfile): number {
+  const starts = profile.work_history.map((w) => yearOf(w.start)).filter((y): y is number => y !== null);
+  const ends = profile.work_history.map((w) => yearOf(w.end) ?? yearOf(w.start)).filter((y): y is number => y !== null);
+  if (starts.length === 0) return 0;
+  return Math.max(0, Math.max(...ends) - Math.min(...starts));
+}
+
+function rankForYears(years: number): number {
+  if (years >= 10) return 5;
+  if (years >= 8) return 4;
+  if (years >= 5) return 3;
+  if (years >= 2) return 2;
+  return 1;
+}
+
+function scoreSkills(skills: string[], profile: ResumeProfile, resumeText: string): CriterionItem[] {
+  const listed = new Set(profile.skills.map(skillKey));
+  const text = resumeText.toLowerCase();
+  return skills.map((skill) => {
+    if (listed.has(skillKey(skill))) return { item: skill, status: 'matched', evidence: 'Listed in skills' };
+    // Mentioned in the work history or free text but not claimed as a skill
+    const plain = skill.toLowerCase();
+    if (plain.length > 1 && new RegExp(`(^|[^a-z0-9])${plain.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}([^a-z0-9]|$)`).test(text)) {
+      return { item: skill, status: 'partial', evidence: 'Mentioned in resume' };
+    }
+    return { item: skill, status: 'missing', evidence: null };
+  });
+}
+
+function scoreLevel(jd: ParsedJD, profile: ResumeProfile): CriterionItem[] {
+  const wanted = levelRank(jd.level);
+  if (!wanted) return [];
+  const years = yearsOfExperience(profile);
+  // The title is the stronger signal; tenure only fills in when it is silent
+  const rank = levelRank(profile.current_title) ?? rankForYears(years);
+  const evidence = `${profile.current_title || 'Unknown title'}, ~${years} years`;
+  let status: CriterionStatus = 'missing';
+  if (rank >= wanted && rank <= wanted + 1) status = 'matched';
+  else if (rank === wanted - 1 || rank > wanted + 1) status = 'partial';
+  return [{ item: jd.level, status, evidence }];
+}
+
+function scoreLocation(jd: ParsedJD, profile: ResumeProfile): CriterionItem[] {
+  if (!jd.location) return [];
+  const wanted = jd.location.toLowerCase();
+  if (/remote|anywhere/.test(wanted)) return [{ item: jd.location, status: 'matched', evidence: 'Remote role' }];
+  if (!profile.location) return [{ item: jd.location, status: 'partial', evidence: 'Location not stated' }];
+  const have = profile.location.toLowerCase();
+  const [wantedCity, wantedRegion] = wanted.split(',').map((p) => p.trim());
+  const [haveCity, haveRegion] = have.split(',').map((p) => p.trim());
+  if (wantedCity && haveCity === wantedCity) return [{ item: jd.location, status: 'matched', evidence: profile.location }];
+  if (wantedRegion && haveRegion === wantedRegion) return [{ item: jd.location, status: 'partial', evidence: profile.location }];
+  return [{ item: jd.location, status: 'missing', evidence: profile.location }];
+}
+
+export function scoreProfile(
+  jd: ParsedJD,
+  profile: ResumeProfile,
+  resumeText: string,
+  weights: ScoringWeights = DEFAULT_WEIGHTS,
+): ScoreBreakdown {
+  const itemsFor: Record<Criterion, CriterionItem[]> = {
+    required_skills: scoreSkills(jd.required_skills || [], profile, resumeText),
+    nice_to_have: scoreSkills(jd.nice_to_have || [], profile, resumeText),
+    level: scoreLevel(jd, profile),
+    location: scoreLocation(jd, profile),
+  };
+  const criteria: CriterionScore[] = (Object.keys(itemsFor) as Criterion[]).map((criterion) => {
+    const items = itemsFor[criterion];
+    const score = items.length ? items.reduce((sum, i) => sum + STATUS_POINTS[i.status], 0) / items.length : 0;
+    return { criterion, weight: weights[criterion], score: Math.round(score * 100) / 100, items };
+  });
+  // Criteria the JD says nothing about don't count towards the total
+  const counted = criteria.filter((c) => c.items.length > 0 && c.weight > 0);
+  const totalWeight = counted.reduce((sum, c) => sum + c.weight, 0);
+  const fit = totalWeight ? counted.reduce((sum, c) => sum + c.weight * c.score, 0) / totalWeight : 0;
+  return { criteria, fit_score: Math.round(fit * 100), llm_fit_score: null, weights };
+}
+
+function toFivePoint(score: number): number {
+  return 1 + Math.round(score * 4);
+}
+
+function criterion(breakdown: ScoreBreakdown, name: Criterion): CriterionScore {
+  return breakdown.criteria.find((c) => c.criterion === name)!;
+}
+
+// Like the fit score, a 1-5 score only counts the criteria the JD fills in;
+// with none of them it stays neutral
+function fivePointOf(parts: [CriterionScore, number][]): number {
+  const counted = parts.filter(([c]) => c.items.length > 0);
+  const weight = counted.reduce((sum, [, w]) => sum + w, 0);
+  return weight ? toFivePoint(counted.reduce((sum, [c, w]) => sum + w * c.score, 0) / weight) : 3;
+}
+
+// A complete ScreenResult derived from the breakdown alone, used when no LLM
+// is available.  Culture cannot be read from a resume, so it stays neutral.
+export function deterministicScreen(profile: ResumeProfile, breakdown: ScoreBreakdown): ScreenResult {
+  const required = criterion(breakdown, 'required_skills');
+  const nice = criterion(breakdown, 'nice_to_have');
+  const matched = required.items.filter((i) => i.status === 'matched').map((i) => i.item);
+  const missing = [...required.items, ...nice.items].filter((i) => i.status !== 'matched').map((i) => i.item);
+  const who = [profile.current_title, profile.current_company].filter(Boolean).join(' at ') || 'Candidate';
+  return {
+    one_liner: `${who} matching ${matched.length}/${required.items.length} required skills.`,
+    culture_score: 3,
+    technical_score: fivePointOf([[required, 0.75], [nice, 0.25]]),
+    experience_score: fivePointOf([[criterion(breakdown, 'level'), 1]]),
+    fit_score: breakdown.fit_score,
+    top_reasons: [
+      ...matched.slice(0, 2).map((s) => `Has ${s}`),
+      ...breakdown.criteria.filter((c) => c.criterion === 'level' || c.criterion === 'location').flatMap((c) => c.items)
+        .filter((i) => i.status === 'matched').map((i) => `${i.item}: ${i.evidence}`),
+    ].slice(0, 3),
+    interview_focus: missing.slice(0, 3).map((s) => `Probe experience with ${s}`),
+  };
+}
+
+// Mix the LLM fit score with the deterministic one using the role’s blend
+export function blendScores(llm: ScreenResult, breakdown: ScoreBreakdown): ScreenResult {
+  const blend = breakdown.weights.llm_blend;
+  breakdown.llm_fit_score = llm.fit_score;
+  return { ...llm, fit_score: Math.round(blend * llm.fit_score + (1 - blend) * breakdown.fit_score) };
+}
@@ -0,0 +1,243 @@
+// screening_batches.ts – bulk resume screening run from the job queue
+//
+// bulk_screen turns a zip of resumes or a list of storage paths into a
+// `screening_batches` row with one `screening_batch_items` row per file and
+// queues a `screen_batch` job.  job_worker hands that job to `runBatch`, which
+// claims a few queued items at a time (BULK_SCREEN_CONCURRENCY) and screens
+// them in parallel through ingest_resume, so each file is resolved, stored
+// and screened exactly as a single upload would be.  A run stops after its
+// time budget and queues the next one until no item is left, then marks the
+// batch `finished`.  Progress is counted from the items, never kept on the
+// batch, so concurrent runs cannot get it wrong.
+//
+// An item that fails is queued again for a later run up to
+// BULK_SCREEN_MAX_ATTEMPTS times, unless the error will not go away (an
+// unsupported or empty file), and is then left `failed`; bulk_screen can put
+// failed items back.  Every screened item records the SHA-256 of the file
+// and the screen_resume prompt versions in force (_shared/prompts.ts).  A
+// file whose content was already screened for the role under the same
+// versions is `skipped` and points at the earlier candidate, so re-running a
+// batch only screens what is new or what a prompt change affects.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { enqueueJob, invokeFunction, JobError } from './jobs.ts';
+import { promptRef, promptVariants } from './prompts.ts';
+
+export type BatchStatus = 'running' | 'finished';
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'skipped' | 'failed';
+
+export interface ScreeningBatch {
+  id: string;
+  org_id: string;
+  role_id: string;
+  created_by: string | null;
+  source: string;
+  status: BatchStatus;
+  rounds: number;
+  created_at: string;
+  finished_at: string | null;
+}
+
+export interface BatchItem {
+  id: string;
+  batch_id: string;
+  role_id: string;
+  bucket: string;
+  path: string;
+  filename: string;
+  status: BatchItemStatus;
+  attempts: number;
+  content_hash: string | null;
+  prompt_key: string | null;
+  candidate_id: string | null;
+  error: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+export type BatchProgress = Record<BatchItemStatus, number> & { total: number };
+
+// Most files one batch may hold
+export const MAX_BATCH_FILES = 500;
+
+const CONCURRENCY = parseInt(Deno.env.get('BULK_SCREEN_CONCURRENCY') || '4', 10);
+const MAX_ATTEMPTS = parseInt(Deno.env.get('BULK_SCREEN_MAX_ATTEMPTS') || '3', 10);
+const BUDGET_MS = parseInt(Deno.env.get('BULK_SCREEN_BUDGET_MS') || '40000', 10);
+// An item running this long belongs to a run that died
+const STALE_SECONDS = 300;
+const ID_CHUNK = 200;
+
+export async function contentHash(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// The screen_resume prompt versions the org screens with, e.g.
+// 'screen_resume@2a,screen_resume@1b'; changes whenever a variant does
+export async function screenPromptKey(supabase: SupabaseClient, orgId: string): Promise<string> {
+  return (await promptVariants(supabase, 'screen_resume', orgId)).map(promptRef).join(',');
+}
+
+export async function batchProgress(supabase: SupabaseClient, batchId: string): Promise<BatchProgress> {
+  const { data, error } = await supabase.from('screening_batch_items').select('status').eq('batch_id', batchId).limit(MAX_BATCH_FILES);
+  if (error) throw new Error(`screening_batch_items: ${error.message}`);
+  const progress = { total: 0, queued: 0, running: 0, done: 0, skipped: 0, failed: 0 } as BatchProgress;
+  for (const item of data || []) {
+    progress.total++;
+    progress[item.status as BatchItemStatus]++;
+  }
+  return progress;
+}
+
+// Queue the next run of a batch.  Every run has its own job, keyed by the
+// batch’s round; when two callers race only the one that bumps the round
+// queues it.
+export async function queueBatchRun(supabase: SupabaseClient, batch: ScreeningBatch): Promise<boolean> {
+  const round = batch.rounds + 1;
+  const { data, error } = await supabase
+    .from('screening_batches')
+    .update({ rounds: round, status: 'running', finished_at: null })
+    .eq('id', batch.id)
+    .eq('rounds', batch.rounds)
+    .select('id');
+  if (error) throw new Error(`screening_batches: ${error.message}`);
+  if (!data || !data.length) return false;
+  await enqueueJob(supabase, 'screen_batch', { batch_id: batch.id }, { key: `${batch.id}:${round}`, orgId: batch.org_id });
+  return true;
+}
+
+// Claim up to `limit` queued items, and running ones whose run has died
+async function claimItems(supabase: SupabaseClient, batchId: string, limit: number): Promise<BatchItem[]> {
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - STALE_SECONDS * 1000).toISOString();
+  const { data: candidates, error } = await supabase
+    .from('screening_batch_items')
+    .select('*')
+    .eq('batch_id', batchId)
+    .or(`status.eq.queued,and(status.eq.running,started_at.lt.${staleBefore})`)
+    .order('created_at', { ascending: true })
+    .limit(limit);
+  if (error) throw new Error(`screening_batch_items: ${error.message}`);
+  const claimed: BatchItem[] = [];
+  for (const item of (candidates || []) as BatchItem[]) {
+    if (item.status === 'running' && item.attempts >= MAX_ATTEMPTS) {
+      await settleItem(supabase, item, { status: 'failed', error: item.error || 'Screening timed out' });
+      continue;
+    }
+    const { data: updated, error: claimError } = await supabase
+      .from('screening_batch_items')
+      .update({ status: 'running', attempts: item.attempts + 1, started_at: now.toISOString() })
+      .eq('id', item.id)
+      .eq('attempts', item.attempts)
+      .select('*');
+    if (claimError) throw new Error(`screening_batch_items: ${claimError.message}`);
+    // Another run got there first
+    if (updated && updated.length) claimed.push(updated[0] as BatchItem);
+  }
+  return claimed;
+}
+
+// Update a claimed item unless another run has claimed it since
+async function settleItem(supabase: SupabaseClient, item: BatchItem, update: Record<string, unknown>) {
+  const finished = update.status === 'queued' ? null : new Date().toISOString();
+  const { error } = await supabase
+    .from('screening_batch_items')
+    .update({ ...update, finished_at: finished })
+    .eq('id', item.id)
+    .eq('attempts', item.attempts);
+  if (error) throw new Error(`screening_batch_items: ${error.message}`);
+}
+
+// The candidate an identical file was screened into for the role under the
+// same prompt versions, if any.  Requeued items keep their hash, prompt key
+// and candidate, so a re-run batch finds its own earlier screens.
+async function screenedBefore(supabase: SupabaseClient, roleId: string, hash: string, promptKey: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('screening_batch_items')
+    .select('candidate_id')
+    .eq('role_id', roleId)
+    .eq('content_hash', hash)
+    .eq('prompt_key', promptKey)
+    .not('candidate_id', 'is', null)
+    .limit(1);
+  if (error) throw new Error(`screening_batch_items: ${error.message}`);
+  return data && data.length ? data[0].candidate_id : null;
+}
+
+async function screenItem(supabase: SupabaseClient, item: BatchItem, promptKey: string) {
+  try {
+    const { data: file, error } = await supabase.storage.from(item.bucket).download(item.path);
+    if (error || !file) throw new JobError(`Could not download ${item.bucket}/${item.path}`, false);
+    const hash = await contentHash(new Uint8Array(await file.arrayBuffer()));
+    const previous = await screenedBefore(supabase, item.role_id, hash, promptKey);
+    if (previous) {
+      await settleItem(supabase, item, { status: 'skipped', content_hash: hash, prompt_key: promptKey, candidate_id: previous, error: null });
+      return;
+    }
+    // ingest_resume downloads the file again; it stays the one place resumes
+    // are turned into candidates
+    const result = (await invokeFunction(supabase, 'ingest_resume', { role_id: item.role_id, path: item.path, bucket: item.bucket })) as any;
+    if (result?.screening?.error) throw new JobError(`screen_resume: ${result.screening.error.message}`, true);
+    await settleItem(supabase, item, { status: 'done', content_hash: hash, prompt_key: promptKey, candidate_id: result.candidate_id, error: null });
+  } catch (err) {
+    const retryable = !(err instanceof JobError) || err.retryable;
+    const status = retryable && item.attempts < MAX_ATTEMPTS ? 'queued' : 'failed';
+    await settleItem(supabase, item, { status, error: (err as Error).message });
+  }
+}
+
+// One run of a batch: screen items until none is left or the time budget is
+// used up, then queue the next run or finish the batch
+export async function runBatch(supabase: SupabaseClient, batchId: string): Promise<{ batch_id: string; screened: number; progress: BatchProgress }> {
+  const { data: batch, error } = await supabase.from('screening_batches').select('*').eq('id', batchId).maybeSingle();
+  if (error) throw new Error(`screening_batches: ${error.message}`);
+  if (!batch) throw new JobError('Screening batch no longer exists', false);
+  const promptKey = await screenPromptKey(supabase, batch.org_id);
+  const startedAt = Date.now();
+  let screened = 0;
+  while (Date.now() - startedAt < BUDGET_MS) {
+    const items = await claimItems(supabase, batch.id, CONCURRENCY);
+    if (!items.length) break;
+    await Promise.all(items.map((item) => screenItem(supabase, item, promptKey)));
+    screened += items.length;
+  }
+  const progress = await batchProgress(supabase, batch.id);
+  if (!progress.queued && !progress.running) {
+    await supabase.from('screening_batches').update({ status: 'finished', finished_at: new Date().toISOString() }).eq('id', batch.id);
+  } else if (!screened) {
+    // Everything left is held by another run; try again after a backoff
+    throw new JobError('Items are still being screened by another run', true);
+  } else {
+    await queueBatchRun(supabase, batch as ScreeningBatch);
+  }
+  return { batch_id: batch.id, screened, progress };
+}
+
+// Screened candidates of the batch, best fit first; a person uploaded twice
+// is listed once, with every file that resolved to them.  Emails are only
+// included with `contact`, which clients of the org never get.
+export async function rankedResults(supabase: SupabaseClient, batchId: string, opts: { contact: boolean }) {
+  const { data: items, error } = await supabase
+    .from('screening_batch_items')
+    .select('filename, status, candidate_id')
+    .eq('batch_id', batchId)
+    .in('status', ['done', 'skipped'])
+    .not('candidate_id', 'is', null)
+    .limit(MAX_BATCH_FILES);
+  if (error) throw new Error(`screening_batch_items: ${error.message}`);
+  const files = new Map<string, string[]>();
+  for (const item of items || []) files.set(item.candidate_id, [...(files.get(item.candidate_id) || []), item.filename]);
+  const ids = [...files.keys()];
+  const candidates: any[] = [];
+  for (let i = 0; i < ids.length; i += ID_CHUNK) {
+    const { data, error: candidateError } = await supabase
+      .from('candidates')
+      .select(`id, name, ${opts.contact ? 'email, ' : ''}current_title, company, location, status, fit_score, culture_score, technical_score, experience_score, summary`)
+      .in('id', ids.slice(i, i + ID_CHUNK));
+    if (candidateError) throw new Error(`candidates: ${candidateError.message}`);
+    candidates.push(...(data || []));
+  }
+  return candidates
+    .sort((a, b) => (b.fit_score ?? -1) - (a.fit_score ?? -1))
+    .map((c, i) => ({ rank: i + 1, ...c, files: files.get(c.id) || [] }));
+}
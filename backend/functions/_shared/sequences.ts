@@ -0,0 +1,187 @@
+// sequences.ts – outreach sequence definitions and scheduling helpers
+//
+// A sequence is an ordered list of steps attached to a role.  Each step either
+// references a row in `outreach_templates`, carries an inline subject/body, or
+// (when neither is set) is written by the LLM through generate_outreach.  An
+// outreach row tracks one candidate's progress: `step` is the next step to
+// send, `meta` holds its drafted subject/body and `next_send_at` is when it is
+// due.  Sequences stop on reply, bounce, unsubscribe or when the candidate
+// leaves the outreach statuses.  A `paused` sequence (a "not now" reply)
+// resumes by itself at its `next_send_at`, or stays put when that is empty.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+
+export interface SequenceStep {
+  delay_hours: number;
+  template_id?: string | null;
+  subject?: string;
+  body?: string;
+}
+
+export interface Sequence {
+  id: string | null;
+  role_id: string;
+  name: string;
+  steps: SequenceStep[];
+}
+
+export interface DraftedStep {
+  subject: string;
+  body: string;
+}
+
+export interface DueOutreach {
+  outreach_id: string;
+  candidate_id: string;
+  role_id: string;
+  step: number;
+  next_send_at: string;
+}
+
+// Used when a role has no sequence of its own: an LLM-written first touch
+// followed by two short follow-ups.
+export const DEFAULT_STEPS: SequenceStep[] = [
+  { delay_hours: 0, template_id: null },
+  {
+    delay_hours: 72,
+    subject: 'Re: {{role_title}}',
+    body: `Hi {{first_name}},\n\nJust bubbling this up in case it got buried. I’d love to tell you more about the {{role_title}} role – if now is a good time, grab a slot here: {{calendly_link}}.\n\nBest regards,\nHireLoop Recruiter`,
+  },
+  {
+    delay_hours: 168,
+    subject: 'Re: {{role_title}}',
+    body: `Hi {{first_name}},\n\nI don’t want to crowd your inbox, so this is my last note about the {{role_title}} role. If it’s ever of interest, my calendar is here: {{calendly_link}}.\n\nAll the best,\nHireLoop Recruiter`,
+  },
+];
+
+// Engagement events that end a sequence immediately
+export const STOP_EVENTS = ['replied', 'bounced', 'unsubscribed', 'spam_reported'];
+
+// Outreach rows that may still send a step
+export const OPEN_OUTREACH_STATUSES = ['active', 'paused'];
+
+// Candidates outside these statuses must not receive further steps
+export const SENDABLE_STATUSES = ['sourced', 'screened', 'contacted'];
+
+export async function loadSequence(supabase: SupabaseClient, roleId: string): Promise<Sequence> {
+  const { data } = await supabase
+    .from('sequences')
+    .select('*')
+    .eq('role_id', roleId)
+    .eq('active', true)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (data && Array.isArray(data.steps) && data.steps.length > 0) return data as Sequence;
+  return { id: null, role_id: roleId, name: 'Default', steps: DEFAULT_STEPS };
+}
+
+// Replace {{name}} placeholders we have values for; unknown placeholders such
+// as {{calendly_link}} are left for the sender to fill in.
+export function renderTemplate(text: string, vars: Record<string, string>): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key) => (key in vars ? vars[key] : match));
+}
+
+export function templateVars(role: any, candidate: any): Record<string, string> {
+  const name = candidate.name || 'there';
+  return {
+    candidate_name: name,
+    first_name: name.split(' ')[0],
+    role_title: role.parsed_json?.title || role.title || 'the role',
+    company: candidate.company || '',
+  };
+}
+
+// Draft a template-backed step.  Returns null for LLM-written steps.
+export async function draftStep(
+  supabase: SupabaseClient,
+  step: SequenceStep,
+  role: any,
+  candidate: any,
+): Promise<DraftedStep | null> {
+  let subject = step.subject;
+  let body = step.body;
+  if (step.template_id) {
+    const { data: template } = await supabase.from('outreach_templates').select('subject, body').eq('id', step.template_id).maybeSingle();
+    if (!template) throw new Error(`Template ${step.template_id} not found`);
+    subject = template.subject;
+    body = template.body;
+  }
+  if (!subject || !body) return null;
+  const vars = templateVars(role, candidate);
+  return { subject: renderTemplate(subject, vars), body: renderTemplate(body, vars) };
+}
+
+export function nextSendAt(from: Date, step: SequenceStep): string {
+  return new Date(from.getTime() + (step.delay_hours || 0) * 3600 * 1000).toISOString();
+}
+
+export async function stopSequences(supabase: SupabaseClient, candidateId: string, reason: string): Promise<void> {
+  const { error } = await supabase
+    .from('outreach')
+    .update({ status: 'stopped', stopped_reason: reason, next_send_at: null })
+    .eq('candidate_id', candidateId)
+    .in('status', OPEN_OUTREACH_STATUSES);
+  if (error) throw new Error(`outreach: ${error.message}`);
+}
+
+// Hold the sequence until `until`, or until someone resumes it when null
+export async function pauseSequences(supabase: SupabaseClient, candidateId: string, reason: string, until: Date | null): Promise<void> {
+  const { error } = await supabase
+    .from('outreach')
+    .update({ status: 'paused', stopped_reason: reason, next_send_at: until ? until.toISOString() : null })
+    .eq('candidate_id', candidateId)
+    .in('status', OPEN_OUTREACH_STATUSES);
+  if (error) throw new Error(`outreach: ${error.message}`);
+}
+
+// Push the next step back to `until` when it is due earlier
+export async function delaySequences(supabase: SupabaseClient, candidateId: string, until: Date): Promise<void> {
+  const { error } = await supabase
+    .from('outreach')
+    .update({ next_send_at: until.toISOString() })
+    .eq('candidate_id', candidateId)
+    .eq('status', 'active')
+    .lt('next_send_at', until.toISOString());
+  if (error) throw new Error(`outreach: ${error.message}`);
+}
+
+// Providers only echo back what we attached when sending, so events and
+// replies are matched through the message id stored on the outreach row
+// (first step) or on the `sent` engagement (follow-ups).
+export async function candidateIdForMessage(supabase: SupabaseClient, messageId: string): Promise<string | null> {
+  const { data } = await supabase.from('outreach').select('candidate_id').eq('thread_id', messageId).maybeSingle();
+  if (data) return data.candidate_id;
+  const { data: sent } = await supabase
+    .from('engagements')
+    .select('candidate_id')
+    .eq('event', 'sent')
+    .eq('payload->>message_id', messageId)
+    .limit(1)
+    .maybeSingle();
+  return sent?.candidate_id || null;
+}
+
+// List open sequences whose next step is due, oldest first
+export async function listDue(
+  supabase: SupabaseClient,
+  opts: { roleId?: string; now?: Date; limit?: number } = {},
+): Promise<DueOutreach[]> {
+  let query = supabase
+    .from('outreach')
+    .select('id, candidate_id, step, next_send_at, candidates!inner(role_id)')
+    .in('status', OPEN_OUTREACH_STATUSES)
+    .lte('next_send_at', (opts.now || new Date()).toISOString())
+    .order('next_send_at', { ascending: true });
+  if (opts.roleId) query = query.eq('candidates.role_id', opts.roleId);
+  if (opts.limit) query = query.limit(opts.limit);
+  const { data, error } = await query;
+  if (error) throw new Error(`outreach: ${error.message}`);
+  return (data || []).map((row: any) => ({
+    outreach_id: row.id,
+    candidate_id: row.candidate_id,
+    role_id: row.candidates.role_id,
+    step: row.step,
+    next_send_at: row.next_send_at,
+  }));
+}
@@ -0,0 +1,131 @@
+// status.ts – candidate status state machine
+//
+// Candidates move forward through the funnel:
+//
+//   sourced → screened → contacted → interested → interviewing → offered → hired
+//
+// Stages may be skipped (a sourced candidate can reply and become interested
+// straight away) but never revisited, with one exception: a cancelled
+// interview puts the candidate back to `interested`.  Anyone not yet hired
+// can be `rejected` or can `withdraw`; both are final.  Every status change
+// must go through `transitionStatus`, which refuses illegal moves, updates
+// the row only if nobody changed it in the meantime and writes the move to
+// `candidate_status_history` with the actor, reason and source event.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+
+export type CandidateStatus =
+  | 'sourced'
+  | 'screened'
+  | 'contacted'
+  | 'interested'
+  | 'interviewing'
+  | 'offered'
+  | 'hired'
+  | 'rejected'
+  | 'withdrawn';
+
+export const CANDIDATE_STATUSES: CandidateStatus[] = [
+  'sourced',
+  'screened',
+  'contacted',
+  'interested',
+  'interviewing',
+  'offered',
+  'hired',
+  'rejected',
+  'withdrawn',
+];
+
+export const TRANSITIONS: Record<CandidateStatus, CandidateStatus[]> = {
+  sourced: ['screened', 'contacted', 'interested', 'interviewing', 'rejected', 'withdrawn'],
+  screened: ['contacted', 'interested', 'interviewing', 'rejected', 'withdrawn'],
+  contacted: ['interested', 'interviewing', 'rejected', 'withdrawn'],
+  interested: ['interviewing', 'rejected', 'withdrawn'],
+  // Back to interested only when the interview is cancelled
+  interviewing: ['interested', 'offered', 'rejected', 'withdrawn'],
+  offered: ['hired', 'rejected', 'withdrawn'],
+  hired: [],
+  rejected: [],
+  withdrawn: [],
+};
+
+export interface TransitionContext {
+  // Who made the change: 'user:<id>', 'system:<function>', 'webhook:<provider>'
+  // or 'candidate:<id>' (unsubscribe link)
+  actor: string;
+  reason?: string | null;
+  // What caused it, e.g. 'engagement:replied' or 'calendly:invitee.created'
+  source_event?: string | null;
+}
+
+export interface TransitionResult {
+  changed: boolean;
+  from: CandidateStatus | null;
+  to: CandidateStatus;
+  // Set when the move was not made
+  refused?: string;
+}
+
+export function isCandidateStatus(value: unknown): value is CandidateStatus {
+  return typeof value === 'string' && (CANDIDATE_STATUSES as string[]).includes(value);
+}
+
+export function canTransition(from: CandidateStatus, to: CandidateStatus): boolean {
+  return TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+// Record the status a candidate was created with as the start of its history
+export async function recordInitialStatus(
+  supabase: SupabaseClient,
+  candidateId: string,
+  status: string,
+  ctx: TransitionContext,
+): Promise<void> {
+  await supabase.from('candidate_status_history').insert({
+    candidate_id: candidateId,
+    from_status: null,
+    to_status: status,
+    actor: ctx.actor,
+    reason: ctx.reason || 'created',
+    source_event: ctx.source_event || null,
+  });
+}
+
+export async function transitionStatus(
+  supabase: SupabaseClient,
+  candidateId: string,
+  to: CandidateStatus,
+  ctx: TransitionContext,
+): Promise<TransitionResult> {
+  // One retry covers a concurrent change between the read and the update
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const { data: candidate, error } = await supabase.from('candidates').select('status').eq('id', candidateId).maybeSingle();
+    if (error) throw new Error(`candidates: ${error.message}`);
+    if (!candidate) return { changed: false, from: null, to, refused: 'Candidate not found' };
+    const from = candidate.status as CandidateStatus;
+    if (from === to) return { changed: false, from, to };
+    if (!isCandidateStatus(from) || !canTransition(from, to)) {
+      return { changed: false, from, to, refused: `Cannot move from ${from} to ${to}` };
+    }
+    const { data: updated, error: updateError } = await supabase
+      .from('candidates')
+      .update({ status: to })
+      .eq('id', candidateId)
+      .eq('status', from)
+      .select('id');
+    if (updateError) throw new Error(`candidates: ${updateError.message}`);
+    if (!updated || updated.length === 0) continue;
+    const { error: historyError } = await supabase.from('candidate_status_history').insert({
+      candidate_id: candidateId,
+      from_status: from,
+      to_status: to,
+      actor: ctx.actor,
+      reason: ctx.reason || null,
+      source_event: ctx.source_event || null,
+    });
+    if (historyError) throw new Error(`candidate_status_history: ${historyError.message}`);
+    return { changed: true, from, to };
+  }
+  return { changed: false, from: null, to, refused: 'Status changed concurrently' };
+}
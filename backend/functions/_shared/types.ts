@@ -0,0 +1,42 @@
+// types.ts – shapes shared between edge functions
+
+// Structured job description produced by parse_jd and stored in roles.parsed_json
+export interface ParsedJD {
+  title: string;
+  location: string;
+  level: string;
+  required_skills: string[];
+  nice_to_have: string[];
+  responsibilities: string[];
+  keywords: string[];
+  ideal_candidate_summary: string;
+}
+
+// Resume screening result returned by screen_resume
+export interface ScreenResult {
+  one_liner: string;
+  culture_score: number;
+  technical_score: number;
+  experience_score: number;
+  fit_score: number;
+  top_reasons: string[];
+  interview_focus: string[];
+}
+
+// Outreach email drafted by generate_outreach and stored in outreach.meta
+export interface OutreachResponse {
+  subject: string;
+  body: string;
+  // Refs of the prompt variants that wrote it (_shared/prompts.ts); absent for templates
+  prompt?: { subject: string; body: string } | null;
+}
+
+export type ReplyClass = 'interested' | 'not_now' | 'not_interested' | 'referral' | 'out_of_office' | 'unsubscribe';
+
+// Classification of a candidate’s reply produced by inbound_email
+export interface ReplyClassification {
+  classification: ReplyClass;
+  confidence: number;
+  summary: string;
+  referral_email: string | null;
+}
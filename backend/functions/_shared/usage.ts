@@ -0,0 +1,275 @@
+// usage.ts – rate limits, monthly quotas and cost accounting for paid APIs
+//
+// Three mechanisms keep one role from spending the whole account overnight:
+//
+//   rate limits  a token bucket per provider (apollo, hunter, google, openai,
+//                anthropic, sendgrid, mailgun, smtp) shared by every org,
+//                kept in `rate_limit_buckets` so all function instances see
+//                the same bucket.  `acquireToken` waits briefly for a token
+//                and otherwise throws a RateLimitError with the wait time.
+//   quotas       monthly allowances per org for enrich credits, search
+//                queries, LLM tokens and emails sent.  Limits come from env
+//                (`QUOTA_<METRIC>`), the `quotas` config row and the
+//                `quotas:<org_id>` row, later layers winning; a missing or
+//                null limit means unlimited.  Callers ask `checkQuota` before
+//                spending and skip the work, logging why, when it is used up.
+//   ledger       one `usage_ledger` row per provider call with its quantity
+//                and estimated cost in USD, plus a running total per org,
+//                month and metric in `usage_counters` for the quota checks.
+//
+// Bucket sizes default to RATE_LIMITS and can be changed through the
+// `rate_limits` config row: { <provider>: { capacity?, per_minute? } }.
+// Prices are list-price estimates for reporting only, not invoices.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+
+export type UsageMetric = 'enrich_credits' | 'search_queries' | 'llm_tokens' | 'emails_sent';
+
+export const USAGE_METRICS: UsageMetric[] = ['enrich_credits', 'search_queries', 'llm_tokens', 'emails_sent'];
+
+export interface UsageEntry {
+  org_id: string | null;
+  metric: UsageMetric;
+  provider: string;
+  fn: string;
+  quantity: number;
+  // 'ok', 'error', 'skipped' or the HTTP status of the failure
+  status: string;
+  latency_ms?: number | null;
+  // Model and token split for LLM calls, the reason for skipped work, ...
+  meta?: Record<string, unknown>;
+}
+
+export interface QuotaCheck {
+  metric: UsageMetric;
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  allowed: boolean;
+}
+
+export interface RateLimit {
+  capacity: number;
+  per_minute: number;
+}
+
+export class RateLimitError extends Error {
+  retry_after_ms: number;
+  constructor(message: string, retryAfterMs: number) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.retry_after_ms = retryAfterMs;
+  }
+}
+
+export const RATE_LIMITS: Record<string, RateLimit> = {
+  apollo: { capacity: 10, per_minute: 50 },
+  hunter: { capacity: 10, per_minute: 300 },
+  google: { capacity: 10, per_minute: 60 },
+  openai: { capacity: 20, per_minute: 300 },
+  anthropic: { capacity: 10, per_minute: 50 },
+  sendgrid: { capacity: 20, per_minute: 300 },
+  mailgun: { capacity: 20, per_minute: 300 },
+  smtp: { capacity: 5, per_minute: 60 },
+};
+
+// USD per unit of each metric, by provider
+const UNIT_PRICES: Record<string, Partial<Record<UsageMetric, number>>> = {
+  apollo: { enrich_credits: 0.03 },
+  hunter: { enrich_credits: 0.034 },
+  google: { search_queries: 0.005 },
+  sendgrid: { emails_sent: 0.001 },
+  mailgun: { emails_sent: 0.0008 },
+};
+
+// USD per million prompt / completion tokens; unknown (e.g. local) models are free
+const MODEL_PRICES: Record<string, [number, number]> = {
+  'gpt-4o': [2.5, 10],
+  'gpt-4o-mini': [0.15, 0.6],
+  'text-embedding-3-small': [0.02, 0],
+  'text-embedding-3-large': [0.13, 0],
+  'claude-3-5-sonnet-latest': [3, 15],
+  'claude-3-5-haiku-latest': [0.8, 4],
+};
+
+const defaultMaxWaitMs = parseInt(Deno.env.get('RATE_LIMIT_MAX_WAIT_MS') || '5000', 10);
+
+export function estimateCost(entry: UsageEntry): number {
+  if (entry.metric === 'llm_tokens') {
+    const prices = MODEL_PRICES[String(entry.meta?.model || '')];
+    if (!prices) return 0;
+    const prompt = Number(entry.meta?.prompt_tokens) || 0;
+    const completion = Number(entry.meta?.completion_tokens) || 0;
+    return (prompt * prices[0] + completion * prices[1]) / 1_000_000;
+  }
+  return (UNIT_PRICES[entry.provider]?.[entry.metric] || 0) * entry.quantity;
+}
+
+// Calendar month in UTC, e.g. '2024-06'
+export function usagePeriod(at = new Date()): string {
+  return at.toISOString().slice(0, 7);
+}
+
+export function nextPeriodStart(at = new Date()): Date {
+  return new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth() + 1, 1));
+}
+
+async function configLayers(supabase: SupabaseClient, base: string, orgId: string | null): Promise<any[]> {
+  const keys = orgId ? [base, `${base}:${orgId}`] : [base];
+  const { data: rows } = await supabase.from('config').select('key, value').in('key', keys);
+  return keys.map((key) => rows?.find((r: any) => r.key === key)?.value).filter((v) => v && typeof v === 'object');
+}
+
+export async function quotaLimits(supabase: SupabaseClient, orgId: string | null): Promise<Record<UsageMetric, number | null>> {
+  const limits = {} as Record<UsageMetric, number | null>;
+  for (const metric of USAGE_METRICS) {
+    const env = Deno.env.get(`QUOTA_${metric.toUpperCase()}`);
+    limits[metric] = env ? Number(env) : null;
+  }
+  for (const layer of await configLayers(supabase, 'quotas', orgId)) {
+    for (const metric of USAGE_METRICS) {
+      if (layer[metric] === null) limits[metric] = null;
+      else if (Number.isFinite(Number(layer[metric])) && layer[metric] !== undefined) limits[metric] = Number(layer[metric]);
+    }
+  }
+  return limits;
+}
+
+export async function usedThisPeriod(supabase: SupabaseClient, orgId: string, period = usagePeriod()): Promise<Record<UsageMetric, number>> {
+  const used = Object.fromEntries(USAGE_METRICS.map((m) => [m, 0])) as Record<UsageMetric, number>;
+  const { data, error } = await supabase.from('usage_counters').select('metric, used').eq('org_id', orgId).eq('period', period);
+  if (error) throw new Error(`usage_counters: ${error.message}`);
+  for (const row of data || []) used[row.metric as UsageMetric] = Number(row.used) || 0;
+  return used;
+}
+
+// May the org spend `amount` more of `metric` this month?  Work without an
+// org (internal maintenance) is not subject to quotas.
+export async function checkQuota(
+  supabase: SupabaseClient,
+  orgId: string | null,
+  metric: UsageMetric,
+  amount = 1,
+): Promise<QuotaCheck> {
+  if (!orgId) return { metric, limit: null, used: 0, remaining: null, allowed: true };
+  const limit = (await quotaLimits(supabase, orgId))[metric];
+  if (limit === null) return { metric, limit, used: 0, remaining: null, allowed: true };
+  const used = (await usedThisPeriod(supabase, orgId))[metric];
+  const remaining = Math.max(limit - used, 0);
+  return { metric, limit, used, remaining, allowed: remaining >= amount };
+}
+
+export function quotaReason(check: QuotaCheck): string {
+  return `Monthly ${check.metric} quota exhausted (${check.used}/${check.limit})`;
+}
+
+// Add to the org's running total, reading it again when another writer got there first
+async function bumpCounter(supabase: SupabaseClient, orgId: string, metric: UsageMetric, quantity: number) {
+  const period = usagePeriod();
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const { data: row } = await supabase
+      .from('usage_counters')
+      .select('used')
+      .eq('org_id', orgId)
+      .eq('period', period)
+      .eq('metric', metric)
+      .maybeSingle();
+    if (!row) {
+      const { data: inserted } = await supabase
+        .from('usage_counters')
+        .upsert({ org_id: orgId, period, metric, used: quantity }, { onConflict: 'org_id,period,metric', ignoreDuplicates: true })
+        .select('used');
+      if (inserted && inserted.length) return;
+      continue;
+    }
+    const { data: updated } = await supabase
+      .from('usage_counters')
+      .update({ used: Number(row.used) + quantity })
+      .eq('org_id', orgId)
+      .eq('period', period)
+      .eq('metric', metric)
+      .eq('used', row.used)
+      .select('used');
+    if (updated && updated.length) return;
+  }
+}
+
+export async function recordUsage(supabase: SupabaseClient, entry: UsageEntry): Promise<void> {
+  // Accounting must never fail the call it describes
+  try {
+    await supabase.from('usage_ledger').insert({
+      org_id: entry.org_id,
+      metric: entry.metric,
+      provider: entry.provider,
+      function: entry.fn,
+      quantity: entry.quantity,
+      cost_usd: estimateCost(entry),
+      status: entry.status,
+      latency_ms: entry.latency_ms ?? null,
+      meta: entry.meta || null,
+    });
+    if (entry.org_id && entry.quantity > 0) await bumpCounter(supabase, entry.org_id, entry.metric, entry.quantity);
+  } catch (_e) {
+    // The ledger is best effort
+  }
+}
+
+// Log work that was not done because a quota or rate limit stopped it
+export async function recordSkip(
+  supabase: SupabaseClient,
+  entry: Omit<UsageEntry, 'quantity' | 'status' | 'meta'>,
+  reason: string,
+): Promise<void> {
+  await recordUsage(supabase, { ...entry, quantity: 0, status: 'skipped', meta: { reason } });
+}
+
+export async function rateLimitFor(supabase: SupabaseClient, bucket: string): Promise<RateLimit | null> {
+  const [override] = await configLayers(supabase, 'rate_limits', null);
+  const limit = { ...RATE_LIMITS[bucket], ...(override?.[bucket] || {}) };
+  const capacity = Number(limit.capacity);
+  const perMinute = Number(limit.per_minute);
+  return capacity > 0 && perMinute > 0 ? { capacity, per_minute: perMinute } : null;
+}
+
+// Take one token from the provider's bucket, waiting up to `maxWaitMs` for a
+// refill.  Buckets without a configured limit are not limited.
+export async function acquireToken(supabase: SupabaseClient, bucket: string, maxWaitMs = defaultMaxWaitMs): Promise<void> {
+  const limit = await rateLimitFor(supabase, bucket);
+  if (!limit) return;
+  const deadline = Date.now() + maxWaitMs;
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const { data: row, error } = await supabase.from('rate_limit_buckets').select('tokens, refilled_at').eq('bucket', bucket).maybeSingle();
+    if (error) throw new Error(`rate_limit_buckets: ${error.message}`);
+    const now = Date.now();
+    if (!row) {
+      await supabase
+        .from('rate_limit_buckets')
+        .upsert({ bucket, tokens: limit.capacity, refilled_at: new Date(now).toISOString() }, { onConflict: 'bucket', ignoreDuplicates: true });
+      continue;
+    }
+    const elapsedMinutes = Math.max(now - new Date(row.refilled_at).getTime(), 0) / 60_000;
+    const tokens = Math.min(limit.capacity, Number(row.tokens) + elapsedMinutes * limit.per_minute);
+    if (tokens >= 1) {
+      // Only one taker wins a given bucket state; the others read it again
+      const { data: taken } = await supabase
+        .from('rate_limit_buckets')
+        .update({ tokens: tokens - 1, refilled_at: new Date(now).toISOString() })
+        .eq('bucket', bucket)
+        .eq('refilled_at', row.refilled_at)
+        .select('bucket');
+      if (taken && taken.length) return;
+      continue;
+    }
+    const waitMs = Math.ceil(((1 - tokens) / limit.per_minute) * 60_000);
+    if (now + waitMs > deadline) throw new RateLimitError(`Rate limit reached for ${bucket}`, waitMs);
+    await new Promise((resolve) => setTimeout(resolve, waitMs));
+  }
+  throw new RateLimitError(`Rate limit for ${bucket} is contended`, 1000);
+}
+
+export function rateLimitResponse(err: RateLimitError): Response {
+  return new Response(JSON.stringify({ error: { message: err.message } }), {
+    headers: { 'Content-Type': 'application/json', 'Retry-After': String(Math.ceil(err.retry_after_ms / 1000)) },
+    status: 429,
+  });
+}
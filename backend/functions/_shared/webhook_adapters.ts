@@ -0,0 +1,383 @@
+// webhook_adapters.ts – signature verification and event normalisation for
+// email provider webhooks
+//
+// Each provider signs its callbacks differently and uses its own event
+// vocabulary.  An adapter verifies the signature of the raw request body,
+// rejects stale timestamps (replays) and maps the provider's events onto the
+// engagement events HireLoop records.  Events we do not track (deferred,
+// processed, resubscribes, ...) are dropped during normalisation.
+
+export type EngagementEvent =
+  | 'sent'
+  | 'delivered'
+  | 'opened'
+  | 'clicked'
+  | 'replied'
+  | 'bounced'
+  | 'unsubscribed'
+  | 'spam_reported';
+
+export interface NormalisedEvent {
+  event: EngagementEvent;
+  provider_event: string;
+  provider_event_id: string | null;
+  candidate_id: string | null;
+  email: string | null;
+  message_id: string | null;
+  occurred_at: string;
+  raw: unknown;
+}
+
+export interface Verification {
+  ok: boolean;
+  // Unique per signed request; a second request with the same nonce is a replay
+  nonce?: string;
+  reason?: string;
+}
+
+export interface WebhookAdapter {
+  provider: string;
+  verify(req: Request, rawBody: string): Promise<Verification>;
+  parse(rawBody: string): NormalisedEvent[];
+}
+
+// Signed requests older (or newer) than this are treated as replays
+const TOLERANCE_SECONDS = parseInt(Deno.env.get('WEBHOOK_TOLERANCE_SECONDS') || '300', 10);
+
+const encoder = new TextEncoder();
+
+function withinTolerance(timestamp: string | null): boolean {
+  const ts = Number(timestamp);
+  if (!timestamp || !Number.isFinite(ts)) return false;
+  return Math.abs(Date.now() / 1000 - ts) <= TOLERANCE_SECONDS;
+}
+
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+function toHex(buf: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buf)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromBase64(b64: string): Uint8Array {
+  return Uint8Array.from(atob(b64), (c) => c.charCodeAt(0));
+}
+
+export async function hmacSha256Hex(secret: string, data: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(data)));
+}
+
+// SendGrid emits ASN.1 DER encoded ECDSA signatures while WebCrypto expects
+// the raw r||s form, so the two integers are unpacked and left-padded.
+function derToRawSignature(der: Uint8Array, size = 32): Uint8Array {
+  let offset = der[1] & 0x80 ? 2 + (der[1] & 0x7f) : 2;
+  const readInt = (): Uint8Array => {
+    if (der[offset] !== 0x02) throw new Error('Malformed DER signature');
+    const len = der[offset + 1];
+    let bytes = der.slice(offset + 2, offset + 2 + len);
+    offset += 2 + len;
+    while (bytes.length > size && bytes[0] === 0) bytes = bytes.slice(1);
+    const out = new Uint8Array(size);
+    out.set(bytes, size - bytes.length);
+    return out;
+  };
+  const raw = new Uint8Array(size * 2);
+  raw.set(readInt(), 0);
+  raw.set(readInt(), size);
+  return raw;
+}
+
+// ---------------------------------------------------------------------------
+// SendGrid: batched JSON array, ECDSA P-256 signature over timestamp + body
+
+const SENDGRID_EVENTS: Record<string, EngagementEvent> = {
+  processed: 'sent',
+  delivered: 'delivered',
+  open: 'opened',
+  click: 'clicked',
+  bounce: 'bounced',
+  dropped: 'bounced',
+  spamreport: 'spam_reported',
+  unsubscribe: 'unsubscribed',
+  group_unsubscribe: 'unsubscribed',
+};
+
+export const sendgridAdapter: WebhookAdapter = {
+  provider: 'sendgrid',
+  async verify(req, rawBody) {
+    const publicKey = Deno.env.get('SENDGRID_WEBHOOK_PUBLIC_KEY');
+    const signature = req.headers.get('X-Twilio-Email-Event-Webhook-Signature');
+    const timestamp = req.headers.get('X-Twilio-Email-Event-Webhook-Timestamp');
+    if (!publicKey) return { ok: false, reason: 'SendGrid verification key not configured' };
+    if (!signature || !timestamp) return { ok: false, reason: 'Missing signature headers' };
+    if (!withinTolerance(timestamp)) return { ok: false, reason: 'Stale timestamp' };
+    try {
+      const key = await crypto.subtle.importKey('spki', fromBase64(publicKey), { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']);
+      const valid = await crypto.subtle.verify(
+        { name: 'ECDSA', hash: 'SHA-256' },
+        key,
+        derToRawSignature(fromBase64(signature)),
+        encoder.encode(timestamp + rawBody),
+      );
+      return valid ? { ok: true, nonce: signature } : { ok: false, reason: 'Invalid signature' };
+    } catch (err) {
+      return { ok: false, reason: (err as Error).message };
+    }
+  },
+  parse(rawBody) {
+    const events = JSON.parse(rawBody);
+    const list = Array.isArray(events) ? events : [events];
+    const out: NormalisedEvent[] = [];
+    for (const e of list) {
+      const event = SENDGRID_EVENTS[e.event];
+      if (!event) continue;
+      out.push({
+        event,
+        provider_event: e.event,
+        provider_event_id: e.sg_event_id || null,
+        candidate_id: e.candidate_id || null,
+        email: e.email || null,
+        // sg_message_id is "<x-message-id>.<filter suffix>"
+        message_id: e.sg_message_id ? String(e.sg_message_id).split('.')[0] : null,
+        occurred_at: e.timestamp ? new Date(e.timestamp * 1000).toISOString() : new Date().toISOString(),
+        raw: e,
+      });
+    }
+    return out;
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Mailgun: one event per request, HMAC-SHA256 over timestamp + token
+
+const MAILGUN_EVENTS: Record<string, EngagementEvent> = {
+  accepted: 'sent',
+  delivered: 'delivered',
+  opened: 'opened',
+  clicked: 'clicked',
+  failed: 'bounced',
+  unsubscribed: 'unsubscribed',
+  complained: 'spam_reported',
+};
+
+export const mailgunAdapter: WebhookAdapter = {
+  provider: 'mailgun',
+  async verify(_req, rawBody) {
+    const signingKey = Deno.env.get('MAILGUN_WEBHOOK_SIGNING_KEY');
+    if (!signingKey) return { ok: false, reason: 'Mailgun signing key not configured' };
+    let sig: { timestamp?: string; token?: string; signature?: string } | undefined;
+    try {
+      sig = JSON.parse(rawBody).signature;
+    } catch (_e) {
+      return { ok: false, reason: 'Invalid JSON' };
+    }
+    if (!sig?.timestamp || !sig.token || !sig.signature) return { ok: false, reason: 'Missing signature' };
+    if (!withinTolerance(sig.timestamp)) return { ok: false, reason: 'Stale timestamp' };
+    const expected = await hmacSha256Hex(signingKey, sig.timestamp + sig.token);
+    return timingSafeEqual(expected, sig.signature) ? { ok: true, nonce: sig.token } : { ok: false, reason: 'Invalid signature' };
+  },
+  parse(rawBody) {
+    const data = JSON.parse(rawBody)['event-data'] || {};
+    // Temporary failures are retried by Mailgun and are not bounces yet
+    if (data.event === 'failed' && data.severity !== 'permanent') return [];
+    const event = MAILGUN_EVENTS[data.event];
+    if (!event) return [];
+    const messageId = data.message?.headers?.['message-id'];
+    return [{
+      event,
+      provider_event: data.event,
+      provider_event_id: data.id || null,
+      candidate_id: data['user-variables']?.candidate_id || null,
+      email: data.recipient || null,
+      message_id: messageId ? String(messageId).replace(/^<|>$/g, '') : null,
+      occurred_at: data.timestamp ? new Date(data.timestamp * 1000).toISOString() : new Date().toISOString(),
+      raw: data,
+    }];
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Apollo: sequence events relayed with a shared-secret HMAC over
+// "<timestamp>.<body>" in X-Apollo-Signature / X-Apollo-Timestamp
+
+const APOLLO_EVENTS: Record<string, EngagementEvent> = {
+  email_sent: 'sent',
+  email_delivered: 'delivered',
+  email_opened: 'opened',
+  email_clicked: 'clicked',
+  email_replied: 'replied',
+  email_bounced: 'bounced',
+  email_unsubscribed: 'unsubscribed',
+  email_spam_reported: 'spam_reported',
+};
+
+export const apolloAdapter: WebhookAdapter = {
+  provider: 'apollo',
+  async verify(req, rawBody) {
+    const secret = Deno.env.get('APOLLO_WEBHOOK_SECRET');
+    const signature = req.headers.get('X-Apollo-Signature');
+    const timestamp = req.headers.get('X-Apollo-Timestamp');
+    if (!secret) return { ok: false, reason: 'Apollo webhook secret not configured' };
+    if (!signature || !timestamp) return { ok: false, reason: 'Missing signature headers' };
+    if (!withinTolerance(timestamp)) return { ok: false, reason: 'Stale timestamp' };
+    const expected = await hmacSha256Hex(secret, `${timestamp}.${rawBody}`);
+    return timingSafeEqual(expected, signature.toLowerCase()) ? { ok: true, nonce: signature } : { ok: false, reason: 'Invalid signature' };
+  },
+  parse(rawBody) {
+    const body = JSON.parse(rawBody);
+    const list = Array.isArray(body) ? body : body.events || [body];
+    const out: NormalisedEvent[] = [];
+    for (const e of list) {
+      const name = e.event || e.type;
+      const event = APOLLO_EVENTS[name];
+      if (!event) continue;
+      out.push({
+        event,
+        provider_event: name,
+        provider_event_id: e.id || null,
+        candidate_id: e.data?.candidate_id || e.candidate_id || null,
+        email: e.data?.contact_email || e.email || null,
+        message_id: e.data?.message_id || null,
+        occurred_at: e.created_at || new Date().toISOString(),
+        raw: e,
+      });
+    }
+    return out;
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Calendly: `Calendly-Webhook-Signature: t=<ts>,v1=<hex>`, HMAC-SHA256 over
+// "<ts>.<body>".  Its invitee events drive interviews rather than engagement
+// events, so calendly_webhook only borrows the verification.
+
+export async function verifyCalendly(req: Request, rawBody: string): Promise<Verification> {
+  const signingKey = Deno.env.get('CALENDLY_WEBHOOK_SIGNING_KEY');
+  const header = req.headers.get('Calendly-Webhook-Signature');
+  if (!signingKey) return { ok: false, reason: 'Calendly webhook signing key not configured' };
+  if (!header) return { ok: false, reason: 'Missing signature header' };
+  const parts = Object.fromEntries(header.split(',').map((p) => p.trim().split('=', 2) as [string, string]));
+  if (!parts.t || !parts.v1) return { ok: false, reason: 'Malformed signature header' };
+  if (!withinTolerance(parts.t)) return { ok: false, reason: 'Stale timestamp' };
+  const expected = await hmacSha256Hex(signingKey, `${parts.t}.${rawBody}`);
+  return timingSafeEqual(expected, parts.v1.toLowerCase()) ? { ok: true, nonce: parts.v1 } : { ok: false, reason: 'Invalid signature' };
+}
+
+// Inbound replies (inbound_email) arrive as multipart forms rather than JSON
+// events.  Mailgun routes sign the form fields with the webhook signing key;
+// SendGrid Inbound Parse cannot sign, so its URL carries INBOUND_PARSE_TOKEN
+// as `?token=` and the Message-ID stands in for the replay nonce.
+
+export interface InboundEmail {
+  from: string | null;
+  subject: string;
+  text: string;
+  message_id: string | null;
+  // Message ids the reply points back to: In-Reply-To first, then References
+  in_reply_to: string[];
+}
+
+export interface InboundAdapter {
+  provider: string;
+  verify(req: Request, form: FormData): Promise<Verification>;
+  parse(form: FormData): InboundEmail;
+}
+
+function field(form: FormData, name: string): string {
+  const value = form.get(name);
+  return typeof value === 'string' ? value : '';
+}
+
+// Raw header block -> lower-cased name to (unfolded) value
+function parseHeaderBlock(raw: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of raw.replace(/\r\n?/g, '\n').replace(/\n[ \t]+/g, ' ').split('\n')) {
+    const idx = line.indexOf(':');
+    if (idx > 0) headers[line.slice(0, idx).trim().toLowerCase()] = line.slice(idx + 1).trim();
+  }
+  return headers;
+}
+
+function messageIds(value: string): string[] {
+  return [...value.matchAll(/<([^>]+)>/g)].map((m) => m[1]);
+}
+
+function bareAddress(from: string): string | null {
+  const match = from.match(/<([^>]+)>/) || from.match(/[^\s<>"]+@[^\s<>"]+/);
+  return match ? (match[1] || match[0]).trim().toLowerCase() : null;
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(?:br|\/p|\/div)[^>]*>/gi, '\n')
+    .replace(/<blockquote[\s\S]*$/i, '')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>');
+}
+
+export const mailgunInbound: InboundAdapter = {
+  provider: 'mailgun',
+  async verify(_req, form) {
+    const signingKey = Deno.env.get('MAILGUN_WEBHOOK_SIGNING_KEY');
+    if (!signingKey) return { ok: false, reason: 'Mailgun signing key not configured' };
+    const [timestamp, token, signature] = [field(form, 'timestamp'), field(form, 'token'), field(form, 'signature')];
+    if (!timestamp || !token || !signature) return { ok: false, reason: 'Missing signature' };
+    if (!withinTolerance(timestamp)) return { ok: false, reason: 'Stale timestamp' };
+    const expected = await hmacSha256Hex(signingKey, timestamp + token);
+    return timingSafeEqual(expected, signature) ? { ok: true, nonce: token } : { ok: false, reason: 'Invalid signature' };
+  },
+  parse(form) {
+    const inReplyTo = messageIds(field(form, 'In-Reply-To'));
+    const references = messageIds(field(form, 'References')).reverse();
+    return {
+      from: bareAddress(field(form, 'from') || field(form, 'sender')),
+      subject: field(form, 'subject'),
+      // Mailgun already strips quotes and signatures when it can
+      text: field(form, 'stripped-text') || field(form, 'body-plain'),
+      message_id: messageIds(field(form, 'Message-Id'))[0] || field(form, 'Message-Id') || null,
+      in_reply_to: [...new Set([...inReplyTo, ...references])],
+    };
+  },
+};
+
+export const sendgridInbound: InboundAdapter = {
+  provider: 'sendgrid',
+  async verify(req, form) {
+    const expected = Deno.env.get('INBOUND_PARSE_TOKEN');
+    if (!expected) return { ok: false, reason: 'Inbound parse token not configured' };
+    const token = new URL(req.url).searchParams.get('token') || '';
+    if (!timingSafeEqual(expected, token)) return { ok: false, reason: 'Invalid token' };
+    const parsed = sendgridInbound.parse(form);
+    const nonce = parsed.message_id || await hmacSha256Hex(expected, `${parsed.from}\n${parsed.subject}\n${parsed.text}`);
+    return { ok: true, nonce };
+  },
+  parse(form) {
+    const headers = parseHeaderBlock(field(form, 'headers'));
+    return {
+      from: bareAddress(field(form, 'from')),
+      subject: field(form, 'subject'),
+      text: field(form, 'text') || htmlToText(field(form, 'html')),
+      message_id: messageIds(headers['message-id'] || '')[0] || null,
+      in_reply_to: [...new Set([...messageIds(headers['in-reply-to'] || ''), ...messageIds(headers['references'] || '').reverse()])],
+    };
+  },
+};
+
+export const inboundAdapters: Record<string, InboundAdapter> = {
+  sendgrid: sendgridInbound,
+  mailgun: mailgunInbound,
+};
+
+export const adapters: Record<string, WebhookAdapter> = {
+  sendgrid: sendgridAdapter,
+  mailgun: mailgunAdapter,
+  apollo: apolloAdapter,
+};
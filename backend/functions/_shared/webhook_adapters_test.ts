@@ -0,0 +1,108 @@
+import { assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts';
+import { apolloAdapter, hmacSha256Hex, mailgunAdapter, mailgunInbound, sendgridAdapter, sendgridInbound, verifyCalendly } from './webhook_adapters.ts';
+
+const URL_BASE = 'https://example.supabase.co/functions/v1/ingest_webhook';
+
+function now(offsetSeconds = 0): string {
+  return String(Math.floor(Date.now() / 1000) + offsetSeconds);
+}
+
+function request(headers: Record<string, string> = {}, url = URL_BASE): Request {
+  return new Request(url, { method: 'POST', headers });
+}
+
+// The adapters read their keys on every call
+async function withEnv(vars: Record<string, string>, fn: () => Promise<void>) {
+  for (const [name, value] of Object.entries(vars)) Deno.env.set(name, value);
+  try {
+    await fn();
+  } finally {
+    for (const name of Object.keys(vars)) Deno.env.delete(name);
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+// WebCrypto signs ECDSA as raw r||s; SendGrid sends the DER encoding
+function rawToDer(raw: Uint8Array): Uint8Array {
+  const int = (bytes: Uint8Array) => {
+    let i = 0;
+    while (i < bytes.length - 1 && bytes[i] === 0) i++;
+    const trimmed = bytes.slice(i);
+    return trimmed[0] & 0x80 ? [0x02, trimmed.length + 1, 0, ...trimmed] : [0x02, trimmed.length, ...trimmed];
+  };
+  const body = [...int(raw.slice(0, 32)), ...int(raw.slice(32))];
+  return new Uint8Array([0x30, body.length, ...body]);
+}
+
+Deno.test('mailgun accepts its own signature and uses the token as the nonce', async () => {
+  await withEnv({ MAILGUN_WEBHOOK_SIGNING_KEY: 'mg-key' }, async () => {
+    const timestamp = now();
+    const signature = await hmacSha256Hex('mg-key', `${timestamp}tok-1`);
+    const body = (sig: string, ts = timestamp) => JSON.stringify({ signature: { timestamp: ts, token: 'tok-1', signature: sig }, 'event-data': {} });
+    assertEquals(await mailgunAdapter.verify(request(), body(signature)), { ok: true, nonce: 'tok-1' });
+    assertEquals(await mailgunAdapter.verify(request(), body('0'.repeat(64))), { ok: false, reason: 'Invalid signature' });
+    assertEquals(await mailgunAdapter.verify(request(), body(signature, now(-3600))), { ok: false, reason: 'Stale timestamp' });
+  });
+});
+
+Deno.test('mailgun refuses every request without a signing key', async () => {
+  const result = await mailgunAdapter.verify(request(), '{}');
+  assertEquals(result.ok, false);
+});
+
+Deno.test('apollo signs "<timestamp>.<body>" and any change to the body fails', async () => {
+  await withEnv({ APOLLO_WEBHOOK_SECRET: 'apollo-secret' }, async () => {
+    const timestamp = now();
+    const rawBody = JSON.stringify({ event: 'email_opened', id: 'evt-1' });
+    const signature = await hmacSha256Hex('apollo-secret', `${timestamp}.${rawBody}`);
+    const headers = { 'X-Apollo-Signature': signature.toUpperCase(), 'X-Apollo-Timestamp': timestamp };
+    assertEquals((await apolloAdapter.verify(request(headers), rawBody)).ok, true);
+    assertEquals(await apolloAdapter.verify(request(headers), rawBody.replace('opened', 'replied')), { ok: false, reason: 'Invalid signature' });
+    assertEquals(await apolloAdapter.verify(request({ 'X-Apollo-Timestamp': timestamp }), rawBody), { ok: false, reason: 'Missing signature headers' });
+  });
+});
+
+Deno.test('sendgrid verifies a DER-encoded ECDSA signature over timestamp + body', async () => {
+  const { privateKey, publicKey } = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+  const spki = new Uint8Array(await crypto.subtle.exportKey('spki', publicKey));
+  await withEnv({ SENDGRID_WEBHOOK_PUBLIC_KEY: toBase64(spki) }, async () => {
+    const timestamp = now();
+    const rawBody = JSON.stringify([{ event: 'open', sg_event_id: 'e1' }]);
+    const raw = new Uint8Array(await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, privateKey, new TextEncoder().encode(timestamp + rawBody)));
+    const signature = toBase64(rawToDer(raw));
+    const headers = { 'X-Twilio-Email-Event-Webhook-Signature': signature, 'X-Twilio-Email-Event-Webhook-Timestamp': timestamp };
+    assertEquals(await sendgridAdapter.verify(request(headers), rawBody), { ok: true, nonce: signature });
+    assertEquals(await sendgridAdapter.verify(request(headers), rawBody.replace('open', 'click')), { ok: false, reason: 'Invalid signature' });
+  });
+});
+
+Deno.test('calendly reads t and v1 from its signature header', async () => {
+  await withEnv({ CALENDLY_WEBHOOK_SIGNING_KEY: 'cal-key' }, async () => {
+    const timestamp = now();
+    const rawBody = '{"event":"invitee.created"}';
+    const v1 = await hmacSha256Hex('cal-key', `${timestamp}.${rawBody}`);
+    assertEquals(await verifyCalendly(request({ 'Calendly-Webhook-Signature': `t=${timestamp},v1=${v1}` }), rawBody), { ok: true, nonce: v1 });
+    assertEquals(await verifyCalendly(request({ 'Calendly-Webhook-Signature': `v1=${v1}` }), rawBody), { ok: false, reason: 'Malformed signature header' });
+  });
+});
+
+Deno.test('inbound mailgun signs the form fields; inbound sendgrid needs the URL token', async () => {
+  await withEnv({ MAILGUN_WEBHOOK_SIGNING_KEY: 'mg-key', INBOUND_PARSE_TOKEN: 'parse-token' }, async () => {
+    const timestamp = now();
+    const form = new FormData();
+    form.set('timestamp', timestamp);
+    form.set('token', 'tok-2');
+    form.set('signature', await hmacSha256Hex('mg-key', `${timestamp}tok-2`));
+    assertEquals(await mailgunInbound.verify(request(), form), { ok: true, nonce: 'tok-2' });
+    form.set('token', 'tok-3');
+    assertEquals((await mailgunInbound.verify(request(), form)).ok, false);
+
+    const reply = new FormData();
+    reply.set('headers', 'Message-ID: <reply-1@mail.example.com>\nIn-Reply-To: <out-1@hireloop.io>');
+    assertEquals(await sendgridInbound.verify(request({}, `${URL_BASE}?token=parse-token`), reply), { ok: true, nonce: 'reply-1@mail.example.com' });
+    assertEquals(await sendgridInbound.verify(request({}, `${URL_BASE}?token=wrong-token`), reply), { ok: false, reason: 'Invalid token' });
+  });
+});
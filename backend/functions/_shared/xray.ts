@@ -0,0 +1,277 @@
+// xray.ts – boolean X-ray query builder, search providers and result parsing
+//
+// `buildQueries` turns a ParsedJD into several boolean query variants per
+// site: the title variants form one OR group, every required skill is ANDed
+// in as an OR group of its synonyms, and the location and a `site:` operator
+// narrow the results to public profiles.  Later variants relax the query
+// (fewer skills, no location, keywords only) so thin markets still return
+// something.  `runXray` pages through each query on a SearchProvider (Google
+// CSE), parses each hit into a lead according to the site it came from and
+// de-duplicates by normalised URL.
+
+import { normaliseUrl } from './identity.ts';
+import { ParsedJD } from './types.ts';
+
+export type XraySite = 'linkedin' | 'github';
+
+export interface XrayQuery {
+  // null for queries supplied verbatim by the caller
+  site: XraySite | null;
+  query: string;
+}
+
+export interface SearchResult {
+  title: string;
+  snippet: string;
+  url: string;
+}
+
+export interface SearchProvider {
+  name: 'google';
+  // Largest page the provider returns and the deepest offset it allows
+  pageSize: number;
+  maxOffset: number;
+  search(query: string, offset: number, count: number): Promise<SearchResult[]>;
+}
+
+export interface Lead {
+  name: string;
+  title: string;
+  company: string;
+  location: string;
+  public_url: string;
+  source: XraySite;
+}
+
+export const SITE_OPERATORS: Record<XraySite, string> = {
+  linkedin: 'site:linkedin.com/in',
+  github: 'site:github.com -inurl:issues -inurl:pull -inurl:blob -inurl:tree -inurl:wiki',
+};
+
+// Spellings recruiters' targets actually use on their profiles
+const SKILL_SYNONYMS: string[][] = [
+  ['JavaScript', 'JS'],
+  ['TypeScript', 'TS'],
+  ['Node.js', 'NodeJS', 'Node'],
+  ['PostgreSQL', 'Postgres'],
+  ['Kubernetes', 'K8s'],
+  ['Go', 'Golang'],
+  ['React', 'React.js', 'ReactJS'],
+  ['Vue', 'Vue.js', 'VueJS'],
+  ['AWS', 'Amazon Web Services'],
+  ['GCP', 'Google Cloud'],
+  ['Machine Learning', 'ML'],
+  ['C#', '.NET'],
+  ['CI/CD', 'Continuous Integration'],
+];
+
+const ROLE_NOUNS: string[][] = [
+  ['Engineer', 'Developer'],
+  ['Scientist', 'Researcher'],
+  ['Designer'],
+  ['Manager'],
+];
+
+// Single-segment GitHub paths that are site pages rather than users
+const GITHUB_RESERVED = new Set(['about', 'collections', 'enterprise', 'explore', 'features', 'login', 'marketplace', 'orgs', 'pricing', 'sponsors', 'topics']);
+
+const LEVEL_WORDS = /\b(junior|jr\.?|mid(-level)?|senior|sr\.?|staff|lead|principal|intern)\b/gi;
+
+const MAX_SKILLS = 4;
+
+function quote(term: string): string {
+  const clean = term.replace(/"/g, '').trim();
+  return /^[A-Za-z0-9]+$/.test(clean) ? clean : `"${clean}"`;
+}
+
+function orGroup(terms: string[]): string {
+  const unique = [...new Set(terms.map(quote))];
+  return unique.length === 1 ? unique[0] : `(${unique.join(' OR ')})`;
+}
+
+export function skillVariants(skill: string): string[] {
+  const lower = skill.toLowerCase();
+  const group = SKILL_SYNONYMS.find((g) => g.some((s) => s.toLowerCase() === lower));
+  // Very short aliases ("TS", "Go") match far too much on their own
+  return group ? [skill, ...group.filter((s) => s.toLowerCase() !== lower && s.length > 2)] : [skill];
+}
+
+// "Senior Backend Engineer" → Backend Engineer, Backend Developer, Back-end Engineer, …
+export function titleVariants(title: string): string[] {
+  const base = title.replace(LEVEL_WORDS, '').replace(/\s+/g, ' ').trim();
+  if (!base) return [];
+  const variants = new Set([base]);
+  for (const nouns of ROLE_NOUNS) {
+    const noun = nouns.find((n) => new RegExp(`\\b${n}\\b`, 'i').test(base));
+    if (!noun) continue;
+    for (const other of nouns) variants.add(base.replace(new RegExp(`\\b${noun}\\b`, 'i'), other));
+  }
+  for (const v of [...variants]) {
+    if (/\bbackend\b/i.test(v)) variants.add(v.replace(/\bbackend\b/i, 'Back-end'));
+    if (/\bfrontend\b/i.test(v)) variants.add(v.replace(/\bfrontend\b/i, 'Front-end'));
+    if (/\bfull[- ]?stack\b/i.test(v)) variants.add(v.replace(/\bfull[- ]?stack\b/i, 'Full Stack'));
+  }
+  return [...variants];
+}
+
+function locationTerm(location: string): string | null {
+  if (!location || /remote|anywhere/i.test(location)) return null;
+  // The city alone matches more profiles than "City, Region"
+  return quote(location.split(',')[0]);
+}
+
+function compose(parts: (string | null)[]): string {
+  return parts.filter(Boolean).join(' ');
+}
+
+export function buildQueries(jd: ParsedJD, sites: XraySite[] = ['linkedin', 'github']): XrayQuery[] {
+  const skills = (jd.required_skills || []).slice(0, MAX_SKILLS).map((s) => orGroup(skillVariants(s)));
+  const titles = titleVariants(jd.title || '');
+  const titleGroup = titles.length ? orGroup(titles) : null;
+  const location = locationTerm(jd.location || '');
+  const keywords = (jd.keywords || []).length ? orGroup(jd.keywords) : null;
+  const queries: XrayQuery[] = [];
+  for (const site of sites) {
+    const operator = SITE_OPERATORS[site];
+    // GitHub profiles rarely state a job title, so skills carry the query there
+    const who = site === 'linkedin' ? titleGroup : null;
+    const variants = [
+      compose([operator, who, ...skills, location]),
+      compose([operator, who, ...skills.slice(0, 2), location]),
+      compose([operator, who, ...skills.slice(0, 2)]),
+      keywords ? compose([operator, who, keywords, location]) : null,
+    ];
+    for (const query of new Set(variants)) {
+      // A bare site operator would just page through the whole site
+      if (query && query !== operator) queries.push({ site, query });
+    }
+  }
+  return queries;
+}
+
+export function siteOf(url: string): XraySite | null {
+  if (/linkedin\.com\/in\//i.test(url)) return 'linkedin';
+  if (/github\.com\//i.test(url)) return 'github';
+  return null;
+}
+
+function splitAt(text: string): [string, string] {
+  const match = text.match(/^(.*?)\s+(?:at|@)\s+(.+)$/i);
+  return match ? [match[1].trim(), match[2].trim()] : [text.trim(), ''];
+}
+
+// "Jane Doe - Senior Engineer - Acme | LinkedIn" or "Jane Doe – Engineer at Acme – LinkedIn"
+function parseLinkedIn(result: SearchResult): Lead {
+  const title = result.title.replace(/\s*[|\-–—]\s*LinkedIn.*$/i, '').trim();
+  const parts = title.split(/\s+[-–—|]\s+/).map((p) => p.trim()).filter(Boolean);
+  const name = parts[0] || '';
+  let [jobTitle, company] = splitAt(parts[1] || '');
+  if (!company && parts[2]) company = parts[2];
+  // Snippets read "Location: Austin, Texas · 500+ connections" or
+  // "Austin, Texas, United States · Senior Engineer · Acme"
+  const snippet = result.snippet.replace(/\s+/g, ' ');
+  let location = snippet.match(/Location:\s*([^·|]+)/i)?.[1]?.trim() || '';
+  if (!location) {
+    const first = snippet.split('·')[0].trim();
+    if (/,|\bArea\b|Metropolitan/.test(first) && first.length < 80) location = first;
+  }
+  if (!company) company = snippet.match(/Experience:\s*([^·|]+)/i)?.[1]?.trim() || '';
+  return { name, title: jobTitle, company, location, public_url: result.url, source: 'linkedin' };
+}
+
+// "janedoe (Jane Doe) · GitHub" / "Jane Doe janedoe - GitHub"; only profile pages count
+function parseGitHub(result: SearchResult): Lead | null {
+  const path = new URL(result.url).pathname.split('/').filter(Boolean);
+  if (path.length !== 1 || GITHUB_RESERVED.has(path[0].toLowerCase())) return null;
+  const login = path[0];
+  const title = result.title.replace(/\s*[·\-–|]\s*GitHub.*$/i, '').trim();
+  const name = title.match(/\(([^)]+)\)/)?.[1]?.trim() ||
+    title.replace(new RegExp(`\\b${login.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i'), '').trim() || login;
+  // The bio, when present, is the snippet’s first sentence
+  const bio = result.snippet.split(/\.\s/)[0].replace(new RegExp(`${login} has \\d+ repositories.*`, 'i'), '').trim();
+  const [jobTitle, company] = bio && bio.length < 100 ? splitAt(bio) : ['', ''];
+  const location = result.snippet.match(/(?:📍|Location:)\s*([^·.\n]+)/)?.[1]?.trim() || '';
+  return { name, title: jobTitle, company, location, public_url: result.url, source: 'github' };
+}
+
+export function parseResult(result: SearchResult): Lead | null {
+  switch (siteOf(result.url)) {
+    case 'linkedin':
+      return parseLinkedIn(result);
+    case 'github':
+      return parseGitHub(result);
+    default:
+      return null;
+  }
+}
+
+export function googleSearchProvider(apiKey: string, cseId: string): SearchProvider {
+  return {
+    name: 'google',
+    pageSize: 10,
+    // CSE never returns results beyond the 100th
+    maxOffset: 90,
+    async search(query, offset, count) {
+      const url = new URL('https://www.googleapis.com/customsearch/v1');
+      url.searchParams.set('key', apiKey);
+      url.searchParams.set('cx', cseId);
+      url.searchParams.set('q', query);
+      url.searchParams.set('num', Math.min(count, 10).toString());
+      url.searchParams.set('start', (offset + 1).toString());
+      const resp = await fetch(url.toString());
+      if (!resp.ok) throw new Error(`Google CSE error ${resp.status}`);
+      const data = await resp.json();
+      return (data.items || []).map((item: any) => ({ title: item.title || '', snippet: item.snippet || '', url: item.link }));
+    },
+  };
+}
+
+export function searchProviderFromEnv(): SearchProvider | null {
+  const googleKey = Deno.env.get('GOOGLE_CSE_KEY');
+  const googleCx = Deno.env.get('GOOGLE_CSE_ID');
+  const choice = Deno.env.get('SEARCH_PROVIDER') || (googleKey && googleCx ? 'google' : '');
+  switch (choice) {
+    case 'google':
+      return googleKey && googleCx ? googleSearchProvider(googleKey, googleCx) : null;
+    default:
+      return null;
+  }
+}
+
+// Run the queries in order, paging through each until it runs dry, `maxPages`
+// is reached or enough leads have been found.  URLs already in `seen` (e.g.
+// the role’s current pipeline) are skipped and do not count towards `limit`.
+// No more than `maxRequests` searches are made in total (the org’s remaining
+// search quota).
+export async function runXray(
+  provider: SearchProvider,
+  queries: XrayQuery[],
+  opts: { limit: number; maxPages?: number; seen?: Set<string>; maxRequests?: number },
+): Promise<{ leads: Lead[]; queries_run: number; requests: number }> {
+  const seen = opts.seen || new Set<string>();
+  const maxPages = opts.maxPages ?? 3;
+  const leads: Lead[] = [];
+  let queriesRun = 0;
+  let requests = 0;
+  for (const { query } of queries) {
+    if (leads.length >= opts.limit) break;
+    queriesRun++;
+    for (let page = 0; page < maxPages && leads.length < opts.limit; page++) {
+      if (opts.maxRequests !== undefined && requests >= opts.maxRequests) return { leads, queries_run: queriesRun, requests };
+      const offset = page * provider.pageSize;
+      if (offset > provider.maxOffset) break;
+      const results = await provider.search(query, offset, provider.pageSize);
+      requests++;
+      for (const result of results) {
+        const lead = parseResult(result);
+        const key = lead && normaliseUrl(lead.public_url);
+        if (!lead || !key || seen.has(key)) continue;
+        seen.add(key);
+        leads.push(lead);
+        if (leads.length >= opts.limit) break;
+      }
+      if (results.length < provider.pageSize) break;
+    }
+  }
+  return { leads, queries_run: queriesRun, requests };
+}
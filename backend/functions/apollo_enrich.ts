@@ -1,61 +1,77 @@
 // apollo_enrich.ts – Supabase edge function to enrich scraped leads via Apollo.io
 //
-// Accepts an array of leads (name, company, location, public_url) and calls
-// Apollo.io’s API to retrieve work email, LinkedIn URL and company domain.
-// Inserts each enriched lead into the candidates table.  When the
-// `mock_enrich` feature flag is enabled or no Apollo API key is provided,
-// returns mocked enrichment data instead.
+// Accepts an array of leads (name, company, location, public_url) and looks
+// them up through the enrichment waterfall (_shared/enrichment.ts): Apollo’s
+// bulk match in batches of ten, then further providers such as Hunter for
+// the leads Apollo found no usable email for.  Every lead gets a match status
+// (matched, no_match or ambiguous) and every field its source and confidence,
+// kept in `candidates.enrichment`.  Emails are verified (syntax, MX and,
+// where enabled, a mailbox probe; _shared/email_verification.ts) and only
+// verified addresses, or unprobed ones the provider is sure enough of, make
+// a candidate `contactable`, which send_sequence requires.  Each enriched
+// lead is resolved against the org’s existing candidates
+// (_shared/identity.ts): duplicates within the role are merged, new people
+// are inserted and people already in another pipeline are flagged.  When the
+// `mock_enrich` feature flag is enabled or no enrichment key is provided,
+// mocked data is returned instead and left unverified.  Only owners and
+// recruiters of the role’s org may enrich into it.
+//
+// Each lookup costs one enrichment credit.  Lookups beyond the org’s
+// remaining monthly credits are skipped and the skip is logged in the usage
+// ledger rather than failing the request; each provider request waits for
+// the shared rate limit and is answered with a 429 when none frees up
+// (_shared/usage.ts).
 
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { requireRole, withAuth } from './_shared/auth.ts';
+import { emailVerifierFromEnv, EmailVerification, isContactable } from './_shared/email_verification.ts';
+import { Enricher, EnrichmentResult, enrichersFromEnv, Lead, mockEnricher, runWaterfall } from './_shared/enrichment.ts';
+import { resolveCandidate } from './_shared/identity.ts';
+import { acquireToken, checkQuota, quotaReason, RateLimitError, rateLimitResponse, recordSkip, recordUsage } from './_shared/usage.ts';
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
 const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
-const apolloApiKey = Deno.env.get('APOLLO_API_KEY') as string;
 const featureFlags = (Deno.env.get('FEATURE_FLAGS') || '').split(',');
 
 const supabase = createClient(supabaseUrl, supabaseKey, { auth: { autoRefreshToken: false, persistSession: false } });
 
-interface Lead {
-  name: string;
-  company?: string;
-  location?: string;
-  public_url?: string;
-}
-
-interface EnrichedLead extends Lead {
-  email?: string;
-  linkedin?: string;
-  company_domain?: string;
-}
-
 interface EnrichRequest {
   role_id: string;
   leads: Lead[];
 }
 
-function mockEnrich(leads: Lead[]): EnrichedLead[] {
-  return leads.map((l, idx) => ({
-    ...l,
-    email: `${l.name.split(' ')[0].toLowerCase()}@example.com`,
-    linkedin: l.public_url || `https://linkedin.com/in/${l.name.split(' ').join('').toLowerCase()}`,
-    company_domain: (l.company || 'example') + '.com',
-  }));
+// Wrap a provider with its rate limit and a ledger row per request
+function metered(enricher: Enricher, orgId: string): Enricher {
+  return {
+    ...enricher,
+    async enrich(requests) {
+      await acquireToken(supabase, enricher.name);
+      const started = Date.now();
+      const entry = { org_id: orgId, metric: 'enrich_credits' as const, provider: enricher.name, fn: 'apollo_enrich', quantity: requests.length };
+      try {
+        const matches = await enricher.enrich(requests);
+        await recordUsage(supabase, { ...entry, status: 'ok', latency_ms: Date.now() - started });
+        return matches;
+      } catch (err) {
+        await recordUsage(supabase, { ...entry, status: 'error', latency_ms: Date.now() - started });
+        throw err;
+      }
+    },
+  };
 }
 
-async function callApollo(leads: Lead[]): Promise<EnrichedLead[]> {
-  // Apollo bulk enrichment API (pseudo): POST /v1/people/match
-  const resp = await fetch('https://api.apollo.io/v1/people/match', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json', 'Api-Key': apolloApiKey },
-    body: JSON.stringify({ leads }),
-  });
-  if (!resp.ok) throw new Error(`Apollo API error ${resp.status}`);
-  const data = await resp.json();
-  return data.leads as EnrichedLead[];
+// How many of the wanted lookups the org’s credits still cover
+async function creditBudget(orgId: string, enricher: Enricher, wanted: number): Promise<number> {
+  const quota = await checkQuota(supabase, orgId, 'enrich_credits', wanted);
+  if (quota.allowed) return wanted;
+  const affordable = quota.remaining || 0;
+  const reason = `${quotaReason(quota)}; skipped ${wanted - affordable} of ${wanted} ${enricher.name} lookups`;
+  await recordSkip(supabase, { org_id: orgId, metric: 'enrich_credits', provider: enricher.name, fn: 'apollo_enrich' }, reason);
+  return affordable;
 }
 
-serve(async (req) => {
+serve(withAuth(supabase, async (req, caller) => {
   if (req.method !== 'POST') return new Response(JSON.stringify({ error: { message: 'Method not allowed' } }), { status: 405 });
   let payload: EnrichRequest;
   try {
@@ -66,27 +82,66 @@ serve(async (req) => {
   if (!payload.role_id || !Array.isArray(payload.leads)) {
     return new Response(JSON.stringify({ error: { message: 'role_id and leads are required' } }), { status: 400 });
   }
-  let enriched: EnrichedLead[];
+  const role = await requireRole(supabase, caller, payload.role_id, 'write');
+  const enrichers = enrichersFromEnv();
+  const mockMode = featureFlags.includes('mock_enrich') || !enrichers.length;
+  let enriched: EnrichmentResult[];
+  try {
+    enriched = mockMode
+      ? await runWaterfall([mockEnricher()], payload.leads)
+      : await runWaterfall(enrichers.map((e) => metered(e, role.org_id)), payload.leads, {
+        budget: (enricher, wanted) => creditBudget(role.org_id, enricher, wanted),
+      });
+  } catch (err) {
+    if (err instanceof RateLimitError) return rateLimitResponse(err);
+    return new Response(JSON.stringify({ error: { message: (err as Error).message } }), { status: 500 });
+  }
+  // Leads no enricher got to (out of credits, or every request about them
+  // failed) are left for a later run
+  const looked = enriched.filter((r) => r.tried.length);
+  // Verify each address once before anyone may email it
+  const verifier = emailVerifierFromEnv();
+  const results = [];
   try {
-    if (featureFlags.includes('mock_enrich') || !apolloApiKey) {
-      enriched = mockEnrich(payload.leads);
-    } else {
-      enriched = await callApollo(payload.leads);
+    for (const { lead, status, fields, tried, errors } of looked) {
+      const email = fields.email?.value || null;
+      let verification: EmailVerification | null = null;
+      if (email && !mockMode) verification = await verifier.verify(email);
+      const emailStatus = email ? verification?.status || 'unverified' : null;
+      const contactable = isContactable(emailStatus, fields.email?.confidence);
+      const resolved = await resolveCandidate(supabase, payload.role_id, {
+        name: lead.name,
+        current_title: lead.title || fields.title?.value || '',
+        company: lead.company || '',
+        location: lead.location || fields.location?.value || '',
+        public_url: lead.public_url || '',
+        linkedin: fields.linkedin?.value || '',
+        email,
+        email_status: emailStatus,
+        email_checked_at: verification?.checked_at || null,
+        contactable,
+        enrichment: { match_status: status, fields, tried, errors, verification, enriched_at: new Date().toISOString() },
+        // Leads from xray_search say which site they came from
+        source: lead.source ? 'xray' : 'apollo',
+        // resume_url, summary and scores will be filled after screening
+        status: 'sourced',
+      }, 'apollo_enrich');
+      results.push({
+        ...lead,
+        email,
+        linkedin: fields.linkedin?.value || null,
+        company_domain: fields.company_domain?.value || null,
+        match_status: status,
+        fields,
+        email_status: emailStatus,
+        contactable,
+        candidate_id: resolved.candidate.id,
+        merged: resolved.merged,
+        also_in_roles: resolved.also_in_roles,
+      });
     }
   } catch (err) {
     return new Response(JSON.stringify({ error: { message: (err as Error).message } }), { status: 500 });
   }
-  // Insert enriched leads into candidates
-  const inserts = enriched.map((lead) => ({
-    role_id: payload.role_id,
-    name: lead.name,
-    company: lead.company || '',
-    location: lead.location || '',
-    public_url: lead.public_url || '',
-    linkedin: lead.linkedin || '',
-    // resume_url, summary and scores will be filled after screening
-    status: 'sourced',
-  }));
-  await supabase.from('candidates').insert(inserts);
-  return new Response(JSON.stringify(enriched), { headers: { 'Content-Type': 'application/json' }, status: 200 });
-});
\ No newline at end of file
+  return new Response(JSON.stringify(results), { headers: { 'Content-Type': 'application/json' }, status: 200 });
+}));
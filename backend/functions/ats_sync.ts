@@ -0,0 +1,148 @@
+// ats_sync.ts – scheduled Supabase edge function to sync candidates with ATSs
+//
+// Intended to run every few minutes with the service-role key.  For each
+// active ATS connection (_shared/ats.ts) it queues an `ats_push` job for
+// every candidate of a mapped role (`roles.ats_job_id`) that has reached one
+// of the connection’s push statuses and is not in the ATS yet; job_worker
+// creates the prospect with the screening note, mapped fields and resume, and
+// retries when the ATS is down.  It then pulls the applications that changed
+// on each mapped job since the last sync and moves the linked candidates to
+// the status their stage maps to, rejections and hires included.  Moves the
+// state machine refuses (backward stages) are counted but not made.
+//
+// The scheduler covers every connection; an owner or recruiter may sync their
+// own org by passing `org_id`.
+
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { requireInternal, requireOrg, withAuth } from './_shared/auth.ts';
+import { AtsConnection, connectorFor, DEFAULT_PUSH_STATUSES, pullStages } from './_shared/ats.ts';
+import { enqueueJob } from './_shared/jobs.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
+const supabase = createClient(supabaseUrl, supabaseKey, { auth: { autoRefreshToken: false, persistSession: false } });
+
+const PAGE_SIZE = 1000;
+const ID_CHUNK = 200;
+
+interface SyncRequest {
+  org_id?: string;
+}
+
+interface ConnectionSummary {
+  connection_id: string;
+  org_id: string;
+  provider: string;
+  push_queued: number;
+  jobs_synced: number;
+  applications: number;
+  moved: number;
+  refused: number;
+  errors: string[];
+}
+
+async function mappedRoles(orgId: string): Promise<{ id: string; ats_job_id: string }[]> {
+  const { data, error } = await supabase.from('roles').select('id, ats_job_id').eq('org_id', orgId).not('ats_job_id', 'is', null);
+  if (error) throw new Error(`roles: ${error.message}`);
+  return data || [];
+}
+
+// Candidates of the mapped roles in a push status without a link yet
+async function unpushed(connection: AtsConnection, roleIds: string[]): Promise<string[]> {
+  const statuses = connection.push_statuses?.length ? connection.push_statuses : DEFAULT_PUSH_STATUSES;
+  const ids: string[] = [];
+  for (let offset = 0;; offset += PAGE_SIZE) {
+    const { data: rows, error } = await supabase
+      .from('candidates')
+      .select('id')
+      .in('role_id', roleIds)
+      .in('status', statuses)
+      .order('created_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw new Error(`candidates: ${error.message}`);
+    ids.push(...(rows || []).map((r: any) => r.id));
+    if (!rows || rows.length < PAGE_SIZE) break;
+  }
+  const linked = new Set<string>();
+  for (let i = 0; i < ids.length; i += ID_CHUNK) {
+    const { data: links, error } = await supabase
+      .from('ats_links')
+      .select('candidate_id')
+      .eq('connection_id', connection.id)
+      .not('ats_candidate_id', 'is', null)
+      .in('candidate_id', ids.slice(i, i + ID_CHUNK));
+    if (error) throw new Error(`ats_links: ${error.message}`);
+    for (const link of links || []) linked.add(link.candidate_id);
+  }
+  return ids.filter((id) => !linked.has(id));
+}
+
+async function syncConnection(connection: AtsConnection): Promise<ConnectionSummary> {
+  const summary: ConnectionSummary = {
+    connection_id: connection.id,
+    org_id: connection.org_id,
+    provider: connection.provider,
+    push_queued: 0,
+    jobs_synced: 0,
+    applications: 0,
+    moved: 0,
+    refused: 0,
+    errors: [],
+  };
+  const startedAt = new Date().toISOString();
+  try {
+    const roles = await mappedRoles(connection.org_id);
+    if (!roles.length) return summary;
+    for (const candidateId of await unpushed(connection, roles.map((r) => r.id))) {
+      const { created } = await enqueueJob(supabase, 'ats_push', { connection_id: connection.id, candidate_id: candidateId }, {
+        key: `${connection.id}:${candidateId}`,
+        orgId: connection.org_id,
+      });
+      if (created) summary.push_queued++;
+    }
+    const connector = connectorFor(connection);
+    let complete = true;
+    for (const jobId of new Set(roles.map((r) => r.ats_job_id))) {
+      try {
+        const pulled = await pullStages(supabase, connection, connector, jobId, connection.synced_at);
+        summary.jobs_synced++;
+        summary.applications += pulled.applications;
+        summary.moved += pulled.moved;
+        summary.refused += pulled.refused;
+      } catch (err) {
+        complete = false;
+        summary.errors.push(`${jobId}: ${(err as Error).message}`);
+      }
+    }
+    // A job that failed is asked again from the same point next time
+    if (complete) await supabase.from('ats_connections').update({ synced_at: startedAt }).eq('id', connection.id);
+  } catch (err) {
+    summary.errors.push((err as Error).message);
+  }
+  return summary;
+}
+
+serve(withAuth(supabase, async (req, caller) => {
+  let payload: SyncRequest = {};
+  try {
+    const text = await req.text();
+    if (text) payload = JSON.parse(text);
+  } catch (_e) {
+    return new Response(JSON.stringify({ error: { message: 'Invalid JSON' } }), { status: 400 });
+  }
+  if (payload.org_id) {
+    requireOrg(caller, payload.org_id, 'write');
+  } else {
+    requireInternal(caller);
+  }
+  let query = supabase.from('ats_connections').select('*').eq('active', true);
+  if (payload.org_id) query = query.eq('org_id', payload.org_id);
+  const { data: connections, error } = await query;
+  if (error) return new Response(JSON.stringify({ error: { message: error.message } }), { status: 500 });
+  const summaries: ConnectionSummary[] = [];
+  for (const connection of (connections || []) as AtsConnection[]) {
+    summaries.push(await syncConnection(connection));
+  }
+  return new Response(JSON.stringify({ success: true, connections: summaries }), { headers: { 'Content-Type': 'application/json' }, status: 200 });
+}));
@@ -0,0 +1,211 @@
+// bulk_screen.ts – Supabase edge function to screen many resumes for a role
+//
+//   action 'create'  starts a batch from `paths` (storage paths of PDF, DOCX
+//                    or text resumes) or `zip_path` (a zip of them, unpacked
+//                    under `<role_id>/batches/<batch_id>/`), at most 500 files
+//   action 'status'  returns the batch’s progress (queued, running, done,
+//                    skipped, failed) and, once it has finished, the screened
+//                    candidates ranked by fit score and the files that failed
+//   action 'retry'   queues the failed files again
+//   action 'rerun'   queues every file again; files screened before under
+//                    the current prompt versions are skipped
+//
+// The screening itself runs in the background from the job queue, a few
+// files at a time, and survives failures (_shared/screening_batches.ts).
+// Starting, retrying and re-running a batch need write access to the role;
+// any member may follow it, though clients get the results without emails.
+// As with ingest_resume, signed-in callers can only use files under
+// `<role_id>/` in the `resumes` bucket.
+
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { unzipSync } from 'https://esm.sh/fflate@0.8.2';
+import { AuthError, Caller, requireOrg, requireRole, withAuth } from './_shared/auth.ts';
+import { detectFormat, ResumeFormat } from './_shared/resume.ts';
+import {
+  BatchProgress,
+  batchProgress,
+  MAX_BATCH_FILES,
+  queueBatchRun,
+  rankedResults,
+  ScreeningBatch,
+} from './_shared/screening_batches.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
+const supabase = createClient(supabaseUrl, supabaseKey, { auth: { autoRefreshToken: false, persistSession: false } });
+
+// Entries are sized from the zip’s own headers before anything is inflated
+const MAX_ENTRY_BYTES = 10 * 1024 * 1024;
+const MAX_UNZIPPED_BYTES = 100 * 1024 * 1024;
+
+const CONTENT_TYPES: Record<ResumeFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  txt: 'text/plain',
+};
+
+interface BulkScreenRequest {
+  action: 'create' | 'status' | 'retry' | 'rerun';
+  role_id?: string;
+  batch_id?: string;
+  paths?: string[];
+  zip_path?: string;
+  bucket?: string;
+}
+
+// A file to screen: where it is stored and the name it was uploaded as
+interface BatchFile {
+  path: string;
+  filename: string;
+}
+
+function json(body: unknown): Response {
+  return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' }, status: 200 });
+}
+
+function checkPath(caller: Caller, roleId: string, bucket: string, path: string) {
+  if (!caller.internal && (bucket !== 'resumes' || !path.startsWith(`${roleId}/`) || path.includes('..'))) {
+    throw new AuthError(`Resumes for this role must be under resumes/${roleId}/`, 403);
+  }
+}
+
+function basename(path: string): string {
+  return path.split('/').pop() || path;
+}
+
+// Unpack the resumes in a zip into the role’s folder; folders, macOS
+// metadata, other files and resumes over MAX_ENTRY_BYTES are left out, and
+// only the first MAX_BATCH_FILES resumes are inflated
+async function unpackZip(bucket: string, zipPath: string, roleId: string, batchId: string): Promise<BatchFile[]> {
+  const { data: file, error } = await supabase.storage.from(bucket).download(zipPath);
+  if (error || !file) throw new Error(`Could not download ${bucket}/${zipPath}`);
+  let accepted = 0;
+  let total = 0;
+  const entries = unzipSync(new Uint8Array(await file.arrayBuffer()), {
+    filter: (entry) => {
+      if (entry.name.endsWith('/') || entry.name.startsWith('__MACOSX/') || basename(entry.name).startsWith('.') || !detectFormat(entry.name)) return false;
+      if (entry.originalSize > MAX_ENTRY_BYTES || accepted >= MAX_BATCH_FILES) return false;
+      total += entry.originalSize;
+      if (total > MAX_UNZIPPED_BYTES) throw new Error(`The zip unpacks to more than ${MAX_UNZIPPED_BYTES / 1024 / 1024} MB of resumes`);
+      accepted++;
+      return true;
+    },
+  });
+  const files: BatchFile[] = [];
+  for (const [name, bytes] of Object.entries(entries)) {
+    const filename = basename(name);
+    // Numbered, as files in different folders of the zip may share a name
+    const path = `${roleId}/batches/${batchId}/${files.length + 1}-${filename.replace(/[^\w.-]+/g, '_')}`;
+    const { error: uploadError } = await supabase.storage
+      .from(bucket)
+      .upload(path, bytes, { contentType: CONTENT_TYPES[detectFormat(name) as ResumeFormat], upsert: true });
+    if (uploadError) throw new Error(`storage ${bucket}: ${uploadError.message}`);
+    files.push({ path, filename });
+  }
+  return files;
+}
+
+async function loadBatch(batchId: string): Promise<ScreeningBatch> {
+  const { data, error } = await supabase.from('screening_batches').select('*').eq('id', batchId).maybeSingle();
+  if (error) throw new Error(`screening_batches: ${error.message}`);
+  if (!data) throw new AuthError('Screening batch not found', 404);
+  return data as ScreeningBatch;
+}
+
+async function createBatch(caller: Caller, payload: BulkScreenRequest): Promise<Response> {
+  if (!payload.role_id || (!payload.paths?.length && !payload.zip_path)) {
+    return new Response(JSON.stringify({ error: { message: 'role_id and paths or zip_path are required' } }), { status: 400 });
+  }
+  const role = await requireRole(supabase, caller, payload.role_id, 'write');
+  const bucket = payload.bucket || 'resumes';
+  const paths = [...new Set(payload.paths || [])];
+  for (const path of payload.zip_path ? [payload.zip_path] : paths) checkPath(caller, role.id, bucket, path);
+  if (paths.length > MAX_BATCH_FILES) {
+    return new Response(JSON.stringify({ error: { message: `A batch holds at most ${MAX_BATCH_FILES} files` } }), { status: 400 });
+  }
+  const unsupported = paths.filter((path) => !detectFormat(path));
+  if (unsupported.length) {
+    return new Response(JSON.stringify({ error: { message: `Only PDF, DOCX and plain text resumes are supported: ${unsupported.join(', ')}` } }), { status: 415 });
+  }
+  const { data: batch, error } = await supabase
+    .from('screening_batches')
+    .insert({ org_id: role.org_id, role_id: role.id, created_by: caller.user_id, source: payload.zip_path ? `zip:${bucket}/${payload.zip_path}` : 'paths' })
+    .select('*')
+    .single();
+  if (error) throw new Error(`screening_batches: ${error.message}`);
+  let files: BatchFile[];
+  try {
+    files = payload.zip_path ? await unpackZip(bucket, payload.zip_path, role.id, batch.id) : paths.map((path) => ({ path, filename: basename(path) }));
+  } catch (err) {
+    await supabase.from('screening_batches').delete().eq('id', batch.id);
+    return new Response(JSON.stringify({ error: { message: (err as Error).message } }), { status: 422 });
+  }
+  if (!files.length) {
+    await supabase.from('screening_batches').delete().eq('id', batch.id);
+    return new Response(JSON.stringify({ error: { message: 'The zip contains no PDF, DOCX or text resumes' } }), { status: 422 });
+  }
+  const { error: itemError } = await supabase
+    .from('screening_batch_items')
+    .insert(files.map((file) => ({ batch_id: batch.id, role_id: role.id, bucket, path: file.path, filename: file.filename })));
+  if (itemError) throw new Error(`screening_batch_items: ${itemError.message}`);
+  await queueBatchRun(supabase, batch as ScreeningBatch);
+  return json({ batch_id: batch.id, role_id: role.id, status: 'running', progress: await batchProgress(supabase, batch.id) });
+}
+
+async function requeue(batch: ScreeningBatch, statuses: string[]): Promise<BatchProgress> {
+  const { error } = await supabase
+    .from('screening_batch_items')
+    .update({ status: 'queued', attempts: 0, error: null, started_at: null, finished_at: null })
+    .eq('batch_id', batch.id)
+    .in('status', statuses);
+  if (error) throw new Error(`screening_batch_items: ${error.message}`);
+  await queueBatchRun(supabase, batch);
+  return await batchProgress(supabase, batch.id);
+}
+
+serve(withAuth(supabase, async (req, caller) => {
+  if (req.method !== 'POST') return new Response(JSON.stringify({ error: { message: 'Method not allowed' } }), { status: 405 });
+  let payload: BulkScreenRequest;
+  try {
+    payload = await req.json();
+  } catch (_e) {
+    return new Response(JSON.stringify({ error: { message: 'Invalid JSON' } }), { status: 400 });
+  }
+  if (!['create', 'status', 'retry', 'rerun'].includes(payload.action)) {
+    return new Response(JSON.stringify({ error: { message: "action must be 'create', 'status', 'retry' or 'rerun'" } }), { status: 400 });
+  }
+  try {
+    if (payload.action === 'create') return await createBatch(caller, payload);
+    if (!payload.batch_id) return new Response(JSON.stringify({ error: { message: 'batch_id is required' } }), { status: 400 });
+    const batch = await loadBatch(payload.batch_id);
+    if (payload.action === 'status') {
+      await requireRole(supabase, caller, batch.role_id, 'read');
+      const contact = requireOrg(caller, batch.org_id, 'read') !== 'client';
+      const progress = await batchProgress(supabase, batch.id);
+      const finished = batch.status === 'finished';
+      let failed: any[] = [];
+      if (progress.failed) {
+        const { data } = await supabase.from('screening_batch_items').select('filename, path, error, attempts').eq('batch_id', batch.id).eq('status', 'failed');
+        failed = data || [];
+      }
+      return json({
+        batch_id: batch.id,
+        role_id: batch.role_id,
+        status: batch.status,
+        created_at: batch.created_at,
+        finished_at: batch.finished_at,
+        progress,
+        results: finished ? await rankedResults(supabase, batch.id, { contact }) : null,
+        failed,
+      });
+    }
+    await requireRole(supabase, caller, batch.role_id, 'write');
+    // Files being screened right now are left to their run
+    const progress = await requeue(batch, payload.action === 'retry' ? ['failed'] : ['done', 'skipped', 'failed']);
+    return json({ batch_id: batch.id, status: 'running', progress });
+  } catch (err) {
+    if (err instanceof AuthError) throw err;
+    return new Response(JSON.stringify({ error: { message: (err as Error).message } }), { status: 500 });
+  }
+}));
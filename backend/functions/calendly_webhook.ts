@@ -0,0 +1,138 @@
+// calendly_webhook.ts – Supabase edge function to handle Calendly bookings
+//
+// Calendly calls this endpoint with `invitee.created` when a candidate books
+// through their single-use link and `invitee.canceled` when they cancel.  The
+// request must carry a valid `Calendly-Webhook-Signature`; unsigned or
+// replayed requests get a 401 and the raw body is kept in `webhook_requests`.
+// The interview is found through the `utm_content` tracking parameter (the
+// interview id) or, for reschedules and cancellations, the invitee and event
+// URIs stored on it.  A booking moves the candidate to "interviewing" and
+// emits `meeting.scheduled` (_shared/events.ts); a cancellation moves them
+// back to "interested" (_shared/status.ts).  A reschedule arrives as a
+// cancellation flagged `rescheduled` followed by a new booking pointing at
+// the old invitee; it is logged once, as a `rescheduled` engagement, and
+// leaves the candidate interviewing.
+
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { emitCandidateEvent } from './_shared/events.ts';
+import { transitionStatus } from './_shared/status.ts';
+import { verifyCalendly } from './_shared/webhook_adapters.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
+const supabase = createClient(supabaseUrl, supabaseKey, { auth: { autoRefreshToken: false, persistSession: false } });
+
+async function findInterview(payload: any): Promise<any | null> {
+  const interviewId = payload.tracking?.utm_content;
+  if (interviewId && /^[0-9a-f-]{36}$/i.test(interviewId)) {
+    const { data } = await supabase.from('interviews').select('*').eq('id', interviewId).maybeSingle();
+    if (data) return data;
+  }
+  const invitees = [payload.uri, payload.old_invitee].filter(Boolean);
+  if (invitees.length) {
+    const { data } = await supabase.from('interviews').select('*').in('invitee_uri', invitees).limit(1).maybeSingle();
+    if (data) return data;
+  }
+  const eventUri = payload.scheduled_event?.uri;
+  if (!eventUri) return null;
+  const { data } = await supabase.from('interviews').select('*').eq('provider_event_uri', eventUri).limit(1).maybeSingle();
+  return data;
+}
+
+async function handleCreated(interview: any, payload: any): Promise<string> {
+  const rescheduled = !!payload.old_invitee;
+  const event = payload.scheduled_event || {};
+  await supabase.from('interviews').update({
+    status: 'scheduled',
+    start_at: event.start_time || null,
+    end_at: event.end_time || null,
+    join_url: event.location?.join_url || null,
+    provider_event_uri: event.uri || null,
+    invitee_uri: payload.uri || null,
+    sequence: rescheduled ? (interview.sequence || 0) + 1 : interview.sequence || 0,
+    updated_at: new Date().toISOString(),
+  }).eq('id', interview.id);
+  const transition = await transitionStatus(supabase, interview.candidate_id, 'interviewing', {
+    actor: 'webhook:calendly',
+    reason: rescheduled ? 'interview rescheduled' : 'interview booked',
+    source_event: `calendly:${payload.uri || 'invitee.created'}`,
+  });
+  await supabase.from('engagements').insert({
+    candidate_id: interview.candidate_id,
+    event: rescheduled ? 'rescheduled' : 'scheduled',
+    payload: {
+      provider: 'calendly',
+      interview_id: interview.id,
+      start: event.start_time,
+      end: event.end_time,
+      previous_start: rescheduled ? interview.start_at : undefined,
+      join_url: event.location?.join_url,
+    },
+  });
+  await emitCandidateEvent(supabase, 'meeting.scheduled', interview.candidate_id, {
+    interview: { id: interview.id, provider: 'calendly', start: event.start_time || null, end: event.end_time || null, join_url: event.location?.join_url || null, rescheduled },
+  }, { key: `calendly:${payload.uri || interview.id}` });
+  // The booking is kept even when the candidate has since been rejected or hired
+  if (transition.refused) return `${rescheduled ? 'rescheduled' : 'scheduled'}; status kept: ${transition.refused}`;
+  return rescheduled ? 'rescheduled' : 'scheduled';
+}
+
+async function handleCanceled(interview: any, payload: any): Promise<string> {
+  // The booking that replaces it is handled by the matching invitee.created
+  if (payload.rescheduled) return 'reschedule pending';
+  await supabase.from('interviews').update({ status: 'canceled', updated_at: new Date().toISOString() }).eq('id', interview.id);
+  // Only an interviewing candidate goes back; offers and rejections stand
+  await transitionStatus(supabase, interview.candidate_id, 'interested', {
+    actor: 'webhook:calendly',
+    reason: payload.cancellation?.reason || 'interview canceled',
+    source_event: `calendly:${payload.uri || 'invitee.canceled'}`,
+  });
+  await supabase.from('engagements').insert({
+    candidate_id: interview.candidate_id,
+    event: 'canceled',
+    payload: {
+      provider: 'calendly',
+      interview_id: interview.id,
+      reason: payload.cancellation?.reason || null,
+      canceled_by: payload.cancellation?.canceler_type || null,
+    },
+  });
+  return 'canceled';
+}
+
+serve(async (req) => {
+  if (req.method !== 'POST') return new Response(JSON.stringify({ error: { message: 'Method not allowed' } }), { status: 405 });
+  const rawBody = await req.text();
+  const verification = await verifyCalendly(req, rawBody);
+  if (!verification.ok) {
+    return new Response(JSON.stringify({ error: { message: verification.reason || 'Invalid signature' } }), { status: 401 });
+  }
+  let body: any;
+  try {
+    body = JSON.parse(rawBody);
+  } catch (_e) {
+    return new Response(JSON.stringify({ error: { message: 'Invalid JSON' } }), { status: 400 });
+  }
+  const { error: logError } = await supabase
+    .from('webhook_requests')
+    .insert({ provider: 'calendly', nonce: verification.nonce, raw_body: rawBody });
+  if (logError) {
+    const replayed = logError.code === '23505';
+    return new Response(
+      JSON.stringify({ error: { message: replayed ? 'Replayed request' : logError.message } }),
+      { status: replayed ? 401 : 500 },
+    );
+  }
+  const payload = body.payload || {};
+  let result = 'ignored';
+  if (body.event === 'invitee.created' || body.event === 'invitee.canceled') {
+    const interview = await findInterview(payload);
+    if (!interview) {
+      result = 'interview not found';
+    } else {
+      result = body.event === 'invitee.created' ? await handleCreated(interview, payload) : await handleCanceled(interview, payload);
+    }
+  }
+  return new Response(JSON.stringify({ success: true, event: body.event, result }), { headers: { 'Content-Type': 'application/json' }, status: 200 });
+});
@@ -0,0 +1,157 @@
+// data_subject.ts – Supabase edge function for GDPR access and erasure requests
+//
+// Finds a person across the org’s pipelines by email and/or LinkedIn profile
+// (or by one of their candidate ids) using the identity rules in
+// _shared/identity.ts; fuzzy name matches are deliberately not used.
+//
+//   action 'export'  returns every candidate row with its outreach,
+//                    engagements, interviews and status history as JSON
+//   action 'erase'   deletes the candidate rows (outreach, engagements,
+//                    interviews and status history cascade), their uploaded
+//                    resumes and the outbound webhook deliveries about them,
+//                    blanks the address out of raw provider webhook bodies
+//                    (which belong to no org, so they are kept), clears
+//                    queued and logged job payloads naming them, then
+//                    suppresses the address so it is never emailed again,
+//                    even if the person is sourced anew
+//
+// Exports are open to owners and recruiters of the org; only owners may erase.
+// Every request is logged in `data_subject_requests` with a hash of the email,
+// not the email itself.
+
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { AuthError, requireCandidate, requireOrg, withAuth } from './_shared/auth.ts';
+import { emailHash, suppress } from './_shared/compliance.ts';
+import { findOrgMatches, normaliseEmail } from './_shared/identity.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
+const supabase = createClient(supabaseUrl, supabaseKey, { auth: { autoRefreshToken: false, persistSession: false } });
+
+interface DataSubjectRequest {
+  action: 'export' | 'erase';
+  org_id?: string;
+  email?: string;
+  linkedin?: string;
+  candidate_id?: string;
+}
+
+async function relatedRows(table: string, candidateIds: string[]): Promise<any[]> {
+  const { data, error } = await supabase.from(table).select('*').in('candidate_id', candidateIds);
+  if (error) throw new Error(`${table}: ${error.message}`);
+  return data || [];
+}
+
+async function exportSubject(candidates: any[]) {
+  const ids = candidates.map((c) => c.id);
+  const [outreach, engagements, interviews, history] = await Promise.all([
+    relatedRows('outreach', ids),
+    relatedRows('engagements', ids),
+    relatedRows('interviews', ids),
+    relatedRows('candidate_status_history', ids),
+  ]);
+  return {
+    candidates: candidates.map(({ roles: _roles, ...c }) => ({
+      ...c,
+      outreach: outreach.filter((o) => o.candidate_id === c.id),
+      engagements: engagements.filter((e) => e.candidate_id === c.id),
+      interviews: interviews.filter((i) => i.candidate_id === c.id),
+      status_history: history.filter((h) => h.candidate_id === c.id),
+    })),
+  };
+}
+
+async function eraseSubject(orgId: string, candidates: any[], emails: string[]) {
+  // Uploaded resumes are stored as `<bucket>/<path>`
+  const files: Record<string, string[]> = {};
+  for (const c of candidates) {
+    if (!c.resume_url) continue;
+    const [bucket, ...rest] = String(c.resume_url).split('/');
+    (files[bucket] ||= []).push(rest.join('/'));
+  }
+  for (const [bucket, paths] of Object.entries(files)) {
+    const { error } = await supabase.storage.from(bucket).remove(paths);
+    if (error) throw new Error(`storage ${bucket}: ${error.message}`);
+  }
+  if (candidates.length) {
+    // Bulk screening items name the uploaded file
+    const { error: itemError } = await supabase.from('screening_batch_items').delete().in('candidate_id', candidates.map((c) => c.id));
+    if (itemError) throw new Error(`screening_batch_items: ${itemError.message}`);
+    const { error } = await supabase.from('candidates').delete().in('id', candidates.map((c) => c.id));
+    if (error) throw new Error(`candidates: ${error.message}`);
+  }
+  // Outbound deliveries and job payloads copy candidate details
+  const terms = emails.map((email) => `%${email.replace(/[\\%_]/g, '\\$&')}%`);
+  const { data: scrubbed, error: scrubError } = await supabase.rpc('scrub_subject', {
+    scrub_org: orgId,
+    candidate_ids: candidates.map((c) => c.id),
+    terms,
+  });
+  if (scrubError) throw new Error(`scrub_subject: ${scrubError.message}`);
+  const { data: webhookRequests, error: redactError } = await supabase.rpc('redact_webhook_requests', { emails });
+  if (redactError) throw new Error(`redact_webhook_requests: ${redactError.message}`);
+  for (const email of emails) await suppress(supabase, orgId, { email, reason: 'erased', source: 'data_subject' });
+  return {
+    candidates: candidates.length,
+    resumes: Object.values(files).flat().length,
+    webhook_requests: webhookRequests ?? 0,
+    webhook_deliveries: scrubbed?.[0]?.deliveries ?? 0,
+    jobs: scrubbed?.[0]?.jobs ?? 0,
+  };
+}
+
+serve(withAuth(supabase, async (req, caller) => {
+  if (req.method !== 'POST') return new Response(JSON.stringify({ error: { message: 'Method not allowed' } }), { status: 405 });
+  let body: DataSubjectRequest;
+  try {
+    body = await req.json();
+  } catch (_e) {
+    return new Response(JSON.stringify({ error: { message: 'Invalid JSON' } }), { status: 400 });
+  }
+  if (body.action !== 'export' && body.action !== 'erase') {
+    return new Response(JSON.stringify({ error: { message: "action must be 'export' or 'erase'" } }), { status: 400 });
+  }
+  let orgId = body.org_id || null;
+  let email = normaliseEmail(body.email);
+  let linkedin = body.linkedin || null;
+  if (body.candidate_id) {
+    const { candidate, role } = await requireCandidate(supabase, caller, body.candidate_id, 'write');
+    orgId = role.org_id;
+    email ||= normaliseEmail(candidate.email);
+    linkedin ||= candidate.linkedin || null;
+  }
+  if (!orgId) return new Response(JSON.stringify({ error: { message: 'org_id or candidate_id is required' } }), { status: 400 });
+  if (!email && !linkedin) {
+    return new Response(JSON.stringify({ error: { message: 'email, linkedin or a candidate with either is required' } }), { status: 400 });
+  }
+  const accessRole = requireOrg(caller, orgId, 'write');
+  if (body.action === 'erase' && accessRole && accessRole !== 'owner') throw new AuthError('Only owners can erase personal data', 403);
+
+  let candidates: any[];
+  try {
+    const matches = await findOrgMatches(supabase, orgId, { email, linkedin });
+    candidates = matches.filter((m) => m.via !== 'name_company').map((m) => m.candidate);
+  } catch (err) {
+    return new Response(JSON.stringify({ error: { message: (err as Error).message } }), { status: 500 });
+  }
+  // Addresses found on the matched rows are erased and suppressed as well
+  const emails = [...new Set([body.email, ...candidates.map((c) => c.email)].filter(Boolean).map((e) => String(e).trim().toLowerCase()))];
+  let result: Record<string, unknown>;
+  try {
+    result = body.action === 'export' ? await exportSubject(candidates) : { erased: await eraseSubject(orgId, candidates, emails) };
+  } catch (err) {
+    return new Response(JSON.stringify({ error: { message: (err as Error).message } }), { status: 500 });
+  }
+  await supabase.from('data_subject_requests').insert({
+    org_id: orgId,
+    action: body.action,
+    email_hash: email ? await emailHash(email) : null,
+    requested_by: caller.user_id,
+    matched: candidates.length,
+  });
+  return new Response(JSON.stringify({ action: body.action, matched: candidates.length, ...result }), {
+    headers: { 'Content-Type': 'application/json' },
+    status: 200,
+  });
+}));
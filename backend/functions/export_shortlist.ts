@@ -1,35 +1,106 @@
 // export_shortlist.ts – Supabase edge function to export shortlisted candidates
 //
-// Accepts a role ID and format (csv or pdf) and generates a file in the
-// `exports` storage bucket containing the interested/interviewing candidates.
-// Returns a signed URL for download.  In this stub we generate a CSV string
-// on the fly and return a data URI instead of uploading to storage.
+// Accepts a role ID and a format (csv, xlsx, pdf or json) and renders the
+// role’s shortlist (_shared/export.ts): interested, screened and interviewing
+// candidates by default, or the `statuses` given, ordered by fit score.  The
+// tabular formats include the chosen `columns`; the PDF is a branded report
+// with each candidate’s one-liner, score breakdown, top reasons and interview
+// focus.  The file is written to the `exports` storage bucket, recorded in
+// `shortlist_exports`, and returned as a signed URL that expires after
+// `expires_in` seconds (EXPORT_URL_TTL_SECONDS by default).  Any member of
+// the role’s org may export, clients included, but clients cannot export the
+// candidates’ contact details (email, LinkedIn, profile URL).
 
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { AuthError, requireOrg, requireRole, withAuth } from './_shared/auth.ts';
+import { COLUMNS, CONTENT_TYPES, DEFAULT_COLUMNS, ExportColumn, ExportFormat, PII_COLUMNS, toCsv, toJson, toPdf, toXlsx } from './_shared/export.ts';
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
 const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
+const defaultTtl = parseInt(Deno.env.get('EXPORT_URL_TTL_SECONDS') || '3600', 10);
 const supabase = createClient(supabaseUrl, supabaseKey, { auth: { autoRefreshToken: false, persistSession: false } });
 
-serve(async (req) => {
+const DEFAULT_STATUSES = ['interested', 'screened', 'interviewing'];
+
+interface ExportRequest {
+  role_id: string;
+  format?: ExportFormat;
+  columns?: ExportColumn[];
+  statuses?: string[];
+  expires_in?: number;
+}
+
+serve(withAuth(supabase, async (req, caller) => {
   if (req.method !== 'POST') return new Response(JSON.stringify({ error: { message: 'Method not allowed' } }), { status: 405 });
-  let body: any;
+  let body: ExportRequest;
   try { body = await req.json(); } catch { return new Response(JSON.stringify({ error: { message: 'Invalid JSON' } }), { status: 400 }); }
   const roleId = body.role_id;
   const format = body.format || 'csv';
   if (!roleId) return new Response(JSON.stringify({ error: { message: 'role_id is required' } }), { status: 400 });
-  // Fetch interested/interviewing candidates
-  const { data: candidates } = await supabase.from('candidates').select('*').eq('role_id', roleId).in('status', ['interested','screened','interviewing']);
+  if (!Object.hasOwn(CONTENT_TYPES, format)) {
+    return new Response(JSON.stringify({ error: { message: `Unsupported format ${format}` } }), { status: 400 });
+  }
+  const columns = body.columns?.length ? body.columns : DEFAULT_COLUMNS;
+  const unknown = columns.filter((c) => !Object.hasOwn(COLUMNS, c));
+  if (unknown.length) {
+    return new Response(JSON.stringify({ error: { message: `Unknown columns: ${unknown.join(', ')}` } }), { status: 400 });
+  }
+  const statuses = body.statuses?.length ? body.statuses : DEFAULT_STATUSES;
+  const expiresIn = Math.min(Math.max(body.expires_in || defaultTtl, 60), 7 * 24 * 3600);
+
+  const { org_id: orgId } = await requireRole(supabase, caller, roleId, 'read');
+  const pii = columns.filter((c) => PII_COLUMNS.includes(c));
+  if (pii.length && requireOrg(caller, orgId, 'read') === 'client') {
+    throw new AuthError(`Clients cannot export contact details: ${pii.join(', ')}`, 403);
+  }
+  const { data: role } = await supabase.from('roles').select('id, title, org_id, organizations(name)').eq('id', roleId).single();
+  const { data: candidates, error } = await supabase
+    .from('candidates')
+    .select('*')
+    .eq('role_id', roleId)
+    .in('status', statuses)
+    .order('fit_score', { ascending: false, nullsFirst: false });
+  if (error) return new Response(JSON.stringify({ error: { message: error.message } }), { status: 500 });
   const rows = candidates || [];
-  let output: string;
-  if (format === 'csv') {
-    const header = 'name,company,title,location,fit_score';
-    const lines = rows.map((c) => `${c.name},${c.company},${c.current_title},${c.location},${c.fit_score}`);
-    output = [header, ...lines].join('\n');
-    const dataUri = `data:text/csv;base64,${btoa(output)}`;
-    return new Response(JSON.stringify({ url: dataUri }), { headers: { 'Content-Type': 'application/json' }, status: 200 });
+
+  let file: Uint8Array;
+  try {
+    switch (format) {
+      case 'xlsx':
+        file = toXlsx(rows, columns);
+        break;
+      case 'pdf':
+        file = await toPdf({ title: role.title, org_name: role.organizations?.name }, rows);
+        break;
+      case 'json':
+        file = toJson(rows, columns);
+        break;
+      default:
+        file = toCsv(rows, columns);
+    }
+  } catch (err) {
+    return new Response(JSON.stringify({ error: { message: `Could not render ${format}: ${(err as Error).message}` } }), { status: 500 });
   }
-  // PDF not implemented; return CSV instead
-  return new Response(JSON.stringify({ url: '' }), { headers: { 'Content-Type': 'application/json' }, status: 200 });
-});
\ No newline at end of file
+
+  const path = `${roleId}/shortlist-${new Date().toISOString().replace(/[:.]/g, '-')}.${format}`;
+  const { error: uploadError } = await supabase.storage.from('exports').upload(path, file, { contentType: CONTENT_TYPES[format] });
+  if (uploadError) return new Response(JSON.stringify({ error: { message: uploadError.message } }), { status: 500 });
+  const { data: signed, error: signError } = await supabase.storage.from('exports').createSignedUrl(path, expiresIn);
+  if (signError || !signed) return new Response(JSON.stringify({ error: { message: signError?.message || 'Could not sign URL' } }), { status: 500 });
+  const expiresAt = new Date(Date.now() + expiresIn * 1000).toISOString();
+  await supabase.from('shortlist_exports').insert({
+    role_id: roleId,
+    format,
+    path,
+    columns: format === 'pdf' ? null : columns,
+    statuses,
+    row_count: rows.length,
+    signed_url: signed.signedUrl,
+    expires_at: expiresAt,
+  });
+  return new Response(JSON.stringify({ url: signed.signedUrl, path, format, count: rows.length, expires_at: expiresAt }), {
+    headers: { 'Content-Type': 'application/json' },
+    status: 200,
+  });
+}));
@@ -1,17 +1,34 @@
 // generate_outreach.ts – Supabase edge function to craft personalised outreach
 //
-// Given a role ID and candidate ID, this function uses OpenAI to generate a
-// subject line and email body tailored to the candidate and job.  It stores
-// the template in the outreach table meta for later use.  When the
-// `mock_outreach` feature flag is enabled or OPENAI_API_KEY is missing, it
-// returns a simple canned email.
+// Given a role ID and candidate ID, this function drafts a step of the role’s
+// outreach sequence (step 1 unless `step` is given).  Template steps are
+// rendered from `outreach_templates`; other steps use the configured LLM
+// (_shared/llm.ts) to generate a subject line and email body tailored to the
+// candidate and job, validated against `OutreachResponseSchema`.  The subject
+// and body prompts come from the registry (_shared/prompts.ts), which may
+// assign the candidate A/B variants; their refs are kept in `meta.prompt` and
+// on the `sent` engagement so prompt_stats can compare reply rates.  The
+// draft is stored in the meta of the candidate’s active outreach row,
+// enrolling the candidate in the sequence if they have never been in it; a
+// candidate whose sequence was stopped or completed gets a 409.  When the
+// `mock_outreach` feature flag is enabled it returns a simple canned email.
+// Without an LLM the step cannot be drafted (503); once the org’s monthly LLM
+// token quota is used up the step is left undrafted and the response says it
+// was `skipped`, so send_sequence defers the send (_shared/usage.ts).
+// Drafting is limited to owners and recruiters of the candidate’s org.
 
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { requireCandidate, withAuth } from './_shared/auth.ts';
+import { LLMClient, llmClient } from './_shared/llm.ts';
+import { callLLMJson, llmErrorResponse } from './_shared/llm_json.ts';
+import { loadPrompt, promptMessages, renderPrompt } from './_shared/prompts.ts';
+import { OutreachResponseSchema } from './_shared/schemas.ts';
+import { draftStep, loadSequence, nextSendAt, OPEN_OUTREACH_STATUSES } from './_shared/sequences.ts';
+import { OutreachResponse } from './_shared/types.ts';
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
 const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
-const openAiKey   = Deno.env.get('OPENAI_API_KEY') as string;
 const featureFlags = (Deno.env.get('FEATURE_FLAGS') || '').split(',');
 
 const supabase = createClient(supabaseUrl, supabaseKey, { auth: { autoRefreshToken: false, persistSession: false } });
@@ -20,35 +37,29 @@ interface OutreachRequest {
   role_id: string;
   candidate_id: string;
   tone?: string;
+  step?: number;
 }
 
-interface OutreachResponse {
-  subject: string;
-  body: string;
-}
-
-async function callOpenAI(role: any, candidate: any, tone: string): Promise<OutreachResponse> {
-  const jd = role.parsed_json || {};
-  const candName = candidate.name || 'Candidate';
-  const prompt = `You write concise, human outreach for passive candidates. Using the JD and candidate profile, craft subject + 120–160 word email with a single clear CTA link (Calendly). Tone: ${tone || 'professional'}, specific, respectful. Output ONLY JSON with subject, body.\n\nJD: ${JSON.stringify(jd)}\n\nCandidate: ${JSON.stringify(candidate)}`;
-  const resp = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${openAiKey}` },
-    body: JSON.stringify({
-      model: 'gpt-4o',
-      messages: [ { role: 'system', content: 'You are HireLoop outreach agent.' }, { role: 'user', content: prompt } ],
-      max_tokens: 300,
-      temperature: 0.5,
+// The subject and body prompts are A/B tested separately; the candidate keeps
+// the variants they were assigned for every step
+async function callLLM(llm: LLMClient, role: any, candidate: any, tone: string, step: number): Promise<OutreachResponse> {
+  const [subjectPrompt, bodyPrompt] = await Promise.all([
+    loadPrompt(supabase, 'outreach_subject', role.org_id, candidate.id),
+    loadPrompt(supabase, 'outreach_body', role.org_id, candidate.id),
+  ]);
+  const followUp = step > 1 ? ` This is follow-up #${step - 1} to an earlier email: keep it under 80 words and do not repeat the pitch.` : '';
+  const { data } = await callLLMJson({
+    schema: OutreachResponseSchema,
+    messages: promptMessages(bodyPrompt, {
+      tone: tone || 'professional',
+      follow_up: followUp,
+      subject_guidance: renderPrompt(subjectPrompt.template, { step: String(step) }),
+      jd: JSON.stringify(role.parsed_json || {}),
+      candidate: JSON.stringify(candidate),
     }),
+    llm,
   });
-  if (!resp.ok) throw new Error(`OpenAI error ${resp.status}`);
-  const data = await resp.json();
-  const content = data.choices?.[0]?.message?.content?.trim();
-  try {
-    return JSON.parse(content) as OutreachResponse;
-  } catch (_e) {
-    throw new Error('Invalid OpenAI response');
-  }
+  return { ...data, prompt: { subject: subjectPrompt.ref, body: bodyPrompt.ref } };
 }
 
 function mockOutreach(candidateName: string): OutreachResponse {
@@ -58,7 +69,7 @@ function mockOutreach(candidateName: string): OutreachResponse {
   };
 }
 
-serve(async (req) => {
+serve(withAuth(supabase, async (req, caller) => {
   if (req.method !== 'POST') return new Response(JSON.stringify({ error: { message: 'Method not allowed' } }), { status: 405 });
   let payload: OutreachRequest;
   try {
@@ -69,32 +80,68 @@ serve(async (req) => {
   if (!payload.role_id || !payload.candidate_id) {
     return new Response(JSON.stringify({ error: { message: 'role_id and candidate_id are required' } }), { status: 400 });
   }
-  // Fetch role and candidate from DB
-  const { data: role } = await supabase.from('roles').select('*').eq('id', payload.role_id).maybeSingle();
-  const { data: candidate } = await supabase.from('candidates').select('*').eq('id', payload.candidate_id).maybeSingle();
-  if (!role || !candidate) {
-    return new Response(JSON.stringify({ error: { message: 'Role or candidate not found' } }), { status: 404 });
+  const { candidate, role } = await requireCandidate(supabase, caller, payload.candidate_id, 'write');
+  if (role.id !== payload.role_id) {
+    return new Response(JSON.stringify({ error: { message: 'Candidate does not belong to this role' } }), { status: 404 });
+  }
+  const sequence = await loadSequence(supabase, payload.role_id);
+  const stepNumber = payload.step || 1;
+  const step = sequence.steps[stepNumber - 1];
+  if (!step) {
+    return new Response(JSON.stringify({ error: { message: `Sequence has no step ${stepNumber}` } }), { status: 400 });
+  }
+  // A candidate whose sequence was stopped or completed is not enrolled again
+  const { data: rows, error: outreachError } = await supabase
+    .from('outreach')
+    .select('id, step, status')
+    .eq('candidate_id', payload.candidate_id);
+  if (outreachError) return new Response(JSON.stringify({ error: { message: `outreach: ${outreachError.message}` } }), { status: 500 });
+  const existing = (rows || []).find((row: any) => OPEN_OUTREACH_STATUSES.includes(row.status));
+  if (!existing && rows?.length) {
+    return new Response(JSON.stringify({ error: { message: `Candidate’s sequence has ended (${rows[0].status})` } }), { status: 409 });
   }
   let result: OutreachResponse;
   try {
-    if (featureFlags.includes('mock_outreach') || !openAiKey) {
+    const drafted = await draftStep(supabase, step, role, candidate);
+    if (drafted) {
+      result = drafted;
+    } else if (featureFlags.includes('mock_outreach')) {
       result = mockOutreach(candidate.name || 'Candidate');
     } else {
-      result = await callOpenAI(role, candidate, payload.tone || 'professional');
+      const llm = await llmClient(supabase, 'generate_outreach', role.org_id, { max_tokens: 300, temperature: 0.5 });
+      // Real candidates never get the canned email; the skip is already logged
+      if (llm.skipped) {
+        return new Response(JSON.stringify({ success: true, skipped: llm.skipped, step: stepNumber }), {
+          headers: { 'Content-Type': 'application/json' },
+          status: 200,
+        });
+      }
+      if (!llm.available) return new Response(JSON.stringify({ error: { message: 'No LLM is configured to draft this step' } }), { status: 503 });
+      result = await callLLM(llm, role, candidate, payload.tone || 'professional', stepNumber);
     }
   } catch (err) {
-    return new Response(JSON.stringify({ error: { message: (err as Error).message } }), { status: 500 });
+    return llmErrorResponse(err);
+  }
+  // Store the draft on the open outreach row, enrolling the candidate if needed
+  if (existing) {
+    if (existing.step === stepNumber) {
+      const { error } = await supabase.from('outreach').update({ meta: result, template_id: step.template_id || null }).eq('id', existing.id);
+      if (error) return new Response(JSON.stringify({ error: { message: `outreach: ${error.message}` } }), { status: 500 });
+    }
+  } else {
+    const { error } = await supabase.from('outreach').insert({
+      candidate_id: payload.candidate_id,
+      sequence_id: sequence.id,
+      provider: null,
+      thread_id: null,
+      step: stepNumber,
+      template_id: step.template_id || null,
+      last_sent_at: null,
+      next_send_at: nextSendAt(new Date(), step),
+      status: 'active',
+      meta: result,
+    });
+    if (error) return new Response(JSON.stringify({ error: { message: `outreach: ${error.message}` } }), { status: 500 });
   }
-  // Insert into outreach table
-  await supabase.from('outreach').insert({
-    candidate_id: payload.candidate_id,
-    provider: 'apollo',
-    thread_id: null,
-    step: 1,
-    template_id: null,
-    last_sent_at: null,
-    next_send_at: null,
-    meta: result,
-  });
   return new Response(JSON.stringify(result), { headers: { 'Content-Type': 'application/json' }, status: 200 });
-});
\ No newline at end of file
+}));
@@ -0,0 +1,197 @@
+// inbound_email.ts – Supabase edge function to triage candidate replies
+//
+// Receives replies from an inbound-parse webhook (Mailgun routes or SendGrid
+// Inbound Parse, chosen with `?provider=`), verified and logged in
+// `webhook_requests` like ingest_webhook.  The reply is matched to the
+// candidate through the In-Reply-To/References message ids of our outreach,
+// falling back to the sender’s address among the candidates we have
+// emailed, most recently emailed first; the quoted thread is cut off
+// (_shared/replies.ts) and what is left is classified by the LLM, or by
+// keyword rules when no LLM is configured or the `mock_classify_reply` flag
+// is enabled.  Each class has its own action:
+//
+//   interested      status → interested, sequence stopped, scheduling link proposed
+//   not_now         sequence paused for REPLY_SNOOZE_DAYS (90)
+//   not_interested  status → withdrawn, sequence stopped
+//   referral        sequence stopped, referred address kept for the recruiter
+//   out_of_office   next step pushed back by REPLY_OOO_DAYS (7)
+//   unsubscribe     address suppressed, status → withdrawn, sequence stopped
+//
+// Below REPLY_MIN_CONFIDENCE (0.6) nothing is decided automatically: the
+// sequence is paused until a recruiter reviews the reply.  The reply is stored
+// as a `replied` engagement with its classification and confidence, keyed on
+// the Message-ID so a redelivered reply is acknowledged without acting twice,
+// and announced to webhook subscribers as `candidate.replied`
+// (_shared/events.ts).
+
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { suppress } from './_shared/compliance.ts';
+import { recordEngagement } from './_shared/engagements.ts';
+import { emitCandidateEvent } from './_shared/events.ts';
+import { llmClient } from './_shared/llm.ts';
+import { loadPrompt } from './_shared/prompts.ts';
+import { classifyReply, ClassifiedReply, extractReply } from './_shared/replies.ts';
+import { candidateIdForMessage, delaySequences, pauseSequences, stopSequences } from './_shared/sequences.ts';
+import { transitionStatus } from './_shared/status.ts';
+import { InboundEmail, inboundAdapters } from './_shared/webhook_adapters.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
+const featureFlags = (Deno.env.get('FEATURE_FLAGS') || '').split(',');
+const minConfidence = parseFloat(Deno.env.get('REPLY_MIN_CONFIDENCE') || '0.6');
+const snoozeDays = parseInt(Deno.env.get('REPLY_SNOOZE_DAYS') || '90', 10);
+const oooDays = parseInt(Deno.env.get('REPLY_OOO_DAYS') || '7', 10);
+
+const supabase = createClient(supabaseUrl, supabaseKey, { auth: { autoRefreshToken: false, persistSession: false } });
+
+async function resolveCandidate(email: InboundEmail): Promise<any | null> {
+  let candidateId: string | null = null;
+  for (const id of email.in_reply_to) {
+    candidateId = await candidateIdForMessage(supabase, id);
+    if (candidateId) break;
+  }
+  if (!candidateId && email.from) {
+    // Threading headers get lost; only people we have emailed can be replying,
+    // and the org that emailed the sender last wins
+    const { data: sent } = await supabase
+      .from('outreach')
+      .select('candidate_id, candidates!inner(email)')
+      .ilike('candidates.email', email.from.replace(/[\\%_]/g, '\\$&'))
+      .not('last_sent_at', 'is', null)
+      .order('last_sent_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    candidateId = sent?.candidate_id || null;
+  }
+  if (!candidateId) return null;
+  const { data } = await supabase.from('candidates').select('id, email, status, roles(org_id)').eq('id', candidateId).maybeSingle();
+  return data;
+}
+
+function daysFromNow(days: number): Date {
+  return new Date(Date.now() + days * 24 * 3600_000);
+}
+
+// Carry out what the classification asks for and describe it for the engagement
+async function triage(
+  candidate: any,
+  result: ClassifiedReply,
+  provider: string,
+  source: string,
+): Promise<Record<string, unknown>> {
+  const ctx = { actor: `webhook:${provider}`, reason: `reply: ${result.classification}`, source_event: source };
+  if (result.confidence < minConfidence) {
+    await pauseSequences(supabase, candidate.id, 'reply needs review', null);
+    return { action: 'review' };
+  }
+  switch (result.classification) {
+    case 'interested': {
+      await stopSequences(supabase, candidate.id, 'replied');
+      await transitionStatus(supabase, candidate.id, 'interested', ctx);
+      // Propose a time; the recruiter decides whether to send the link
+      const { data, error } = await supabase.functions.invoke('schedule_meeting', { body: { candidate_id: candidate.id } });
+      return { action: 'propose_meeting', meeting_url: error || data?.error ? null : data?.meetingUrl || null };
+    }
+    case 'not_now':
+      await pauseSequences(supabase, candidate.id, 'not now', daysFromNow(snoozeDays));
+      return { action: 'pause', resume_at: daysFromNow(snoozeDays).toISOString() };
+    case 'not_interested':
+      await stopSequences(supabase, candidate.id, 'not interested');
+      await transitionStatus(supabase, candidate.id, 'withdrawn', ctx);
+      return { action: 'stop' };
+    case 'referral':
+      await stopSequences(supabase, candidate.id, 'referral');
+      return { action: 'referral', referral_email: result.referral_email };
+    case 'out_of_office':
+      await delaySequences(supabase, candidate.id, daysFromNow(oooDays));
+      return { action: 'delay' };
+    case 'unsubscribe': {
+      const orgId = (candidate.roles as any)?.org_id;
+      if (orgId) await suppress(supabase, orgId, { email: candidate.email, reason: 'unsubscribed', source });
+      await stopSequences(supabase, candidate.id, 'unsubscribed');
+      await transitionStatus(supabase, candidate.id, 'withdrawn', ctx);
+      return { action: 'suppress' };
+    }
+  }
+}
+
+serve(async (req) => {
+  if (req.method !== 'POST') return new Response(JSON.stringify({ error: { message: 'Method not allowed' } }), { status: 405 });
+  const provider = new URL(req.url).searchParams.get('provider') || '';
+  const adapter = inboundAdapters[provider];
+  if (!adapter) {
+    return new Response(JSON.stringify({ error: { message: `Unknown provider '${provider}'` } }), { status: 400 });
+  }
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch (_e) {
+    return new Response(JSON.stringify({ error: { message: 'Expected a multipart form' } }), { status: 400 });
+  }
+  const verification = await adapter.verify(req, form);
+  if (!verification.ok) {
+    return new Response(JSON.stringify({ error: { message: verification.reason || 'Invalid signature' } }), { status: 401 });
+  }
+  const email = adapter.parse(form);
+  // Attachments are dropped; the text fields are enough to audit the triage
+  const fields: Record<string, string> = {};
+  form.forEach((value, key) => {
+    if (typeof value === 'string') fields[key] = value;
+  });
+  const { data: logged, error: logError } = await supabase
+    .from('webhook_requests')
+    .insert({ provider: `${provider}_inbound`, nonce: verification.nonce, raw_body: JSON.stringify(fields) })
+    .select('id')
+    .single();
+  if (logError) {
+    const replayed = logError.code === '23505';
+    return new Response(
+      JSON.stringify({ error: { message: replayed ? 'Replayed request' : logError.message } }),
+      { status: replayed ? 401 : 500 },
+    );
+  }
+  const candidate = await resolveCandidate(email);
+  // Unknown senders are acknowledged so the provider does not retry
+  if (!candidate) return new Response(JSON.stringify({ success: true, matched: false }), { headers: { 'Content-Type': 'application/json' }, status: 200 });
+
+  const eventKey = email.message_id ? `inbound:${email.message_id}` : null;
+  if (eventKey) {
+    const { data: seen } = await supabase.from('engagements').select('id').eq('event_key', eventKey).maybeSingle();
+    if (seen) {
+      return new Response(JSON.stringify({ success: true, matched: true, duplicate: true }), { headers: { 'Content-Type': 'application/json' }, status: 200 });
+    }
+  }
+  const reply = extractReply(email.text);
+  const orgId = (candidate.roles as any)?.org_id || null;
+  const llm = featureFlags.includes('mock_classify_reply')
+    ? null
+    : await llmClient(supabase, 'classify_reply', orgId, { max_tokens: 200, temperature: 0 });
+  const prompt = llm?.available ? await loadPrompt(supabase, 'classify_reply', orgId, candidate.id) : undefined;
+  const result = await classifyReply(llm, reply, { subject: email.subject, sender: email.from, prompt });
+  const source = `inbound:${email.message_id || logged.id}`;
+  const outcome = await triage(candidate, result, provider, source);
+  await recordEngagement(supabase, {
+    candidate_id: candidate.id,
+    event: 'replied',
+    key: eventKey,
+    classification: result.classification,
+    confidence: result.confidence,
+    payload: {
+      provider,
+      message_id: email.message_id,
+      webhook_request_id: logged.id,
+      from: email.from,
+      subject: email.subject,
+      reply: reply.slice(0, 5000),
+      summary: result.summary,
+      method: result.method,
+      ...outcome,
+    },
+  });
+  await emitCandidateEvent(supabase, 'candidate.replied', candidate.id, {
+    reply: { classification: result.classification, confidence: result.confidence, summary: result.summary, subject: email.subject, ...outcome },
+  }, { key: eventKey });
+  const body = { success: true, matched: true, candidate_id: candidate.id, classification: result.classification, confidence: result.confidence, ...outcome };
+  return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' }, status: 200 });
+});
@@ -0,0 +1,94 @@
+// ingest_resume.ts – Supabase edge function to ingest an uploaded resume
+//
+// Accepts a role ID and the storage path of a PDF or DOCX resume (in the
+// `resumes` bucket unless another bucket is given).  It downloads the file,
+// extracts its text and parses a structured profile: name, contact details,
+// current title and company, location, work history and skills.  The
+// candidate is resolved against the org’s existing candidates, the profile
+// and resume text are stored on the row, and unless `screen` is false the
+// candidate is screened straight away through screen_resume.  Signed-in
+// callers need write access to the role and can only read resumes uploaded
+// under `<role_id>/` in the `resumes` bucket.
+
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { requireRole, withAuth } from './_shared/auth.ts';
+import { resolveCandidate } from './_shared/identity.ts';
+import { detectFormat, extractText, parseProfile } from './_shared/resume.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
+
+const supabase = createClient(supabaseUrl, supabaseKey, { auth: { autoRefreshToken: false, persistSession: false } });
+
+interface IngestResumeRequest {
+  role_id: string;
+  path: string;
+  bucket?: string;
+  screen?: boolean;
+}
+
+serve(withAuth(supabase, async (req, caller) => {
+  if (req.method !== 'POST') return new Response(JSON.stringify({ error: { message: 'Method not allowed' } }), { status: 405 });
+  let payload: IngestResumeRequest;
+  try {
+    payload = await req.json();
+  } catch (_e) {
+    return new Response(JSON.stringify({ error: { message: 'Invalid JSON' } }), { status: 400 });
+  }
+  if (!payload.role_id || !payload.path) {
+    return new Response(JSON.stringify({ error: { message: 'role_id and path are required' } }), { status: 400 });
+  }
+  await requireRole(supabase, caller, payload.role_id, 'write');
+  const bucket = payload.bucket || 'resumes';
+  if (!caller.internal && (bucket !== 'resumes' || !payload.path.startsWith(`${payload.role_id}/`) || payload.path.includes('..'))) {
+    return new Response(JSON.stringify({ error: { message: `Resumes for this role must be under resumes/${payload.role_id}/` } }), { status: 403 });
+  }
+  const { data: file, error: downloadError } = await supabase.storage.from(bucket).download(payload.path);
+  if (downloadError || !file) {
+    return new Response(JSON.stringify({ error: { message: `Could not download ${bucket}/${payload.path}` } }), { status: 404 });
+  }
+  const format = detectFormat(payload.path, file.type);
+  if (!format) {
+    return new Response(JSON.stringify({ error: { message: 'Only PDF, DOCX and plain text resumes are supported' } }), { status: 415 });
+  }
+  let text: string;
+  try {
+    text = (await extractText(new Uint8Array(await file.arrayBuffer()), format)).trim();
+  } catch (err) {
+    return new Response(JSON.stringify({ error: { message: `Text extraction failed: ${(err as Error).message}` } }), { status: 422 });
+  }
+  if (!text) {
+    // Image-only (scanned) PDFs have no text layer to extract
+    return new Response(JSON.stringify({ error: { message: 'No text found in resume' } }), { status: 422 });
+  }
+  const profile = parseProfile(text);
+  let candidateId: string;
+  let merged: boolean;
+  try {
+    const resolved = await resolveCandidate(supabase, payload.role_id, {
+      name: profile.name || 'Unknown',
+      email: profile.email,
+      linkedin: profile.linkedin,
+      public_url: profile.public_url,
+      current_title: profile.current_title || '',
+      company: profile.current_company || '',
+      location: profile.location || '',
+      resume_url: `${bucket}/${payload.path}`,
+      source: 'upload',
+      status: 'sourced',
+    }, 'ingest_resume');
+    candidateId = resolved.candidate.id;
+    merged = resolved.merged;
+  } catch (err) {
+    return new Response(JSON.stringify({ error: { message: (err as Error).message } }), { status: 500 });
+  }
+  const { error: updateError } = await supabase.from('candidates').update({ profile, resume_text: text }).eq('id', candidateId);
+  if (updateError) return new Response(JSON.stringify({ error: { message: `candidates: ${updateError.message}` } }), { status: 500 });
+  let screening = null;
+  if (payload.screen !== false) {
+    const { data, error } = await supabase.functions.invoke('screen_resume', { body: { role_id: payload.role_id, candidate_id: candidateId } });
+    screening = error ? { error: { message: error.message } } : data;
+  }
+  return new Response(JSON.stringify({ candidate_id: candidateId, merged, profile, screening }), { headers: { 'Content-Type': 'application/json' }, status: 200 });
+}));
@@ -1,43 +1,79 @@
 // ingest_webhook.ts – Supabase edge function to handle provider webhook events
 //
 // Providers like Apollo, SendGrid and Mailgun send webhook events when
-// recipients open, reply, or bounce emails.  This endpoint verifies the
-// signature (not implemented in this stub), records the event in the
-// engagements table, and updates the candidate’s status accordingly.
+// recipients open, reply, or bounce emails.  The provider is selected with the
+// `provider` query parameter (e.g. `/ingest_webhook?provider=sendgrid`).  This
+// endpoint verifies the provider’s signature, rejects unsigned or replayed
+// requests with a 401, and keeps the raw body in `webhook_requests` for
+// auditing.  Each normalised event is recorded in the engagements table once,
+// keyed on the provider’s event id so retried deliveries are not counted
+// twice; the candidate’s status moves forward accordingly (_shared/status.ts;
+// a late `opened` never pulls an interested candidate back) and replies,
+// bounces and unsubscribes stop any active outreach sequence.  A `replied`
+// event does not change the status: what the candidate wrote is classified by
+// inbound_email.  Bounces, unsubscribes and spam complaints also put the
+// address on the org’s suppression list (_shared/compliance.ts) so no role
+// emails it again.  See _shared/engagements.ts.
+//
+// When processing fails part-way the request is still acknowledged: the
+// stored body is handed to the job queue (`webhook_events`, _shared/jobs.ts)
+// and job_worker finishes it with retries.  Should queueing fail too, the
+// response names the stored request (`webhook_request_id`) so it can be
+// queued again by hand.
 
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { applyWebhookEvents } from './_shared/engagements.ts';
+import { enqueueJob } from './_shared/jobs.ts';
+import { adapters, NormalisedEvent } from './_shared/webhook_adapters.ts';
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
 const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
 const supabase = createClient(supabaseUrl, supabaseKey, { auth: { autoRefreshToken: false, persistSession: false } });
 
-// In a production system you would verify the provider’s signature to ensure
-// authenticity.  For this stub we simply accept the payload.
-
 serve(async (req) => {
   if (req.method !== 'POST') return new Response(JSON.stringify({ error: { message: 'Method not allowed' } }), { status: 405 });
-  let payload: any;
+  const provider = new URL(req.url).searchParams.get('provider') || '';
+  const adapter = adapters[provider];
+  if (!adapter) {
+    return new Response(JSON.stringify({ error: { message: `Unknown provider '${provider}'` } }), { status: 400 });
+  }
+  const rawBody = await req.text();
+  const verification = await adapter.verify(req, rawBody);
+  if (!verification.ok) {
+    return new Response(JSON.stringify({ error: { message: verification.reason || 'Invalid signature' } }), { status: 401 });
+  }
+  let events: NormalisedEvent[];
   try {
-    payload = await req.json();
+    events = adapter.parse(rawBody);
   } catch (_e) {
     return new Response(JSON.stringify({ error: { message: 'Invalid JSON' } }), { status: 400 });
   }
-  // Extract candidate_id and event from payload.  Actual structure varies by provider.
-  const candidateId = payload.candidate_id || payload.recipient_id;
-  const event = payload.event || payload.type;
-  if (!candidateId || !event) {
-    return new Response(JSON.stringify({ error: { message: 'Missing candidate_id or event' } }), { status: 400 });
+  // Keep the raw request; the unique (provider, nonce) pair rejects replays
+  const { data: logged, error: logError } = await supabase
+    .from('webhook_requests')
+    .insert({ provider, nonce: verification.nonce, raw_body: rawBody })
+    .select('id')
+    .single();
+  if (logError) {
+    const replayed = logError.code === '23505';
+    return new Response(
+      JSON.stringify({ error: { message: replayed ? 'Replayed request' : logError.message } }),
+      { status: replayed ? 401 : 500 },
+    );
   }
-  // Map events to candidate statuses
-  let newStatus: string | null = null;
-  if (event === 'opened') newStatus = 'contacted';
-  if (event === 'replied') newStatus = 'interested';
-  if (event === 'bounced') newStatus = 'rejected';
-  // Insert engagement record
-  await supabase.from('engagements').insert({ candidate_id: candidateId, event, payload });
-  if (newStatus) {
-    await supabase.from('candidates').update({ status: newStatus }).eq('id', candidateId);
+  try {
+    const result = await applyWebhookEvents(supabase, provider, logged.id, events);
+    return new Response(JSON.stringify({ success: true, ...result }), { headers: { 'Content-Type': 'application/json' }, status: 200 });
+  } catch (err) {
+    // Answer 200 anyway: a provider retry would be rejected as a replay
+    let body: Record<string, unknown>;
+    try {
+      const { job } = await enqueueJob(supabase, 'webhook_events', { provider, webhook_request_id: logged.id }, { key: logged.id });
+      body = { success: true, queued: true, job_id: job.id, error: (err as Error).message };
+    } catch (queueErr) {
+      body = { success: false, queued: false, webhook_request_id: logged.id, error: `${(err as Error).message}; not queued: ${(queueErr as Error).message}` };
+    }
+    return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' }, status: 200 });
   }
-  return new Response(JSON.stringify({ success: true }), { headers: { 'Content-Type': 'application/json' }, status: 200 });
-});
\ No newline at end of file
+});
@@ -0,0 +1,103 @@
+// job_worker.ts – scheduled Supabase edge function to drain the job queue
+//
+// Intended to run every minute with the service-role key.  Each run claims
+// due jobs (_shared/jobs.ts) one at a time and runs them until the batch size
+// or the time budget is used up.  Most job kinds are the name of a sibling
+// edge function, invoked with the job’s payload just as pipeline_daemon used
+// to call them directly; `webhook_events` re-applies a stored provider
+// webhook that ingest_webhook could not finish, `ats_push` pushes a
+// candidate to the org’s ATS (_shared/ats.ts), `screen_batch` screens the
+// next files of a bulk_screen batch (_shared/screening_batches.ts) and
+// `webhook_delivery` posts an event to a subscriber (_shared/events.ts).
+// Failed jobs are retried with exponential backoff; 4xx answers other than
+// 408 and 429 will not get better by retrying and dead-letter the job
+// straight away.
+// Jobs left `dead` can be inspected and replayed through replay_jobs.
+
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { pushCandidate } from './_shared/ats.ts';
+import { requireInternal, withAuth } from './_shared/auth.ts';
+import { applyWebhookEvents } from './_shared/engagements.ts';
+import { deliverWebhook } from './_shared/events.ts';
+import { claimJobs, completeJob, failJob, invokeFunction, Job, JobError, JobStatus } from './_shared/jobs.ts';
+import { runBatch } from './_shared/screening_batches.ts';
+import { adapters } from './_shared/webhook_adapters.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
+const defaultBatch = parseInt(Deno.env.get('JOB_WORKER_BATCH') || '20', 10);
+const visibilitySeconds = parseInt(Deno.env.get('JOB_VISIBILITY_SECONDS') || '300', 10);
+const timeBudgetMs = parseInt(Deno.env.get('JOB_WORKER_BUDGET_MS') || '50000', 10);
+
+const supabase = createClient(supabaseUrl, supabaseKey, { auth: { autoRefreshToken: false, persistSession: false } });
+
+// Edge functions that may be run as jobs
+const FUNCTION_JOBS = ['xray_search', 'apollo_enrich', 'generate_outreach', 'send_sequence', 'screen_resume'];
+
+interface WorkerRequest {
+  limit?: number;
+}
+
+async function replayWebhook(payload: Record<string, unknown>): Promise<unknown> {
+  const { data: request, error } = await supabase
+    .from('webhook_requests')
+    .select('id, provider, raw_body')
+    .eq('id', payload.webhook_request_id as string)
+    .maybeSingle();
+  if (error) throw new Error(`webhook_requests: ${error.message}`);
+  if (!request) throw new JobError('Webhook request no longer exists', false);
+  const adapter = adapters[request.provider];
+  if (!adapter) throw new JobError(`Unknown provider '${request.provider}'`, false);
+  return await applyWebhookEvents(supabase, request.provider, request.id, adapter.parse(request.raw_body || ''));
+}
+
+async function runJob(job: Job): Promise<unknown> {
+  if (job.kind === 'webhook_events') return await replayWebhook(job.payload);
+  if (job.kind === 'webhook_delivery') return await deliverWebhook(supabase, job.payload.delivery_id as string, job.attempts >= job.max_attempts);
+  if (job.kind === 'screen_batch') return await runBatch(supabase, job.payload.batch_id as string);
+  if (job.kind === 'ats_push') return await pushCandidate(supabase, job.payload.connection_id as string, job.payload.candidate_id as string);
+  if (FUNCTION_JOBS.includes(job.kind)) return await invokeFunction(supabase, job.kind, job.payload);
+  throw new JobError(`Unknown job kind '${job.kind}'`, false);
+}
+
+serve(withAuth(supabase, async (req, caller) => {
+  requireInternal(caller);
+  let payload: WorkerRequest = {};
+  try {
+    const text = await req.text();
+    if (text) payload = JSON.parse(text);
+  } catch (_e) {
+    return new Response(JSON.stringify({ error: { message: 'Invalid JSON' } }), { status: 400 });
+  }
+  const startedAt = Date.now();
+  const limit = payload.limit ?? defaultBatch;
+  const results: { id: string; kind: string; attempt: number; status: JobStatus; error?: string }[] = [];
+  // Jobs are claimed one by one so none sits locked while earlier ones run
+  while (results.length < limit && Date.now() - startedAt < timeBudgetMs) {
+    let job: Job | undefined;
+    try {
+      [job] = await claimJobs(supabase, 1, visibilitySeconds);
+    } catch (err) {
+      return new Response(JSON.stringify({ error: { message: (err as Error).message } }), { status: 500 });
+    }
+    if (!job) break;
+    try {
+      const result = await runJob(job);
+      await completeJob(supabase, job, result);
+      results.push({ id: job.id, kind: job.kind, attempt: job.attempts, status: 'succeeded' });
+    } catch (err) {
+      const status = await failJob(supabase, job, err as Error);
+      results.push({ id: job.id, kind: job.kind, attempt: job.attempts, status, error: (err as Error).message });
+    }
+  }
+  const body = {
+    success: true,
+    processed: results.length,
+    succeeded: results.filter((r) => r.status === 'succeeded').length,
+    retrying: results.filter((r) => r.status === 'queued').length,
+    dead: results.filter((r) => r.status === 'dead').length,
+    jobs: results,
+  };
+  return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' }, status: 200 });
+}));
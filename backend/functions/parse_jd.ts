@@ -1,19 +1,30 @@
-// parse_jd.ts – Supabase edge function to parse a job description using OpenAI
+// parse_jd.ts – Supabase edge function to parse a job description using an LLM
 //
-// This function accepts a POST request with a JSON body containing either a raw
-// job description or an existing roleId.  It validates the input, calls the
-// OpenAI API to extract structured fields (or returns mock data when the
-// `mock_parse_jd` feature flag is enabled) and optionally updates the
-// corresponding row in the `roles` table.  The response is a JSON object
-// containing the parsed fields and a list of search keywords.
+// This function accepts a POST request with a JSON body containing either a
+// raw job description or an existing roleId.  It validates the input, calls
+// the configured LLM (_shared/llm.ts), with the prompt from the registry
+// (_shared/prompts.ts), to extract structured fields, validated and repaired
+// against `ParsedJDSchema` (or returns mock data when the `mock_parse_jd`
+// feature flag is enabled or no LLM is configured), and optionally updates
+// the corresponding row in the `roles` table, embedding the parsed JD for
+// semantic matching (_shared/embeddings.ts).  Any signed-in user may parse a
+// JD; updating a role needs write access to its org (_shared/auth.ts).  The
+// response is a JSON object containing the parsed fields and a list of search
+// keywords.
 
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { requireRole, withAuth } from './_shared/auth.ts';
+import { embedderFromEnv, embedRows, meteredEmbedder } from './_shared/embeddings.ts';
+import { LLMClient, llmClient } from './_shared/llm.ts';
+import { callLLMJson, llmErrorResponse } from './_shared/llm_json.ts';
+import { LoadedPrompt, loadPrompt, promptMessages } from './_shared/prompts.ts';
+import { ParsedJDSchema } from './_shared/schemas.ts';
+import { ParsedJD } from './_shared/types.ts';
 
 // Load environment variables
 const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
 const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
-const openAiKey   = Deno.env.get('OPENAI_API_KEY') as string;
 const featureFlags = (Deno.env.get('FEATURE_FLAGS') || '').split(',');
 
 const supabase = createClient(supabaseUrl, supabaseKey, {
@@ -25,46 +36,13 @@ interface ParseJDRequest {
   jd_text: string;
 }
 
-interface ParsedJD {
-  title: string;
-  location: string;
-  level: string;
-  required_skills: string[];
-  nice_to_have: string[];
-  responsibilities: string[];
-  keywords: string[];
-  ideal_candidate_summary: string;
-}
-
-async function callOpenAI(jd: string): Promise<ParsedJD> {
-  const prompt = `You are HireLoop Agent, an expert technical recruiter. Given a JD, output strict JSON with: title, location, level, required_skills[], nice_to_have[], responsibilities[], keywords[] (search operators), ideal_candidate_summary (2–3 sentences). Output ONLY JSON.\n\n${jd}`;
-
-  const resp = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${openAiKey}`,
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o',
-      messages: [
-        { role: 'system', content: 'You are a helpful assistant that outputs strict JSON.' },
-        { role: 'user', content: prompt },
-      ],
-      max_tokens: 500,
-      temperature: 0.2,
-    }),
+async function callLLM(llm: LLMClient, prompt: LoadedPrompt, jd: string): Promise<ParsedJD> {
+  const { data } = await callLLMJson({
+    schema: ParsedJDSchema,
+    messages: promptMessages(prompt, { jd }),
+    llm,
   });
-  if (!resp.ok) {
-    throw new Error(`OpenAI API error: ${resp.status}`);
-  }
-  const data = await resp.json();
-  const content = data.choices?.[0]?.message?.content?.trim();
-  try {
-    return JSON.parse(content) as ParsedJD;
-  } catch (_e) {
-    throw new Error('Failed to parse OpenAI response');
-  }
+  return data;
 }
 
 function mockParse(jd: string): ParsedJD {
@@ -82,7 +60,7 @@ function mockParse(jd: string): ParsedJD {
   };
 }
 
-serve(async (req) => {
+serve(withAuth(supabase, async (req, caller) => {
   if (req.method !== 'POST') {
     return new Response(JSON.stringify({ error: { message: 'Method not allowed' } }), { status: 405 });
   }
@@ -95,22 +73,36 @@ serve(async (req) => {
   if (!payload.jd_text || typeof payload.jd_text !== 'string') {
     return new Response(JSON.stringify({ error: { message: 'jd_text is required' } }), { status: 400 });
   }
+  // The role’s org may override the model and sampling settings
+  let orgId: string | null = null;
+  if (payload.roleId) {
+    const role = await requireRole(supabase, caller, payload.roleId, 'write');
+    orgId = role.org_id;
+  }
   let parsed: ParsedJD;
   try {
-    if (featureFlags.includes('mock_parse_jd') || !openAiKey) {
+    const llm = featureFlags.includes('mock_parse_jd') ? null : await llmClient(supabase, 'parse_jd', orgId, { max_tokens: 500, temperature: 0.2 });
+    if (!llm?.available) {
       parsed = mockParse(payload.jd_text);
     } else {
-      parsed = await callOpenAI(payload.jd_text);
+      parsed = await callLLM(llm, await loadPrompt(supabase, 'parse_jd', orgId), payload.jd_text);
     }
   } catch (err) {
-    return new Response(JSON.stringify({ error: { message: (err as Error).message } }), { status: 500 });
+    return llmErrorResponse(err);
   }
   // If roleId provided, update roles.parsed_json
   if (payload.roleId) {
-    await supabase.from('roles').update({ parsed_json: parsed }).eq('id', payload.roleId);
+    const { error } = await supabase.from('roles').update({ parsed_json: parsed }).eq('id', payload.roleId);
+    if (error) return new Response(JSON.stringify({ error: { message: `roles: ${error.message}` } }), { status: 500 });
+    try {
+      await embedRows(supabase, meteredEmbedder(supabase, embedderFromEnv(), orgId, 'parse_jd'), 'roles', [{ id: payload.roleId, parsed_json: parsed }]);
+    } catch (_e) {
+      // The new JD cleared the old vector (clear_stale_embedding in
+      // schema.sql), so the role has none until the next backfill
+    }
   }
   return new Response(JSON.stringify({ parsed, keywords: parsed.keywords }), {
     headers: { 'Content-Type': 'application/json' },
     status: 200,
   });
-});
\ No newline at end of file
+}));
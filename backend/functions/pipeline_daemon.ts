@@ -2,30 +2,259 @@
 //
 // This function is intended to run on a schedule (e.g. every 15 minutes).  It
 // iterates through each open role and ensures the pipeline has at least
-// `min_pipeline` candidates.  It triggers x‑ray search, enrichment and
-// outreach steps as needed and advances existing sequences.  In this stub
-// implementation we simply count the candidates per role and insert a log
-// entry into the config table when the pipeline is thin.
+// `min_pipeline` candidates.  When a role is underfilled it emits a
+// `role.pipeline_underfilled` event (_shared/events.ts), then first
+// rediscovers past candidates of the org’s other roles whose profiles match
+// the JD (_shared/embeddings.ts), which costs no search or enrichment
+// credits, and only runs x‑ray search for the rest, queueing the new leads
+// for Apollo enrichment.  It then queues outreach drafts for freshly sourced
+// candidates and a send for every sequence whose next step is due.  The
+// queued work is carried out by job_worker through the corresponding edge
+// functions, so the daemon shares their mock flags and provider selection,
+// and a failing provider is retried instead of losing the work.  Idempotency
+// keys (candidate + usage period, outreach step + due time, the set of
+// leads) keep overlapping ticks from queueing anything twice.
+//
+// Work per tick is bounded by budgets (max leads and max sends per role),
+// configurable through env vars or the request body, where callers other
+// than the scheduler can only lower them, and the response contains a
+// per-role summary of what the run did.  The scheduler calls it with the
+// service-role key and covers every open role; an owner or recruiter may
+// trigger a run for one of their own roles by passing `role_id`.
 
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { requireInternal, requireRole, withAuth } from './_shared/auth.ts';
+import { backfillEmbeddings, embedderFromEnv, meteredEmbedder, rediscoverCandidates } from './_shared/embeddings.ts';
+import { emitEvent } from './_shared/events.ts';
+import { resolveCandidate } from './_shared/identity.ts';
+import { enqueueJob } from './_shared/jobs.ts';
+import { DueOutreach, listDue } from './_shared/sequences.ts';
+import { usagePeriod } from './_shared/usage.ts';
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
 const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
+const defaultMaxLeads = parseInt(Deno.env.get('PIPELINE_MAX_LEADS') || '10', 10);
+const defaultMaxSends = parseInt(Deno.env.get('PIPELINE_MAX_SENDS') || '20', 10);
+const rediscoverMinSimilarity = parseFloat(Deno.env.get('PIPELINE_REDISCOVER_MIN_SIMILARITY') || '0.4');
+const embedBatch = parseInt(Deno.env.get('PIPELINE_EMBED_BATCH') || '100', 10);
+
 const supabase = createClient(supabaseUrl, supabaseKey, { auth: { autoRefreshToken: false, persistSession: false } });
 
-serve(async (_req) => {
+interface DaemonRequest {
+  role_id?: string;
+  max_leads?: number;
+  max_sends?: number;
+}
+
+interface RoleRunSummary {
+  role_id: string;
+  title: string;
+  pipeline: number;
+  min_pipeline: number;
+  underfilled: boolean;
+  rediscovered: number;
+  leads_found: number;
+  enrich_queued: number;
+  outreach_queued: number;
+  sends_queued: number;
+  due: Pick<DueOutreach, 'candidate_id' | 'step' | 'next_send_at'>[];
+  errors: string[];
+}
+
+// Invoke a sibling edge function with the service role key and unwrap its
+// JSON body, turning both transport and function errors into exceptions.
+async function invoke<T>(name: string, body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+  if (error) throw new Error(`${name}: ${error.message}`);
+  if (data?.error) throw new Error(`${name}: ${data.error.message}`);
+  return data as T;
+}
+
+// The same leads found again on a later tick map to the same key
+async function leadsKey(roleId: string, leads: any[]): Promise<string> {
+  const urls = leads.map((l) => l.public_url || `${l.name}|${l.company}`).sort().join('\n');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(urls));
+  return `${roleId}:${Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('')}`;
+}
+
+// Copy matching people from the org's other roles into this one.  Several
+// matches can be the same person, so more are asked for than needed.
+async function rediscoverRole(role: any, needed: number, summary: RoleRunSummary) {
+  const embedder = meteredEmbedder(supabase, embedderFromEnv(), role.org_id, 'pipeline_daemon');
+  await backfillEmbeddings(supabase, embedder, role.org_id, embedBatch);
+  const matches = await rediscoverCandidates(supabase, embedder, role, { limit: needed * 3, minSimilarity: rediscoverMinSimilarity });
+  if (!matches.length) return;
+  const { data: past, error } = await supabase.from('candidates').select('*').in('id', matches.map((m) => m.id));
+  if (error) throw new Error(`candidates: ${error.message}`);
+  const byId = new Map<string, any>((past || []).map((c: any) => [c.id, c]));
+  for (const match of matches) {
+    if (summary.rediscovered >= needed) break;
+    const c = byId.get(match.id);
+    if (!c) continue;
+    const resolved = await resolveCandidate(supabase, role.id, {
+      name: c.name,
+      email: c.email,
+      email_status: c.email_status,
+      email_checked_at: c.email_checked_at,
+      contactable: c.contactable,
+      linkedin: c.linkedin,
+      public_url: c.public_url,
+      company: c.company,
+      current_title: c.current_title,
+      location: c.location,
+      resume_url: c.resume_url,
+      enrichment: { ...(c.enrichment || {}), rediscovered_from: { candidate_id: c.id, role_id: c.role_id, similarity: match.similarity } },
+      source: 'rediscovered',
+      status: 'sourced',
+    }, 'pipeline_daemon');
+    // Already in this pipeline
+    if (resolved.merged) continue;
+    const { error: copyError } = await supabase.from('candidates').update({ resume_text: c.resume_text, profile: c.profile }).eq('id', resolved.candidate.id);
+    if (copyError) throw new Error(`candidates: ${copyError.message}`);
+    summary.rediscovered++;
+  }
+}
+
+async function sourceRole(role: any, needed: number, summary: RoleRunSummary) {
+  const leads = await invoke<any[]>('xray_search', { role_id: role.id, count: needed });
+  summary.leads_found = leads.length;
+  if (leads.length === 0) return;
+  const batch = leads.slice(0, needed);
+  const { created } = await enqueueJob(supabase, 'apollo_enrich', { role_id: role.id, leads: batch }, {
+    key: await leadsKey(role.id, batch),
+    orgId: role.org_id,
+  });
+  if (created) summary.enrich_queued = batch.length;
+}
+
+async function draftOutreach(role: any, limit: number, summary: RoleRunSummary) {
+  // Sourced candidates without any outreach row have not been enrolled yet
+  const { data: sourced, error } = await supabase
+    .from('candidates')
+    .select('id, outreach(id)')
+    .eq('role_id', role.id)
+    .eq('status', 'sourced')
+    .order('created_at', { ascending: true });
+  if (error) throw new Error(`candidates: ${error.message}`);
+  const pending = (sourced || []).filter((c: any) => !c.outreach || c.outreach.length === 0).slice(0, limit);
+  // A draft skipped for quota, or whose job died, leaves the candidate
+  // unenrolled; keying on the usage period queues them again next period
+  const period = usagePeriod();
+  for (const candidate of pending) {
+    const { created } = await enqueueJob(supabase, 'generate_outreach', { role_id: role.id, candidate_id: candidate.id }, {
+      key: `${candidate.id}:${period}`,
+      orgId: role.org_id,
+    });
+    if (created) summary.outreach_queued++;
+  }
+}
+
+async function advanceSequences(role: any, limit: number, summary: RoleRunSummary) {
+  const due = await listDue(supabase, { roleId: role.id, limit });
+  summary.due = due.map(({ candidate_id, step, next_send_at }) => ({ candidate_id, step, next_send_at }));
+  for (const row of due) {
+    // One send per outreach step and due time, however many ticks see it due;
+    // a step that was pushed back (quota, out of office) is queued again
+    const { created } = await enqueueJob(supabase, 'send_sequence', { candidate_id: row.candidate_id }, {
+      key: `${row.outreach_id}:${row.step}:${row.next_send_at}`,
+      orgId: role.org_id,
+    });
+    if (created) summary.sends_queued++;
+  }
+}
+
+async function runRole(role: any, maxLeads: number, maxSends: number): Promise<RoleRunSummary> {
+  const summary: RoleRunSummary = {
+    role_id: role.id,
+    title: role.title,
+    pipeline: 0,
+    min_pipeline: role.min_pipeline || 0,
+    underfilled: false,
+    rediscovered: 0,
+    leads_found: 0,
+    enrich_queued: 0,
+    outreach_queued: 0,
+    sends_queued: 0,
+    due: [],
+    errors: [],
+  };
+  // Count candidates for role
+  const { count, error } = await supabase.from('candidates').select('*', { count: 'exact', head: true }).eq('role_id', role.id);
+  if (error) {
+    summary.errors.push(`count: ${error.message}`);
+    return summary;
+  }
+  summary.pipeline = count || 0;
+  summary.underfilled = summary.pipeline < summary.min_pipeline;
+  if (summary.underfilled) {
+    // Subscribers hear about a thin pipeline once a day, not every tick
+    await emitEvent(supabase, role.org_id, 'role.pipeline_underfilled', {
+      role: { id: role.id, title: role.title || null },
+      pipeline: summary.pipeline,
+      min_pipeline: summary.min_pipeline,
+    }, { key: `${role.id}:${new Date().toISOString().slice(0, 10)}` });
+    const needed = Math.min(summary.min_pipeline - summary.pipeline, maxLeads);
+    try {
+      if (needed > 0) await rediscoverRole(role, needed, summary);
+    } catch (err) {
+      summary.errors.push(`rediscover: ${(err as Error).message}`);
+    }
+    try {
+      if (needed - summary.rediscovered > 0) await sourceRole(role, needed - summary.rediscovered, summary);
+    } catch (err) {
+      summary.errors.push((err as Error).message);
+    }
+  }
+  try {
+    await draftOutreach(role, maxSends, summary);
+    await advanceSequences(role, maxSends, summary);
+  } catch (err) {
+    summary.errors.push((err as Error).message);
+  }
+  return summary;
+}
+
+serve(withAuth(supabase, async (req, caller) => {
+  // Scheduled invocations usually send an empty body; overrides are optional
+  let payload: DaemonRequest = {};
+  try {
+    const text = await req.text();
+    if (text) payload = JSON.parse(text);
+  } catch (_e) {
+    return new Response(JSON.stringify({ error: { message: 'Invalid JSON' } }), { status: 400 });
+  }
+  if (payload.role_id) {
+    await requireRole(supabase, caller, payload.role_id, 'write');
+  } else {
+    requireInternal(caller);
+  }
+  for (const name of ['max_leads', 'max_sends'] as const) {
+    const value = payload[name];
+    if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+      return new Response(JSON.stringify({ error: { message: `${name} must be a positive integer` } }), { status: 400 });
+    }
+  }
+  // Only the scheduler may raise the budgets; callers can lower them
+  const cap = (value: number | undefined, fallback: number) => caller.internal ? value ?? fallback : Math.min(value ?? fallback, fallback);
+  const maxLeads = cap(payload.max_leads, defaultMaxLeads);
+  const maxSends = cap(payload.max_sends, defaultMaxSends);
+  const startedAt = new Date().toISOString();
   // Fetch all open roles
-  const { data: roles } = await supabase.from('roles').select('*').eq('status', 'open');
+  let query = supabase.from('roles').select('*').eq('status', 'open');
+  if (payload.role_id) query = query.eq('id', payload.role_id);
+  const { data: roles, error } = await query;
+  if (error) return new Response(JSON.stringify({ error: { message: error.message } }), { status: 500 });
+  const summaries: RoleRunSummary[] = [];
   for (const role of roles || []) {
-    // Count candidates for role
-    const { count, error } = await supabase.from('candidates').select('*', { count: 'exact', head: true }).eq('role_id', role.id);
-    if (error) continue;
-    if ((count || 0) < (role.min_pipeline || 0)) {
-      // Write a log entry to config table to indicate pipeline is thin
-      const logKey = `pipeline_${role.id}_${Date.now()}`;
-      await supabase.from('config').insert({ key: logKey, value: { message: `Pipeline underfilled for role ${role.title}`, count } });
-    }
+    summaries.push(await runRole(role, maxLeads, maxSends));
   }
-  return new Response(JSON.stringify({ success: true }), { headers: { 'Content-Type': 'application/json' }, status: 200 });
-});
\ No newline at end of file
+  const body = {
+    success: true,
+    started_at: startedAt,
+    finished_at: new Date().toISOString(),
+    budgets: { max_leads: maxLeads, max_sends: maxSends },
+    roles: summaries,
+  };
+  return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' }, status: 200 });
+}));
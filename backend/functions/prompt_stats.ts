@@ -0,0 +1,153 @@
+// prompt_stats.ts – Supabase edge function to compare outreach prompt variants
+//
+// For one org (or one of its roles) this reports, for each variant of the
+// outreach subject and body prompts (_shared/prompts.ts), how many candidates
+// were emailed with it and how many of them replied, replied with interest
+// and booked an interview.  Everything comes from `engagements`: the `sent`
+// event carries the refs of the prompts that wrote the email, `replied` its
+// classification and `scheduled` the booking.  Only outcomes after the
+// candidate’s first real send count.  Mock sends are left out, and emails
+// written from templates are reported under 'template' as a baseline.
+// `from` and `to` limit the send dates.  Any member of the org may read it.
+
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { requireOrg, requireRole, withAuth } from './_shared/auth.ts';
+import { OUTREACH_PROMPTS } from './_shared/prompts.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
+const supabase = createClient(supabaseUrl, supabaseKey, { auth: { autoRefreshToken: false, persistSession: false } });
+
+const PAGE_SIZE = 1000;
+const ID_CHUNK = 200;
+
+interface PromptStatsRequest {
+  org_id?: string;
+  role_id?: string;
+  from?: string;
+  to?: string;
+}
+
+interface VariantStats {
+  ref: string;
+  candidates: number;
+  replied: number;
+  interested: number;
+  interviews: number;
+  reply_rate: number;
+  interview_rate: number;
+}
+
+interface Outcome {
+  replied: boolean;
+  interested: boolean;
+  interview: boolean;
+}
+
+function rate(count: number, total: number): number {
+  return total ? Math.round((count / total) * 10000) / 10000 : 0;
+}
+
+// Earliest real send per candidate, with the prompt refs it was written with
+async function loadSends(orgId: string, roleId: string | null, from: string | null, to: string | null) {
+  const sends = new Map<string, { at: string; refs: Record<string, string> }>();
+  for (let offset = 0;; offset += PAGE_SIZE) {
+    let query = supabase
+      .from('engagements')
+      .select('candidate_id, payload, created_at, candidates!inner(role_id, roles!inner(org_id))')
+      .eq('event', 'sent')
+      .eq('candidates.roles.org_id', orgId);
+    if (roleId) query = query.eq('candidates.role_id', roleId);
+    if (from) query = query.gte('created_at', from);
+    if (to) query = query.lt('created_at', to);
+    const { data: rows, error } = await query.order('created_at', { ascending: true }).range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw new Error(`engagements: ${error.message}`);
+    for (const row of rows || []) {
+      if (row.payload?.mock || sends.has(row.candidate_id)) continue;
+      const refs: Record<string, string> = {};
+      refs.outreach_subject = row.payload?.prompt?.subject || 'template';
+      refs.outreach_body = row.payload?.prompt?.body || 'template';
+      sends.set(row.candidate_id, { at: row.created_at, refs });
+    }
+    if (!rows || rows.length < PAGE_SIZE) break;
+  }
+  return sends;
+}
+
+async function loadOutcomes(sends: Map<string, { at: string }>): Promise<Map<string, Outcome>> {
+  const outcomes = new Map<string, Outcome>();
+  const ids = [...sends.keys()];
+  for (let i = 0; i < ids.length; i += ID_CHUNK) {
+    const { data: rows, error } = await supabase
+      .from('engagements')
+      .select('candidate_id, event, classification, created_at')
+      .in('candidate_id', ids.slice(i, i + ID_CHUNK))
+      .in('event', ['replied', 'scheduled']);
+    if (error) throw new Error(`engagements: ${error.message}`);
+    for (const row of rows || []) {
+      if (row.created_at < sends.get(row.candidate_id)!.at) continue;
+      const outcome = outcomes.get(row.candidate_id) || { replied: false, interested: false, interview: false };
+      if (row.event === 'replied') {
+        outcome.replied = true;
+        if (row.classification === 'interested') outcome.interested = true;
+      }
+      if (row.event === 'scheduled') outcome.interview = true;
+      outcomes.set(row.candidate_id, outcome);
+    }
+  }
+  return outcomes;
+}
+
+serve(withAuth(supabase, async (req, caller) => {
+  if (req.method !== 'POST') return new Response(JSON.stringify({ error: { message: 'Method not allowed' } }), { status: 405 });
+  let payload: PromptStatsRequest;
+  try {
+    payload = await req.json();
+  } catch (_e) {
+    return new Response(JSON.stringify({ error: { message: 'Invalid JSON' } }), { status: 400 });
+  }
+  if (!payload.org_id && !payload.role_id) {
+    return new Response(JSON.stringify({ error: { message: 'org_id or role_id is required' } }), { status: 400 });
+  }
+  for (const bound of [payload.from, payload.to]) {
+    if (bound && Number.isNaN(Date.parse(bound))) {
+      return new Response(JSON.stringify({ error: { message: `Invalid date '${bound}'` } }), { status: 400 });
+    }
+  }
+  let orgId = payload.org_id as string;
+  if (payload.role_id) {
+    const role = await requireRole(supabase, caller, payload.role_id, 'read');
+    if (payload.org_id && payload.org_id !== role.org_id) {
+      return new Response(JSON.stringify({ error: { message: 'Role does not belong to this organisation' } }), { status: 404 });
+    }
+    orgId = role.org_id;
+  } else {
+    requireOrg(caller, orgId, 'read');
+  }
+  try {
+    const sends = await loadSends(orgId, payload.role_id || null, payload.from || null, payload.to || null);
+    const outcomes = await loadOutcomes(sends);
+    const prompts: Record<string, VariantStats[]> = {};
+    for (const name of OUTREACH_PROMPTS) {
+      const byRef = new Map<string, VariantStats>();
+      for (const [candidateId, send] of sends) {
+        const ref = send.refs[name];
+        const stats = byRef.get(ref) || { ref, candidates: 0, replied: 0, interested: 0, interviews: 0, reply_rate: 0, interview_rate: 0 };
+        const outcome = outcomes.get(candidateId);
+        stats.candidates++;
+        if (outcome?.replied) stats.replied++;
+        if (outcome?.interested) stats.interested++;
+        if (outcome?.interview) stats.interviews++;
+        byRef.set(ref, stats);
+      }
+      prompts[name] = [...byRef.values()]
+        .map((s) => ({ ...s, reply_rate: rate(s.replied, s.candidates), interview_rate: rate(s.interviews, s.candidates) }))
+        .sort((a, b) => a.ref.localeCompare(b.ref));
+    }
+    const body = { org_id: orgId, role_id: payload.role_id || null, from: payload.from || null, to: payload.to || null, candidates: sends.size, prompts };
+    return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' }, status: 200 });
+  } catch (err) {
+    return new Response(JSON.stringify({ error: { message: (err as Error).message } }), { status: 500 });
+  }
+}));
@@ -0,0 +1,84 @@
+// replay_jobs.ts – Supabase edge function to inspect and replay queued jobs
+//
+//   action 'list'    returns the org’s jobs, newest first, filtered by
+//                    `status` (default 'dead') and optionally `kind`
+//   action 'replay'  puts dead jobs back on the queue with a fresh set of
+//                    attempts: one by `job_id`, or every dead job of the org
+//                    (optionally of one `kind`)
+//
+// Jobs belong to the org whose work they do; only its owners may see or
+// replay them, as they can through RLS.  Jobs without an org (stored webhook
+// batches) are only reachable by internal callers, who may omit `org_id`.
+
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { AuthError, Caller, requireOrg, withAuth } from './_shared/auth.ts';
+import { Job, replayJob } from './_shared/jobs.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
+const supabase = createClient(supabaseUrl, supabaseKey, { auth: { autoRefreshToken: false, persistSession: false } });
+
+interface ReplayJobsRequest {
+  action: 'list' | 'replay';
+  org_id?: string;
+  job_id?: string;
+  status?: string;
+  kind?: string;
+  limit?: number;
+}
+
+function requireOwner(caller: Caller, orgId: string | null) {
+  if (!orgId && caller.internal) return;
+  if (!orgId) throw new AuthError('org_id is required', 400);
+  const accessRole = requireOrg(caller, orgId, 'write');
+  if (accessRole && accessRole !== 'owner') throw new AuthError('Only owners can manage jobs', 403);
+}
+
+serve(withAuth(supabase, async (req, caller) => {
+  if (req.method !== 'POST') return new Response(JSON.stringify({ error: { message: 'Method not allowed' } }), { status: 405 });
+  let body: ReplayJobsRequest;
+  try {
+    body = await req.json();
+  } catch (_e) {
+    return new Response(JSON.stringify({ error: { message: 'Invalid JSON' } }), { status: 400 });
+  }
+  if (body.action !== 'list' && body.action !== 'replay') {
+    return new Response(JSON.stringify({ error: { message: "action must be 'list' or 'replay'" } }), { status: 400 });
+  }
+  if (body.action === 'replay' && body.job_id) {
+    const { data: job } = await supabase.from('jobs').select('id, org_id, status').eq('id', body.job_id).maybeSingle();
+    // Jobs of other orgs are reported as forbidden, not missing
+    if (!job) throw new AuthError(caller.internal ? 'Job not found' : 'Not a member of this organisation', caller.internal ? 404 : 403);
+    if (!job.org_id && !caller.internal) throw new AuthError('Not a member of this organisation', 403);
+    requireOwner(caller, job.org_id);
+    if (job.status !== 'dead') {
+      return new Response(JSON.stringify({ error: { message: `Only dead jobs can be replayed; this one is ${job.status}` } }), { status: 409 });
+    }
+    const replayed = await replayJob(supabase, job.id);
+    return new Response(JSON.stringify({ replayed: replayed ? [replayed.id] : [] }), {
+      headers: { 'Content-Type': 'application/json' },
+      status: 200,
+    });
+  }
+
+  requireOwner(caller, body.org_id || null);
+  let query = supabase.from('jobs').select('*');
+  query = body.org_id ? query.eq('org_id', body.org_id) : query.is('org_id', null);
+  if (body.kind) query = query.eq('kind', body.kind);
+  if (body.action === 'replay') {
+    const { data: dead, error } = await query.eq('status', 'dead').limit(body.limit ?? 100);
+    if (error) return new Response(JSON.stringify({ error: { message: error.message } }), { status: 500 });
+    const replayed: string[] = [];
+    for (const job of (dead || []) as Job[]) {
+      if (await replayJob(supabase, job.id)) replayed.push(job.id);
+    }
+    return new Response(JSON.stringify({ replayed }), { headers: { 'Content-Type': 'application/json' }, status: 200 });
+  }
+  const { data: jobs, error } = await query
+    .eq('status', body.status || 'dead')
+    .order('created_at', { ascending: false })
+    .limit(body.limit ?? 100);
+  if (error) return new Response(JSON.stringify({ error: { message: error.message } }), { status: 500 });
+  return new Response(JSON.stringify({ jobs }), { headers: { 'Content-Type': 'application/json' }, status: 200 });
+}));
@@ -0,0 +1,220 @@
+// role_analytics.ts – Supabase edge function to report pipeline analytics
+//
+// For one role, or every role of an org, this reports the funnel (how many
+// candidates reached each stage and the conversion to the next), the median
+// time spent in each stage, response times, open/reply/bounce rates per
+// outreach step and email provider, and the yield of each candidate source
+// (x-ray, Apollo, resume upload, manual entry).  The figures are computed in
+// _shared/analytics.ts from candidates, candidate_status_history and
+// engagements.  An org report carries the totals across its roles and one
+// report per role, with the current pipeline against `min_pipeline`.
+//
+// `from` and `to` select candidates by when they were added to the role, so
+// each report follows one cohort through the funnel; their later history is
+// included whenever it happened.  The pipeline against `min_pipeline` is
+// always counted over every candidate.  `format: 'csv'` returns the same figures as
+// one row per metric.  Any member of the org may read it.
+
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { requireOrg, requireRole, withAuth } from './_shared/auth.ts';
+import { csvTable } from './_shared/csv.ts';
+import {
+  AnalyticsCandidate,
+  EngagementRow,
+  FUNNEL_STAGES,
+  groupBy,
+  HistoryRow,
+  pipelineReport,
+  PipelineReport,
+  REPORT_HEADERS,
+  reportRows,
+} from './_shared/analytics.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
+const supabase = createClient(supabaseUrl, supabaseKey, { auth: { autoRefreshToken: false, persistSession: false } });
+
+const PAGE_SIZE = 1000;
+const ID_CHUNK = 200;
+
+const ENGAGEMENT_EVENTS = ['sent', 'opened', 'replied', 'bounced', 'scheduled'];
+
+// Stages that still count towards a role's pipeline
+const ACTIVE_STATUSES = FUNNEL_STAGES.filter((s) => s !== 'hired');
+
+interface RoleAnalyticsRequest {
+  org_id?: string;
+  role_id?: string;
+  from?: string;
+  to?: string;
+  format?: 'json' | 'csv';
+}
+
+interface RoleSummary {
+  role_id: string;
+  title: string;
+  min_pipeline: number | null;
+  pipeline: number;
+  underfilled: boolean;
+  report: PipelineReport;
+}
+
+async function loadRoles(orgId: string, roleId: string | null) {
+  let query = supabase.from('roles').select('id, title, min_pipeline').eq('org_id', orgId);
+  if (roleId) query = query.eq('id', roleId);
+  const { data, error } = await query.order('created_at', { ascending: true });
+  if (error) throw new Error(`roles: ${error.message}`);
+  return data || [];
+}
+
+async function loadCandidates(orgId: string, roleId: string | null, from: string | null, to: string | null): Promise<AnalyticsCandidate[]> {
+  const candidates: AnalyticsCandidate[] = [];
+  for (let offset = 0;; offset += PAGE_SIZE) {
+    let query = supabase
+      .from('candidates')
+      .select('id, role_id, status, source, created_at, roles!inner(org_id)')
+      .eq('roles.org_id', orgId);
+    if (roleId) query = query.eq('role_id', roleId);
+    if (from) query = query.gte('created_at', from);
+    if (to) query = query.lt('created_at', to);
+    const { data: rows, error } = await query.order('created_at', { ascending: true }).range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw new Error(`candidates: ${error.message}`);
+    for (const row of rows || []) {
+      candidates.push({ id: row.id, role_id: row.role_id, status: row.status, source: row.source, created_at: row.created_at });
+    }
+    if (!rows || rows.length < PAGE_SIZE) break;
+  }
+  return candidates;
+}
+
+// Live pipeline depth per role, whenever the candidates were added
+async function loadPipeline(orgId: string, roleId: string | null): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+  for (let offset = 0;; offset += PAGE_SIZE) {
+    let query = supabase
+      .from('candidates')
+      .select('id, role_id, roles!inner(org_id)')
+      .eq('roles.org_id', orgId)
+      .in('status', ACTIVE_STATUSES);
+    if (roleId) query = query.eq('role_id', roleId);
+    const { data: rows, error } = await query.order('id', { ascending: true }).range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw new Error(`candidates: ${error.message}`);
+    for (const row of rows || []) counts.set(row.role_id, (counts.get(row.role_id) || 0) + 1);
+    if (!rows || rows.length < PAGE_SIZE) break;
+  }
+  return counts;
+}
+
+// Rows of a per-candidate table for the given candidates, oldest first
+async function loadByCandidate<T>(table: string, columns: string, ids: string[], events?: string[]): Promise<T[]> {
+  const all: T[] = [];
+  for (let i = 0; i < ids.length; i += ID_CHUNK) {
+    const chunk = ids.slice(i, i + ID_CHUNK);
+    for (let offset = 0;; offset += PAGE_SIZE) {
+      let query = supabase.from(table).select(columns).in('candidate_id', chunk);
+      if (events) query = query.in('event', events);
+      const { data: rows, error } = await query.order('created_at', { ascending: true }).range(offset, offset + PAGE_SIZE - 1);
+      if (error) throw new Error(`${table}: ${error.message}`);
+      all.push(...((rows || []) as T[]));
+      if (!rows || rows.length < PAGE_SIZE) break;
+    }
+  }
+  return all;
+}
+
+serve(withAuth(supabase, async (req, caller) => {
+  if (req.method !== 'POST') return new Response(JSON.stringify({ error: { message: 'Method not allowed' } }), { status: 405 });
+  let payload: RoleAnalyticsRequest;
+  try {
+    payload = await req.json();
+  } catch (_e) {
+    return new Response(JSON.stringify({ error: { message: 'Invalid JSON' } }), { status: 400 });
+  }
+  if (!payload.org_id && !payload.role_id) {
+    return new Response(JSON.stringify({ error: { message: 'org_id or role_id is required' } }), { status: 400 });
+  }
+  for (const bound of [payload.from, payload.to]) {
+    if (bound && Number.isNaN(Date.parse(bound))) {
+      return new Response(JSON.stringify({ error: { message: `Invalid date '${bound}'` } }), { status: 400 });
+    }
+  }
+  const format = payload.format || 'json';
+  if (format !== 'json' && format !== 'csv') {
+    return new Response(JSON.stringify({ error: { message: `Unsupported format '${format}'` } }), { status: 400 });
+  }
+  let orgId = payload.org_id as string;
+  if (payload.role_id) {
+    const role = await requireRole(supabase, caller, payload.role_id, 'read');
+    if (payload.org_id && payload.org_id !== role.org_id) {
+      return new Response(JSON.stringify({ error: { message: 'Role does not belong to this organisation' } }), { status: 404 });
+    }
+    orgId = role.org_id;
+  } else {
+    requireOrg(caller, orgId, 'read');
+  }
+  const roleId = payload.role_id || null;
+  try {
+    const roles = await loadRoles(orgId, roleId);
+    const candidates = await loadCandidates(orgId, roleId, payload.from || null, payload.to || null);
+    const ids = candidates.map((c) => c.id);
+    const history = groupBy(await loadByCandidate<HistoryRow>(
+      'candidate_status_history',
+      'candidate_id, from_status, to_status, actor, created_at',
+      ids,
+    ));
+    const engagements = groupBy(await loadByCandidate<EngagementRow>(
+      'engagements',
+      'candidate_id, event, payload, classification, created_at',
+      ids,
+      ENGAGEMENT_EVENTS,
+    ));
+    const now = new Date();
+    const byRole = new Map<string, AnalyticsCandidate[]>();
+    for (const c of candidates) {
+      const own = byRole.get(c.role_id);
+      if (own) own.push(c);
+      else byRole.set(c.role_id, [c]);
+    }
+    // A dated report covers one cohort, but the pipeline is always the live one
+    const dated = Boolean(payload.from || payload.to);
+    const live = dated ? await loadPipeline(orgId, roleId) : null;
+    const summaries: RoleSummary[] = roles.map((role: any) => {
+      const own = byRole.get(role.id) || [];
+      const pipeline = live ? live.get(role.id) || 0 : own.filter((c) => ACTIVE_STATUSES.includes(c.status as any)).length;
+      return {
+        role_id: role.id,
+        title: role.title,
+        min_pipeline: role.min_pipeline ?? null,
+        pipeline,
+        underfilled: role.min_pipeline != null && pipeline < role.min_pipeline,
+        report: pipelineReport(own, history, engagements, now),
+      };
+    });
+    const total = roleId ? null : pipelineReport(candidates, history, engagements, now);
+
+    if (format === 'csv') {
+      const rows = [
+        ...(total ? reportRows({ role_id: null, title: 'All roles' }, total) : []),
+        ...summaries.flatMap((s) => reportRows({ role_id: s.role_id, title: s.title }, s.report)),
+      ];
+      const filename = `analytics-${roleId || orgId}-${now.toISOString().slice(0, 10)}.csv`;
+      return new Response(csvTable(REPORT_HEADERS, rows), {
+        headers: { 'Content-Type': 'text/csv; charset=utf-8', 'Content-Disposition': `attachment; filename="${filename}"` },
+        status: 200,
+      });
+    }
+    const body = {
+      org_id: orgId,
+      role_id: roleId,
+      from: payload.from || null,
+      to: payload.to || null,
+      generated_at: now.toISOString(),
+      total,
+      roles: summaries,
+    };
+    return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' }, status: 200 });
+  } catch (err) {
+    return new Response(JSON.stringify({ error: { message: (err as Error).message } }), { status: 500 });
+  }
+}));
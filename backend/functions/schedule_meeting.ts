@@ -1,36 +1,204 @@
 // schedule_meeting.ts – Supabase edge function to book interviews via Calendly
 //
-// This function accepts a candidate ID and optionally a specific slot.  It
-// calls the Calendly API using the organisation token to create a meeting
-// invite and records the event in the engagements table.  In this stub
-// implementation we simply update the candidate’s status to "screened" or
-// "interviewing" and return a mock Calendly URL.
+// This function accepts a candidate ID and optionally a specific slot.
+// Without a slot it hands out a single-use scheduling link for the candidate
+// (_shared/scheduling.ts); the booking itself arrives later through
+// calendly_webhook.  With a slot it checks the slot against the provider’s
+// availability, books the interview directly, moves the candidate to
+// "interviewing" (409 when their status does not allow it) and emails an ICS
+// invite (_shared/ics.ts) to the candidate and the interviewer.  Either way
+// the interview is recorded in `interviews` and an engagement event is
+// written; a direct booking also emits `meeting.scheduled`
+// (_shared/events.ts).  When the `mock_schedule_meeting` feature flag is
+// enabled or no scheduling provider is configured, the local fake provider is
+// used.  Only owners and recruiters of the candidate’s org can schedule.
 
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { actorOf, requireCandidate, withAuth } from './_shared/auth.ts';
+import { findSuppression } from './_shared/compliance.ts';
+import { emailProviderFromEnv } from './_shared/email.ts';
+import { emitCandidateEvent } from './_shared/events.ts';
+import { buildInvite } from './_shared/ics.ts';
+import {
+  DURATION_MINUTES,
+  fakeSchedulingProvider,
+  schedulingLinkFor,
+  schedulingProviderFromEnv,
+  slotIsOpen,
+} from './_shared/scheduling.ts';
+import { canTransition, isCandidateStatus, transitionStatus } from './_shared/status.ts';
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
 const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
-const calendlyToken = Deno.env.get('CALENDLY_TOKEN') as string;
 const featureFlags = (Deno.env.get('FEATURE_FLAGS') || '').split(',');
 
 const supabase = createClient(supabaseUrl, supabaseKey, { auth: { autoRefreshToken: false, persistSession: false } });
 
-serve(async (req) => {
+interface ScheduleRequest {
+  candidate_id: string;
+  // ISO start time, or an explicit start/end pair
+  slot?: string | { start: string; end?: string };
+  interviewer_email?: string;
+  interviewer_name?: string;
+}
+
+// The recruiter who created the role interviews unless someone else is named
+async function interviewerFor(role: any, payload: ScheduleRequest): Promise<{ email: string; name: string | null } | null> {
+  if (payload.interviewer_email) return { email: payload.interviewer_email, name: payload.interviewer_name || null };
+  if (!role.created_by) return null;
+  const { data } = await supabase.auth.admin.getUserById(role.created_by);
+  if (!data?.user?.email) return null;
+  const { data: profile } = await supabase.from('profiles').select('full_name').eq('id', role.created_by).maybeSingle();
+  return { email: data.user.email, name: profile?.full_name || null };
+}
+
+serve(withAuth(supabase, async (req, caller) => {
   if (req.method !== 'POST') return new Response(JSON.stringify({ error: { message: 'Method not allowed' } }), { status: 405 });
-  let body: any;
+  let payload: ScheduleRequest;
   try {
-    body = await req.json();
+    payload = await req.json();
   } catch (_e) {
     return new Response(JSON.stringify({ error: { message: 'Invalid JSON' } }), { status: 400 });
   }
-  const candidateId = body.candidate_id;
+  const candidateId = payload.candidate_id;
   if (!candidateId) return new Response(JSON.stringify({ error: { message: 'candidate_id is required' } }), { status: 400 });
-  // For demo, we generate a mock Calendly link
-  const meetingUrl = `https://calendly.com/demo/${candidateId}`;
-  // Update candidate status to interviewing
-  await supabase.from('candidates').update({ status: 'interviewing' }).eq('id', candidateId);
-  // Record engagement
-  await supabase.from('engagements').insert({ candidate_id: candidateId, event: 'scheduled', payload: { meetingUrl } });
-  return new Response(JSON.stringify({ meetingUrl }), { headers: { 'Content-Type': 'application/json' }, status: 200 });
-});
\ No newline at end of file
+  const { candidate, role } = await requireCandidate(supabase, caller, candidateId, 'write');
+  const provider = (!featureFlags.includes('mock_schedule_meeting') && schedulingProviderFromEnv()) ||
+    fakeSchedulingProvider(Deno.env.get('FAKE_SCHEDULING_URL'));
+
+  if (!payload.slot) {
+    let link: { url: string; interview_id: string | null };
+    try {
+      link = await schedulingLinkFor(supabase, provider, candidate);
+    } catch (err) {
+      return new Response(JSON.stringify({ error: { message: (err as Error).message } }), { status: 502 });
+    }
+    await supabase.from('engagements').insert({
+      candidate_id: candidateId,
+      event: 'scheduling_link',
+      payload: { provider: provider.name, interview_id: link.interview_id, meetingUrl: link.url },
+    });
+    const body = { meetingUrl: link.url, interview_id: link.interview_id, status: 'pending' };
+    return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' }, status: 200 });
+  }
+
+  // Book the chosen slot directly
+  if (candidate.status !== 'interviewing' && !(isCandidateStatus(candidate.status) && canTransition(candidate.status, 'interviewing'))) {
+    return new Response(JSON.stringify({ error: { message: `Cannot schedule an interview for a ${candidate.status} candidate` } }), { status: 409 });
+  }
+  const slot = typeof payload.slot === 'string' ? { start: payload.slot } : payload.slot;
+  const start = new Date(slot.start);
+  if (Number.isNaN(start.getTime())) {
+    return new Response(JSON.stringify({ error: { message: 'slot.start must be an ISO date' } }), { status: 400 });
+  }
+  const end = slot.end ? new Date(slot.end) : new Date(start.getTime() + DURATION_MINUTES * 60_000);
+  if (Number.isNaN(end.getTime()) || end <= start) {
+    return new Response(JSON.stringify({ error: { message: 'slot.end must be after slot.start' } }), { status: 400 });
+  }
+  try {
+    const open = await provider.availability(new Date(start.getTime() - 60_000), end);
+    if (!slotIsOpen(open, start)) {
+      return new Response(JSON.stringify({ error: { message: 'Slot is not available' }, available: open.slice(0, 10) }), { status: 409 });
+    }
+  } catch (err) {
+    return new Response(JSON.stringify({ error: { message: (err as Error).message } }), { status: 502 });
+  }
+  // A booked interview is moved; otherwise the pending one (or a new one) is booked
+  const { data: booked } = await supabase
+    .from('interviews')
+    .select('*')
+    .eq('candidate_id', candidateId)
+    .eq('status', 'scheduled')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  let interview = booked;
+  if (!interview) {
+    try {
+      const link = await schedulingLinkFor(supabase, provider, candidate);
+      ({ data: interview } = await supabase.from('interviews').select('*').eq('id', link.interview_id).single());
+    } catch (err) {
+      return new Response(JSON.stringify({ error: { message: (err as Error).message } }), { status: 502 });
+    }
+  }
+  const interviewer = await interviewerFor(role, payload);
+  if (interviewer) {
+    const { data: clash } = await supabase
+      .from('interviews')
+      .select('id')
+      .eq('interviewer_email', interviewer.email)
+      .eq('status', 'scheduled')
+      .lt('start_at', end.toISOString())
+      .gt('end_at', start.toISOString())
+      .neq('id', interview.id)
+      .limit(1);
+    if (clash && clash.length > 0) {
+      return new Response(JSON.stringify({ error: { message: 'Interviewer is already booked for this slot' } }), { status: 409 });
+    }
+  }
+
+  const meetingUrl = interview.scheduling_url || '';
+  const sequence = interview.start_at ? (interview.sequence || 0) + 1 : 0;
+  const ics = buildInvite({
+    uid: `${interview.id}@hireloop`,
+    start,
+    end,
+    summary: `Interview: ${candidate.name || 'Candidate'} – ${role.title || 'Role'}`,
+    description: `Interview for the ${role.title || ''} role.\nReschedule: ${meetingUrl}`,
+    location: meetingUrl,
+    organizer: interviewer || { email: Deno.env.get('EMAIL_FROM') || 'recruiting@hireloop.dev', name: Deno.env.get('EMAIL_FROM_NAME') || 'HireLoop Recruiter' },
+    attendees: [
+      ...(candidate.email ? [{ email: candidate.email, name: candidate.name }] : []),
+      ...(interviewer ? [interviewer] : []),
+    ],
+    sequence,
+  });
+  await supabase.from('interviews').update({
+    status: 'scheduled',
+    start_at: start.toISOString(),
+    end_at: end.toISOString(),
+    interviewer_email: interviewer?.email || null,
+    sequence,
+    ics,
+    updated_at: new Date().toISOString(),
+  }).eq('id', interview.id);
+  await transitionStatus(supabase, candidateId, 'interviewing', {
+    actor: actorOf(caller, 'schedule_meeting'),
+    reason: sequence > 0 ? 'interview rescheduled' : 'interview booked',
+    source_event: `interview:${interview.id}`,
+  });
+
+  // Invites go out only when a real email provider is configured
+  const emailProvider = emailProviderFromEnv();
+  const invited: string[] = [];
+  if (emailProvider && !featureFlags.includes('mock_outreach')) {
+    // A suppressed candidate only gets the booking through the recruiter
+    const suppressed = candidate.email ? await findSuppression(supabase, role.org_id, candidate.email) : null;
+    const recipients = [suppressed ? null : candidate.email, interviewer?.email].filter(Boolean) as string[];
+    for (const to of recipients) {
+      try {
+        await emailProvider.send({
+          to,
+          subject: `Interview: ${role.title || 'HireLoop'} – ${start.toUTCString()}`,
+          text: `Your interview for the ${role.title || ''} role is booked for ${start.toUTCString()}.\n\nNeed a different time? ${meetingUrl}`,
+          candidate_id: candidateId,
+          attachments: [{ filename: 'invite.ics', content: ics, content_type: 'text/calendar; method=REQUEST; charset=utf-8' }],
+        });
+        invited.push(to);
+      } catch (_e) {
+        // The booking stands; the ICS is returned to the caller either way
+      }
+    }
+  }
+  await supabase.from('engagements').insert({
+    candidate_id: candidateId,
+    event: sequence > 0 ? 'rescheduled' : 'scheduled',
+    payload: { provider: provider.name, interview_id: interview.id, start: start.toISOString(), end: end.toISOString(), invited, meetingUrl },
+  });
+  await emitCandidateEvent(supabase, 'meeting.scheduled', candidateId, {
+    interview: { id: interview.id, provider: provider.name, start: start.toISOString(), end: end.toISOString(), join_url: meetingUrl, rescheduled: sequence > 0 },
+  }, { key: `${interview.id}:${sequence}` });
+  const body = { meetingUrl, interview_id: interview.id, status: 'scheduled', start: start.toISOString(), end: end.toISOString(), ics, invited };
+  return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' }, status: 200 });
+}));
@@ -1,18 +1,43 @@
 // screen_resume.ts – Supabase edge function to score a resume against a JD
 //
-// Given a role ID and resume text, this function calls OpenAI to compute
-// culture, technical and experience scores and returns a one‑liner summary,
-// individual scores and an overall fit score.  When the `mock_screen_resume`
-// feature flag is enabled (or OPENAI_API_KEY is missing), it returns random
-// values instead.  If the candidate already exists for the role, the row is
-// updated; otherwise a new candidate entry is inserted.
+// Given a role ID and either resume text or a candidate whose resume was
+// ingested by ingest_resume, this function parses the resume into a
+// structured profile (_shared/resume.ts) and passes that profile, rather than
+// the raw text, to the configured LLM (_shared/llm.ts) to compute culture,
+// technical and experience scores (validated and clamped by
+// `ScreenResultSchema`).  It returns a one‑liner summary, individual scores
+// and an overall fit score, and records the prompt version that produced them
+// (_shared/prompts.ts) in `screening.prompt`.  Alongside the LLM, a
+// deterministic scorer (_shared/scoring.ts) matches the profile against the
+// JD’s required skills, nice-to-haves, level and location and returns a
+// per-criterion breakdown; the two fit scores are blended with the role’s
+// `scoring_weights`.  When the `mock_screen_resume` feature flag is enabled
+// (or no LLM is configured), the deterministic result is used on its own.
+// The candidate is identified by `candidate_id` or resolved from the parsed
+// profile and optional identity fields (_shared/identity.ts): if the
+// candidate already exists for the role, the row is updated and the previous
+// scores are kept in `score_history`; otherwise a new candidate entry is
+// inserted.  The screened candidate is then embedded for semantic search
+// (_shared/embeddings.ts) and a `candidate.screened` event is emitted
+// (_shared/events.ts).  Callers need write access to the role’s org.
 
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { actorOf, requireRole, withAuth } from './_shared/auth.ts';
+import { embedderFromEnv, embedRows, meteredEmbedder } from './_shared/embeddings.ts';
+import { emitCandidateEvent } from './_shared/events.ts';
+import { CandidateFields, mergeFields, resolveCandidate } from './_shared/identity.ts';
+import { LLMClient, llmClient } from './_shared/llm.ts';
+import { callLLMJson, llmErrorResponse } from './_shared/llm_json.ts';
+import { LoadedPrompt, loadPrompt, promptMessages } from './_shared/prompts.ts';
+import { parseProfile, ResumeProfile } from './_shared/resume.ts';
+import { ScreenResultSchema } from './_shared/schemas.ts';
+import { blendScores, deterministicScreen, resolveWeights, scoreProfile } from './_shared/scoring.ts';
+import { transitionStatus } from './_shared/status.ts';
+import { ParsedJD, ScreenResult } from './_shared/types.ts';
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
 const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
-const openAiKey   = Deno.env.get('OPENAI_API_KEY') as string;
 const featureFlags = (Deno.env.get('FEATURE_FLAGS') || '').split(',');
 
 const supabase = createClient(supabaseUrl, supabaseKey, {
@@ -21,68 +46,25 @@ const supabase = createClient(supabaseUrl, supabaseKey, {
 
 interface ScreenResumeRequest {
   role_id: string;
-  resume_text: string;
+  resume_text?: string;
+  candidate_id?: string;
+  name?: string;
+  email?: string;
+  linkedin?: string;
+  public_url?: string;
+  company?: string;
 }
 
-interface ScreenResult {
-  one_liner: string;
-  culture_score: number;
-  technical_score: number;
-  experience_score: number;
-  fit_score: number;
-  top_reasons: string[];
-  interview_focus: string[];
-}
-
-async function callOpenAI(roleId: string, resume: string): Promise<ScreenResult> {
-  // Fetch the parsed JD for context
-  const { data: roleData } = await supabase.from('roles').select('parsed_json').eq('id', roleId).maybeSingle();
-  const jd = roleData?.parsed_json || {};
-  const prompt = `You evaluate a candidate for a specific JD. Return ONLY JSON with: one_liner, culture_score (1–5), technical_score (1–5), experience_score (1–5), fit_score (0–100), top_reasons[] (3 bullets), interview_focus[] (3 bullets).\n\nJD:\n${JSON.stringify(jd)}\n\nResume:\n${resume}`;
-  const resp = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${openAiKey}`,
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o',
-      messages: [
-        { role: 'system', content: 'You are HireLoop screening agent.' },
-        { role: 'user', content: prompt },
-      ],
-      max_tokens: 500,
-      temperature: 0.2,
-    }),
+async function callLLM(llm: LLMClient, prompt: LoadedPrompt, jd: ParsedJD, profile: ResumeProfile): Promise<ScreenResult> {
+  const { data } = await callLLMJson({
+    schema: ScreenResultSchema,
+    messages: promptMessages(prompt, { jd: JSON.stringify(jd), profile: JSON.stringify(profile) }),
+    llm,
   });
-  if (!resp.ok) throw new Error(`OpenAI error: ${resp.status}`);
-  const data = await resp.json();
-  const content = data.choices?.[0]?.message?.content?.trim();
-  try {
-    return JSON.parse(content) as ScreenResult;
-  } catch (_e) {
-    throw new Error('Invalid OpenAI response');
-  }
+  return data;
 }
 
-function mockScreen(): ScreenResult {
-  const rand = () => Math.floor(Math.random() * 5) + 1;
-  const culture = rand();
-  const technical = rand();
-  const experience = rand();
-  const fit = Math.min(100, culture * 20 + technical * 15 + experience * 15 + Math.floor(Math.random() * 20));
-  return {
-    one_liner: 'Seasoned engineer with relevant experience.',
-    culture_score: culture,
-    technical_score: technical,
-    experience_score: experience,
-    fit_score: fit,
-    top_reasons: ['Strong technical background', 'Relevant experience', 'Good cultural fit'],
-    interview_focus: ['System design', 'Team collaboration', 'Technical depth'],
-  };
-}
-
-serve(async (req) => {
+serve(withAuth(supabase, async (req, caller) => {
   if (req.method !== 'POST') {
     return new Response(JSON.stringify({ error: { message: 'Method not allowed' } }), { status: 405 });
   }
@@ -92,32 +74,105 @@ serve(async (req) => {
   } catch (_e) {
     return new Response(JSON.stringify({ error: { message: 'Invalid JSON' } }), { status: 400 });
   }
-  if (!payload.role_id || !payload.resume_text) {
-    return new Response(JSON.stringify({ error: { message: 'role_id and resume_text are required' } }), { status: 400 });
+  if (!payload.role_id || (!payload.resume_text && !payload.candidate_id)) {
+    return new Response(JSON.stringify({ error: { message: 'role_id and resume_text or candidate_id are required' } }), { status: 400 });
+  }
+  const role = await requireRole(supabase, caller, payload.role_id, 'write');
+  let existing: any = null;
+  if (payload.candidate_id) {
+    const { data } = await supabase.from('candidates').select('*').eq('id', payload.candidate_id).eq('role_id', payload.role_id).maybeSingle();
+    if (!data) return new Response(JSON.stringify({ error: { message: 'Candidate not found' } }), { status: 404 });
+    existing = data;
   }
+  let profile: ResumeProfile;
+  if (payload.resume_text) {
+    profile = parseProfile(payload.resume_text);
+  } else if (existing.profile) {
+    profile = existing.profile;
+  } else if (existing.resume_text) {
+    profile = parseProfile(existing.resume_text);
+  } else {
+    return new Response(JSON.stringify({ error: { message: 'Candidate has no resume; ingest one first' } }), { status: 422 });
+  }
+  // The parsed JD and scoring weights give the context
+  const jd = (role.parsed_json || {}) as ParsedJD;
+  const breakdown = scoreProfile(jd, profile, payload.resume_text || existing?.resume_text || '', resolveWeights(role.scoring_weights));
   let result: ScreenResult;
+  // Which prompt version produced the LLM half of the scores; null when none did
+  let promptRef: string | null = null;
   try {
-    if (featureFlags.includes('mock_screen_resume') || !openAiKey) {
-      result = mockScreen();
+    // Mock runs never ask for an LLM, so they log no quota skips
+    const llm = featureFlags.includes('mock_screen_resume') ? null : await llmClient(supabase, 'screen_resume', role.org_id, { max_tokens: 500, temperature: 0.2 });
+    if (!llm?.available) {
+      result = deterministicScreen(profile, breakdown);
     } else {
-      result = await callOpenAI(payload.role_id, payload.resume_text);
+      const prompt = await loadPrompt(supabase, 'screen_resume', role.org_id, payload.candidate_id);
+      promptRef = prompt.ref;
+      result = blendScores(await callLLM(llm, prompt, jd, profile), breakdown);
     }
   } catch (err) {
-    return new Response(JSON.stringify({ error: { message: (err as Error).message } }), { status: 500 });
+    return llmErrorResponse(err);
   }
-  // Upsert candidate record based on role_id and one_liner (simple matching by name can be added)
-  const insert = await supabase.from('candidates').insert({
-    role_id: payload.role_id,
-    name: 'Unknown',
-    current_title: '',
-    company: '',
-    location: '',
+  const fields: CandidateFields = {
     summary: result.one_liner,
     culture_score: result.culture_score,
     technical_score: result.technical_score,
     experience_score: result.experience_score,
     fit_score: result.fit_score,
-    status: 'screened',
-  }).select().single();
-  return new Response(JSON.stringify(result), { headers: { 'Content-Type': 'application/json' }, status: 200 });
-});
\ No newline at end of file
+  };
+  // Only a freshly supplied resume replaces the stored profile
+  const resumeFields = payload.resume_text ? { profile, resume_text: payload.resume_text } : {};
+  const scoreFields = {
+    score_breakdown: breakdown,
+    screening: { top_reasons: result.top_reasons, interview_focus: result.interview_focus, prompt: promptRef },
+  };
+  let candidateId: string;
+  try {
+    if (existing) {
+      const update = { ...mergeFields(existing, fields, 'screen_resume'), ...resumeFields, ...scoreFields };
+      await supabase.from('candidates').update(update).eq('id', existing.id);
+      candidateId = existing.id;
+    } else {
+      const resolved = await resolveCandidate(supabase, payload.role_id, {
+        ...fields,
+        name: payload.name || profile.name || 'Unknown',
+        email: payload.email || profile.email,
+        linkedin: payload.linkedin || profile.linkedin,
+        public_url: payload.public_url || profile.public_url,
+        company: payload.company || profile.current_company || '',
+        current_title: profile.current_title || '',
+        location: profile.location || '',
+        source: 'manual',
+        status: 'screened',
+      }, 'screen_resume');
+      await supabase.from('candidates').update({ ...resumeFields, ...scoreFields }).eq('id', resolved.candidate.id);
+      candidateId = resolved.candidate.id;
+    }
+    // Only sourced candidates move on; anyone further along is left alone
+    await transitionStatus(supabase, candidateId, 'screened', { actor: actorOf(caller, 'screen_resume'), reason: `fit score ${result.fit_score}` });
+  } catch (err) {
+    return new Response(JSON.stringify({ error: { message: (err as Error).message } }), { status: 500 });
+  }
+  try {
+    const { data: screened } = await supabase
+      .from('candidates')
+      .select('id, current_title, company, location, summary, profile, resume_text')
+      .eq('id', candidateId)
+      .single();
+    if (screened) await embedRows(supabase, meteredEmbedder(supabase, embedderFromEnv(), role.org_id, 'screen_resume'), 'candidates', [screened]);
+  } catch (_e) {
+    // The candidate keeps no embedding until the next search backfills it
+  }
+  await emitCandidateEvent(supabase, 'candidate.screened', candidateId, {
+    screening: {
+      fit_score: result.fit_score,
+      culture_score: result.culture_score,
+      technical_score: result.technical_score,
+      experience_score: result.experience_score,
+      summary: result.one_liner,
+      top_reasons: result.top_reasons,
+      prompt: promptRef,
+    },
+  });
+  return new Response(JSON.stringify({ ...result, breakdown, candidate_id: candidateId, prompt: promptRef }), { headers: { 'Content-Type': 'application/json' }, status: 200 });
+}));
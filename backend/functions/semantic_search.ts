@@ -0,0 +1,118 @@
+// semantic_search.ts – Supabase edge function to search the talent pool by meaning
+//
+// Two ways in, both over every candidate of the org (_shared/embeddings.ts):
+//
+//   { org_id, query }   a natural-language query such as "payments backend
+//                       engineer who has led a team", embedded and compared
+//                       with each candidate’s title, summary and resume
+//   { role_id }         the role’s parsed JD matched against the candidates
+//                       of the org’s other roles, to rediscover people who
+//                       applied or were sourced for something else;
+//                       `include_role: true` ranks the role’s own as well
+//
+// `statuses` narrows the candidates and `limit` (default 20, at most 100)
+// caps the results, which are ordered by cosine similarity.  Rows not yet
+// embedded with the current model are embedded first, a bounded number per
+// request.  Any member of the org may search.
+
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { requireOrg, requireRole, withAuth } from './_shared/auth.ts';
+import {
+  backfillEmbeddings,
+  CandidateMatch,
+  embedderFromEnv,
+  embedText,
+  matchCandidates,
+  meteredEmbedder,
+  roleVector,
+} from './_shared/embeddings.ts';
+import { isCandidateStatus } from './_shared/status.ts';
+import { RateLimitError, rateLimitResponse } from './_shared/usage.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
+const backfillLimit = parseInt(Deno.env.get('SEARCH_BACKFILL_LIMIT') || '200', 10);
+const supabase = createClient(supabaseUrl, supabaseKey, { auth: { autoRefreshToken: false, persistSession: false } });
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+interface SearchRequest {
+  org_id?: string;
+  role_id?: string;
+  query?: string;
+  include_role?: boolean;
+  statuses?: string[];
+  limit?: number;
+}
+
+async function loadResults(matches: CandidateMatch[]) {
+  if (!matches.length) return [];
+  const { data, error } = await supabase
+    .from('candidates')
+    .select('id, role_id, name, current_title, company, location, status, source, fit_score, summary, roles(title)')
+    .in('id', matches.map((m) => m.id));
+  if (error) throw new Error(`candidates: ${error.message}`);
+  const byId = new Map<string, any>((data || []).map((c: any) => [c.id, c]));
+  return matches
+    .filter((m) => byId.has(m.id))
+    .map((m) => {
+      const { roles, ...candidate } = byId.get(m.id);
+      return { ...candidate, role_title: roles?.title || null, similarity: m.similarity };
+    });
+}
+
+serve(withAuth(supabase, async (req, caller) => {
+  if (req.method !== 'POST') return new Response(JSON.stringify({ error: { message: 'Method not allowed' } }), { status: 405 });
+  let payload: SearchRequest;
+  try {
+    payload = await req.json();
+  } catch (_e) {
+    return new Response(JSON.stringify({ error: { message: 'Invalid JSON' } }), { status: 400 });
+  }
+  const query = typeof payload.query === 'string' ? payload.query.trim() : '';
+  if (query && payload.role_id) {
+    return new Response(JSON.stringify({ error: { message: 'Pass either query or role_id, not both' } }), { status: 400 });
+  }
+  if (!payload.role_id && !(query && payload.org_id)) {
+    return new Response(JSON.stringify({ error: { message: 'org_id and query, or role_id, are required' } }), { status: 400 });
+  }
+  const statuses = payload.statuses || [];
+  const unknown = statuses.find((s) => !isCandidateStatus(s));
+  if (unknown) return new Response(JSON.stringify({ error: { message: `Unknown status '${unknown}'` } }), { status: 400 });
+  const limit = Math.min(Math.max(payload.limit || DEFAULT_LIMIT, 1), MAX_LIMIT);
+  let orgId = payload.org_id as string;
+  let role: any = null;
+  if (payload.role_id) {
+    role = await requireRole(supabase, caller, payload.role_id, 'read');
+    orgId = role.org_id;
+  } else {
+    requireOrg(caller, orgId, 'read');
+  }
+  const embedder = meteredEmbedder(supabase, embedderFromEnv(), orgId, 'semantic_search');
+  try {
+    const backfilled = await backfillEmbeddings(supabase, embedder, orgId, backfillLimit);
+    const vector = role ? await roleVector(supabase, embedder, role) : await embedText(embedder, query);
+    if (!vector) {
+      return new Response(JSON.stringify({ error: { message: 'The role has no job description to match against' } }), { status: 422 });
+    }
+    const matches = await matchCandidates(supabase, embedder, orgId, vector, {
+      excludeRoleId: role && !payload.include_role ? role.id : null,
+      statuses,
+      limit,
+    });
+    const body = {
+      org_id: orgId,
+      role_id: role?.id || null,
+      query: query || null,
+      model: embedder.model,
+      backfilled,
+      results: await loadResults(matches),
+    };
+    return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' }, status: 200 });
+  } catch (err) {
+    if (err instanceof RateLimitError) return rateLimitResponse(err);
+    return new Response(JSON.stringify({ error: { message: (err as Error).message } }), { status: 500 });
+  }
+}));
@@ -1,18 +1,52 @@
 // send_sequence.ts – Supabase edge function to send outreach sequences
 //
 // For a given candidate, this function will send the next step in their
-// outreach sequence via the configured provider (Apollo or fallback) and
-// schedule the following step.  It writes an engagement event and updates
-// the candidate’s status.  When the `mock_outreach` flag is enabled or
-// provider keys are missing, it logs the action without sending emails.
+// outreach sequence via the configured email provider (SendGrid, Mailgun or
+// SMTP, see _shared/email.ts) and schedule the following step according to
+// the sequence’s delays.  Steps written by the LLM are drafted through
+// generate_outreach when they have not been drafted yet.  It writes an
+// engagement event, moves the candidate to "contacted" and emits an
+// `outreach.sent` event (_shared/events.ts).  Sequences are stopped
+// instead of sent when the candidate has left the outreach statuses (replied,
+// interviewing, rejected, ...).  The provider’s message id is stored in
+// `outreach.thread_id` (first step) and on the `sent` engagement so webhook
+// events can be matched back.  `{{calendly_link}}` is filled with the
+// candidate’s single-use scheduling link (_shared/scheduling.ts), or the
+// static CALENDLY_LINK when no scheduling provider is configured.  When the
+// `mock_outreach` flag is enabled or provider keys are missing, it logs the
+// action without sending emails.  Addresses on the org’s suppression list
+// stop the sequence instead, and every email carries a signed unsubscribe
+// link (_shared/compliance.ts).  Real sends only go to addresses that passed
+// verification (_shared/email_verification.ts); an address never checked is
+// checked first, and one that fails stops the sequence.  Clients of the org
+// cannot send.
+//
+// Real sends count towards the org’s monthly email quota and the provider’s
+// rate limit (_shared/usage.ts).  With the quota used up the step is not
+// sent but moved to the start of next month, and the skip is logged.  The
+// same happens when generate_outreach skips drafting the step because the
+// org’s LLM token quota is used up.
+//
+// The `sent` engagement is written under the key outreach id + step before
+// the email goes out, so a retried call (job_worker, a double click) finds
+// the step already claimed and only finishes advancing the sequence instead
+// of emailing the candidate again.
 
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { actorOf, requireCandidate, withAuth } from './_shared/auth.ts';
+import { findSuppression, unsubscribeParts } from './_shared/compliance.ts';
+import { emailProviderFromEnv, renderEmail } from './_shared/email.ts';
+import { emailConfidence, emailVerifierFromEnv, isContactable } from './_shared/email_verification.ts';
+import { recordEngagement } from './_shared/engagements.ts';
+import { emitCandidateEvent } from './_shared/events.ts';
+import { schedulingLinkFor, schedulingProviderFromEnv } from './_shared/scheduling.ts';
+import { draftStep, loadSequence, nextSendAt, OPEN_OUTREACH_STATUSES, SENDABLE_STATUSES, stopSequences, templateVars } from './_shared/sequences.ts';
+import { transitionStatus } from './_shared/status.ts';
+import { acquireToken, checkQuota, nextPeriodStart, quotaReason, RateLimitError, rateLimitResponse, recordSkip, recordUsage } from './_shared/usage.ts';
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
 const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
-const apolloApiKey = Deno.env.get('APOLLO_API_KEY') as string;
-const sendgridApiKey = Deno.env.get('SENDGRID_API_KEY') as string;
 const featureFlags = (Deno.env.get('FEATURE_FLAGS') || '').split(',');
 
 const supabase = createClient(supabaseUrl, supabaseKey, { auth: { autoRefreshToken: false, persistSession: false } });
@@ -21,7 +55,7 @@ interface SendSequenceRequest {
   candidate_id: string;
 }
 
-serve(async (req) => {
+serve(withAuth(supabase, async (req, caller) => {
   if (req.method !== 'POST') return new Response(JSON.stringify({ error: { message: 'Method not allowed' } }), { status: 405 });
   let payload: SendSequenceRequest;
   try {
@@ -33,22 +67,169 @@ serve(async (req) => {
     return new Response(JSON.stringify({ error: { message: 'candidate_id is required' } }), { status: 400 });
   }
   // Fetch candidate and outreach info
-  const { data: candidate } = await supabase.from('candidates').select('*').eq('id', payload.candidate_id).maybeSingle();
-  if (!candidate) return new Response(JSON.stringify({ error: { message: 'Candidate not found' } }), { status: 404 });
-  // Determine provider; default to apollo
-  const provider = apolloApiKey ? 'apollo' : sendgridApiKey ? 'sendgrid' : 'none';
-  // For simplicity, we won’t actually call external APIs in this demo
-  const mockMode = featureFlags.includes('mock_outreach') || provider === 'none';
-  // Create or update outreach row
-  const { data: existing } = await supabase.from('outreach').select('*').eq('candidate_id', payload.candidate_id).maybeSingle();
-  if (!existing) {
-    await supabase.from('outreach').insert({ candidate_id: payload.candidate_id, provider, step: 1, meta: {}, last_sent_at: new Date().toISOString(), next_send_at: null });
+  const { candidate, role } = await requireCandidate(supabase, caller, payload.candidate_id, 'write');
+  if (!SENDABLE_STATUSES.includes(candidate.status)) {
+    await stopSequences(supabase, payload.candidate_id, `status:${candidate.status}`);
+    return new Response(JSON.stringify({ success: true, stopped: true, reason: `Candidate is ${candidate.status}` }), { headers: { 'Content-Type': 'application/json' }, status: 200 });
+  }
+  const { data: outreach } = await supabase
+    .from('outreach')
+    .select('*')
+    .eq('candidate_id', payload.candidate_id)
+    .in('status', OPEN_OUTREACH_STATUSES)
+    .maybeSingle();
+  if (!outreach) {
+    return new Response(JSON.stringify({ error: { message: 'Candidate has no active outreach sequence' } }), { status: 404 });
+  }
+  // Paused sequences go out again only once their resume time has passed
+  if (outreach.status === 'paused' && !(outreach.next_send_at && new Date(outreach.next_send_at) <= new Date())) {
+    return new Response(JSON.stringify({ error: { message: `Sequence is paused (${outreach.stopped_reason || 'no reason given'})` } }), { status: 409 });
+  }
+  // Suppressed addresses and domains are never emailed again
+  const suppression = candidate.email ? await findSuppression(supabase, role.org_id, candidate.email) : null;
+  if (suppression) {
+    await stopSequences(supabase, payload.candidate_id, `suppressed:${suppression.reason}`);
+    return new Response(JSON.stringify({ success: true, stopped: true, reason: `Address is suppressed (${suppression.reason})` }), { headers: { 'Content-Type': 'application/json' }, status: 200 });
+  }
+  const emailProvider = emailProviderFromEnv();
+  const provider = emailProvider?.name || 'none';
+  const mockMode = featureFlags.includes('mock_outreach') || !emailProvider;
+  if (!mockMode) {
+    if (!candidate.email) {
+      return new Response(JSON.stringify({ error: { message: 'Candidate has no email address' } }), { status: 422 });
+    }
+    // Addresses that were never checked (uploaded resumes, older rows) or
+    // could not be checked last time are verified before the first send
+    let emailStatus: string = candidate.email_status;
+    let reason: string | null = null;
+    if (!emailStatus || emailStatus === 'unverified' || emailStatus === 'unknown') {
+      const verification = await emailVerifierFromEnv().verify(candidate.email);
+      emailStatus = verification.status;
+      reason = verification.reason;
+      const { error } = await supabase
+        .from('candidates')
+        .update({ email_status: emailStatus, email_checked_at: verification.checked_at, contactable: isContactable(emailStatus, emailConfidence(candidate)) })
+        .eq('id', candidate.id);
+      if (error) return new Response(JSON.stringify({ error: { message: `candidates: ${error.message}` } }), { status: 500 });
+    }
+    if (emailStatus === 'unknown') {
+      return new Response(JSON.stringify({ error: { message: `Email address could not be verified: ${reason}` } }), { status: 503 });
+    }
+    if (!isContactable(emailStatus, emailConfidence(candidate))) {
+      await stopSequences(supabase, payload.candidate_id, `email:${emailStatus}`);
+      return new Response(JSON.stringify({ success: true, stopped: true, reason: `Address is not contactable (${emailStatus})` }), { headers: { 'Content-Type': 'application/json' }, status: 200 });
+    }
+  }
+  // The step goes out once next month's allowance starts
+  async function defer(reason: string): Promise<Response> {
+    const resumeAt = nextPeriodStart().toISOString();
+    const { error } = await supabase.from('outreach').update({ next_send_at: resumeAt }).eq('id', outreach.id);
+    if (error) return new Response(JSON.stringify({ error: { message: `outreach: ${error.message}` } }), { status: 500 });
+    return new Response(JSON.stringify({ success: true, skipped: reason, step: outreach.step, next_send_at: resumeAt }), {
+      headers: { 'Content-Type': 'application/json' },
+      status: 200,
+    });
+  }
+  // LLM-written steps are drafted lazily, right before they go out
+  let meta = outreach.meta;
+  if (!meta?.subject || !meta?.body) {
+    const { data: drafted, error } = await supabase.functions.invoke('generate_outreach', {
+      body: { role_id: role.id, candidate_id: candidate.id, step: outreach.step },
+    });
+    if (error || drafted?.error) {
+      const message = error?.message || drafted.error.message;
+      return new Response(JSON.stringify({ error: { message: `Drafting step ${outreach.step} failed: ${message}` } }), { status: 502 });
+    }
+    // generate_outreach logged the skip against the LLM quota
+    if (drafted?.skipped) return await defer(drafted.skipped);
+    meta = drafted;
+  }
+  if (!mockMode) {
+    const quota = await checkQuota(supabase, role.org_id, 'emails_sent');
+    if (!quota.allowed) {
+      const reason = quotaReason(quota);
+      await recordSkip(supabase, { org_id: role.org_id, metric: 'emails_sent', provider, fn: 'send_sequence' }, reason);
+      return await defer(reason);
+    }
+  }
+  // Each candidate gets their own single-use booking link
+  let calendlyLink = '';
+  if (`${meta.subject}${meta.body}`.includes('{{calendly_link}}')) {
+    try {
+      calendlyLink = (await schedulingLinkFor(supabase, schedulingProviderFromEnv(), candidate)).url;
+    } catch (err) {
+      return new Response(JSON.stringify({ error: { message: `Scheduling link failed: ${(err as Error).message}` } }), { status: 502 });
+    }
+  }
+  const email = renderEmail(meta, { ...templateVars(role, candidate), calendly_link: calendlyLink });
+  const sentStep = outreach.step;
+  const sentKey = `sent:${outreach.id}:${sentStep}`;
+  const sentPayload = { provider, mock: mockMode, step: sentStep, message_id: null as string | null, subject: email.subject, prompt: meta.prompt || null };
+  let claimed: boolean;
+  try {
+    claimed = await recordEngagement(supabase, { candidate_id: candidate.id, event: 'sent', key: sentKey, payload: sentPayload });
+  } catch (err) {
+    return new Response(JSON.stringify({ error: { message: (err as Error).message } }), { status: 500 });
+  }
+  let messageId: string | null = null;
+  if (!claimed) {
+    // Sent by an earlier attempt that did not get to advance the sequence
+    const { data: earlier } = await supabase.from('engagements').select('payload').eq('event_key', sentKey).maybeSingle();
+    messageId = earlier?.payload?.message_id || null;
+  } else if (!mockMode) {
+    const usage = { org_id: role.org_id, metric: 'emails_sent' as const, provider, fn: 'send_sequence', quantity: 1 };
+    const started = Date.now();
+    try {
+      await acquireToken(supabase, provider);
+      const unsubscribe = await unsubscribeParts(candidate.id);
+      const result = await emailProvider!.send({
+        to: candidate.email,
+        subject: email.subject,
+        text: email.text + unsubscribe.footer,
+        candidate_id: candidate.id,
+        headers: unsubscribe.headers,
+      });
+      messageId = result.message_id;
+      await recordUsage(supabase, { ...usage, status: 'ok', latency_ms: Date.now() - started });
+    } catch (err) {
+      // Release the step so the next attempt sends it
+      await supabase.from('engagements').delete().eq('event_key', sentKey);
+      if (err instanceof RateLimitError) return rateLimitResponse(err);
+      await recordUsage(supabase, { ...usage, status: 'error', latency_ms: Date.now() - started });
+      return new Response(JSON.stringify({ error: { message: (err as Error).message } }), { status: 502 });
+    }
+    const { error } = await supabase.from('engagements').update({ payload: { ...sentPayload, message_id: messageId } }).eq('event_key', sentKey);
+    if (error) return new Response(JSON.stringify({ error: { message: `engagements: ${error.message}` } }), { status: 500 });
+  }
+  const sentAt = new Date();
+  // Advance to the following step, or complete the sequence after the last one
+  const sequence = await loadSequence(supabase, role.id);
+  const next = sequence.steps[sentStep];
+  const update: Record<string, unknown> = { provider, status: 'active', stopped_reason: null, last_sent_at: sentAt.toISOString() };
+  if (!outreach.thread_id && messageId) update.thread_id = messageId;
+  if (next) {
+    update.step = sentStep + 1;
+    update.template_id = next.template_id || null;
+    update.next_send_at = nextSendAt(sentAt, next);
+    update.meta = (await draftStep(supabase, next, role, candidate)) || {};
   } else {
-    await supabase.from('outreach').update({ step: existing.step + 1, last_sent_at: new Date().toISOString() }).eq('id', existing.id);
-  }
-  // Update candidate status
-  await supabase.from('candidates').update({ status: 'contacted' }).eq('id', payload.candidate_id);
-  // Write engagement event
-  await supabase.from('engagements').insert({ candidate_id: payload.candidate_id, event: 'sent', payload: { provider, mock: mockMode } });
-  return new Response(JSON.stringify({ success: true }), { headers: { 'Content-Type': 'application/json' }, status: 200 });
-});
\ No newline at end of file
+    update.status = 'completed';
+    update.next_send_at = null;
+  }
+  // Only advance from the step we sent; a concurrent attempt may have done it
+  const { error: updateError } = await supabase.from('outreach').update(update).eq('id', outreach.id).eq('step', sentStep);
+  if (updateError) return new Response(JSON.stringify({ error: { message: `outreach: ${updateError.message}` } }), { status: 500 });
+  // Sourced and screened candidates become contacted; later stages are kept
+  await transitionStatus(supabase, payload.candidate_id, 'contacted', { actor: actorOf(caller, 'send_sequence'), reason: `step ${sentStep} sent` });
+  await emitCandidateEvent(supabase, 'outreach.sent', candidate.id, {
+    outreach: { id: outreach.id, step: sentStep, subject: email.subject, provider, message_id: messageId, mock: mockMode },
+  }, { key: sentKey });
+  const body = {
+    success: true,
+    step: sentStep,
+    next_step: next ? sentStep + 1 : null,
+    next_send_at: update.next_send_at,
+    already_sent: !claimed,
+  };
+  return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' }, status: 200 });
+}));
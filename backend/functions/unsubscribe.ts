@@ -0,0 +1,60 @@
+// unsubscribe.ts – Supabase edge function behind the unsubscribe link
+//
+// Every outreach email links here with the candidate id and an HMAC token
+// (_shared/compliance.ts), so the endpoint needs no login and must be deployed
+// with `--no-verify-jwt`.  A GET shows a confirmation page with a button; the
+// POST it submits, or the one-click POST mail clients send for the
+// List-Unsubscribe header (RFC 8058), puts the address on the org’s
+// suppression list, stops any active sequence, records an `unsubscribed`
+// engagement and marks the candidate withdrawn.  Repeating it is harmless.
+
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { suppress, verifyUnsubscribeToken } from './_shared/compliance.ts';
+import { stopSequences } from './_shared/sequences.ts';
+import { transitionStatus } from './_shared/status.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
+const supabase = createClient(supabaseUrl, supabaseKey, { auth: { autoRefreshToken: false, persistSession: false } });
+
+function page(title: string, body: string, status = 200): Response {
+  const html = `<!doctype html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>${title}</title></head>` +
+    `<body style="font-family:system-ui,sans-serif;max-width:32rem;margin:4rem auto;padding:0 1rem"><h1>${title}</h1>${body}</body></html>`;
+  return new Response(html, { headers: { 'Content-Type': 'text/html; charset=utf-8' }, status });
+}
+
+serve(async (req) => {
+  const url = new URL(req.url);
+  const candidateId = url.searchParams.get('c') || '';
+  const token = url.searchParams.get('t') || '';
+  if (req.method !== 'GET' && req.method !== 'POST') return page('Method not allowed', '', 405);
+  let valid = false;
+  try {
+    valid = /^[0-9a-f-]{36}$/i.test(candidateId) && await verifyUnsubscribeToken(candidateId, token);
+  } catch (_e) {
+    return page('Unsubscribe unavailable', '<p>Please reply to the email and ask us to stop instead.</p>', 500);
+  }
+  if (!valid) return page('Invalid link', '<p>This unsubscribe link is not valid.</p>', 400);
+  if (req.method === 'GET') {
+    // Link scanners follow GETs, so unsubscribing takes an explicit POST
+    return page(
+      'Unsubscribe',
+      `<p>Stop all recruiting emails to this address?</p><form method="post" action="${url.pathname}${url.search}"><button type="submit">Unsubscribe</button></form>`,
+    );
+  }
+  const { data: candidate } = await supabase.from('candidates').select('id, email, roles(org_id)').eq('id', candidateId).maybeSingle();
+  // Candidates erased in the meantime are already suppressed
+  if (!candidate) return page('You are unsubscribed', '<p>You will not receive further emails from us.</p>');
+  const orgId = (candidate.roles as any)?.org_id;
+  try {
+    if (orgId) await suppress(supabase, orgId, { email: candidate.email, reason: 'unsubscribed', source: 'unsubscribe_link' });
+  } catch (_e) {
+    return page('Something went wrong', '<p>Please try again, or reply to the email and ask us to stop.</p>', 500);
+  }
+  await stopSequences(supabase, candidateId, 'unsubscribed');
+  const { error } = await supabase.from('engagements').insert({ candidate_id: candidateId, event: 'unsubscribed', payload: { source: 'unsubscribe_link' } });
+  if (error) return page('Something went wrong', '<p>Please try again, or reply to the email and ask us to stop.</p>', 500);
+  await transitionStatus(supabase, candidateId, 'withdrawn', { actor: `candidate:${candidateId}`, reason: 'unsubscribed', source_event: 'unsubscribe_link' });
+  return page('You are unsubscribed', '<p>You will not receive further emails from us.</p>');
+});
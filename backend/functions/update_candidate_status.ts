@@ -0,0 +1,55 @@
+// update_candidate_status.ts – Supabase edge function to move a candidate
+//
+// Recruiters use this to record the stages no automation reaches (offered,
+// hired, rejected, withdrawn) or to move a candidate on by hand.  The move goes
+// through the status state machine (_shared/status.ts): illegal or backward
+// moves are refused with a 409 listing the statuses that are allowed, and
+// every change is written to `candidate_status_history` with the calling user
+// as the actor and the optional `reason`.  Clients of the org cannot move
+// candidates.
+
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { actorOf, requireCandidate, withAuth } from './_shared/auth.ts';
+import { isCandidateStatus, transitionStatus, TRANSITIONS } from './_shared/status.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
+const supabase = createClient(supabaseUrl, supabaseKey, { auth: { autoRefreshToken: false, persistSession: false } });
+
+interface StatusRequest {
+  candidate_id: string;
+  status: string;
+  reason?: string;
+}
+
+serve(withAuth(supabase, async (req, caller) => {
+  if (req.method !== 'POST') return new Response(JSON.stringify({ error: { message: 'Method not allowed' } }), { status: 405 });
+  let body: StatusRequest;
+  try {
+    body = await req.json();
+  } catch (_e) {
+    return new Response(JSON.stringify({ error: { message: 'Invalid JSON' } }), { status: 400 });
+  }
+  if (!body.candidate_id) return new Response(JSON.stringify({ error: { message: 'candidate_id is required' } }), { status: 400 });
+  if (!isCandidateStatus(body.status)) {
+    return new Response(JSON.stringify({ error: { message: `Unknown status '${body.status}'` } }), { status: 400 });
+  }
+  await requireCandidate(supabase, caller, body.candidate_id, 'write');
+  let result;
+  try {
+    result = await transitionStatus(supabase, body.candidate_id, body.status, {
+      actor: actorOf(caller, 'update_candidate_status'),
+      reason: body.reason || null,
+      source_event: 'manual',
+    });
+  } catch (err) {
+    return new Response(JSON.stringify({ error: { message: (err as Error).message } }), { status: 500 });
+  }
+  if (result.refused) {
+    const allowed = result.from && isCandidateStatus(result.from) ? TRANSITIONS[result.from] : [];
+    return new Response(JSON.stringify({ error: { message: result.refused }, allowed }), { status: 409 });
+  }
+  const response = { candidate_id: body.candidate_id, from: result.from, to: result.to, changed: result.changed };
+  return new Response(JSON.stringify(response), { headers: { 'Content-Type': 'application/json' }, status: 200 });
+}));
@@ -0,0 +1,110 @@
+// usage_summary.ts – Supabase edge function to report an org’s paid API usage
+//
+// For one org and calendar month (`period`, 'YYYY-MM', default the current
+// one) this returns each quota with its limit, usage and remainder, the
+// estimated cost in USD broken down by provider, function and metric, and
+// the most recent work that was skipped because a quota ran out.  Figures
+// come from the usage ledger written by _shared/usage.ts.  Any member of the
+// org may read it.
+
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { requireOrg, withAuth } from './_shared/auth.ts';
+import { quotaLimits, USAGE_METRICS, usagePeriod, usedThisPeriod } from './_shared/usage.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
+const supabase = createClient(supabaseUrl, supabaseKey, { auth: { autoRefreshToken: false, persistSession: false } });
+
+const PAGE_SIZE = 1000;
+
+interface UsageSummaryRequest {
+  org_id: string;
+  period?: string;
+}
+
+interface Bucket {
+  calls: number;
+  quantity: number;
+  cost_usd: number;
+}
+
+function add(groups: Record<string, Bucket>, key: string, row: any) {
+  const group = (groups[key] ||= { calls: 0, quantity: 0, cost_usd: 0 });
+  group.calls++;
+  group.quantity += Number(row.quantity) || 0;
+  group.cost_usd += Number(row.cost_usd) || 0;
+}
+
+function round(groups: Record<string, Bucket>): Record<string, Bucket> {
+  for (const group of Object.values(groups)) group.cost_usd = Math.round(group.cost_usd * 1e6) / 1e6;
+  return groups;
+}
+
+serve(withAuth(supabase, async (req, caller) => {
+  if (req.method !== 'POST') return new Response(JSON.stringify({ error: { message: 'Method not allowed' } }), { status: 405 });
+  let payload: UsageSummaryRequest;
+  try {
+    payload = await req.json();
+  } catch (_e) {
+    return new Response(JSON.stringify({ error: { message: 'Invalid JSON' } }), { status: 400 });
+  }
+  if (!payload.org_id) return new Response(JSON.stringify({ error: { message: 'org_id is required' } }), { status: 400 });
+  const period = payload.period || usagePeriod();
+  if (!/^\d{4}-\d{2}$/.test(period)) {
+    return new Response(JSON.stringify({ error: { message: "period must look like 'YYYY-MM'" } }), { status: 400 });
+  }
+  requireOrg(caller, payload.org_id, 'read');
+  const from = new Date(`${period}-01T00:00:00Z`);
+  const to = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + 1, 1));
+
+  const byProvider: Record<string, Bucket> = {};
+  const byFunction: Record<string, Bucket> = {};
+  const byMetric: Record<string, Bucket> = {};
+  const skipped: { metric: string; function: string; reason: unknown; created_at: string }[] = [];
+  let total = 0;
+  try {
+    const [limits, used] = await Promise.all([quotaLimits(supabase, payload.org_id), usedThisPeriod(supabase, payload.org_id, period)]);
+    // PostgREST caps each response, so the month is read page by page
+    for (let offset = 0;; offset += PAGE_SIZE) {
+      const { data: rows, error } = await supabase
+        .from('usage_ledger')
+        .select('metric, provider, function, quantity, cost_usd, status, meta, created_at')
+        .eq('org_id', payload.org_id)
+        .gte('created_at', from.toISOString())
+        .lt('created_at', to.toISOString())
+        .order('created_at', { ascending: false })
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (error) throw new Error(`usage_ledger: ${error.message}`);
+      for (const row of rows || []) {
+        if (row.status === 'skipped') {
+          if (skipped.length < 20) skipped.push({ metric: row.metric, function: row.function, reason: row.meta?.reason, created_at: row.created_at });
+          continue;
+        }
+        add(byProvider, row.provider, row);
+        add(byFunction, row.function, row);
+        add(byMetric, row.metric, row);
+        total += Number(row.cost_usd) || 0;
+      }
+      if (!rows || rows.length < PAGE_SIZE) break;
+    }
+    const quotas = Object.fromEntries(USAGE_METRICS.map((metric) => [metric, {
+      limit: limits[metric],
+      used: used[metric],
+      remaining: limits[metric] === null ? null : Math.max(limits[metric]! - used[metric], 0),
+    }]));
+    const body = {
+      org_id: payload.org_id,
+      period,
+      quotas,
+      cost_usd: Math.round(total * 1e6) / 1e6,
+      by_provider: round(byProvider),
+      by_function: round(byFunction),
+      by_metric: round(byMetric),
+      skipped,
+    };
+    return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' }, status: 200 });
+  } catch (err) {
+    return new Response(JSON.stringify({ error: { message: (err as Error).message } }), { status: 500 });
+  }
+}));
@@ -0,0 +1,105 @@
+// webhook_deliveries.ts – Supabase edge function to inspect and replay outbound webhooks
+//
+//   action 'list'    returns the org’s deliveries, newest first, optionally
+//                    filtered by `subscription_id`, `status` and `event_type`
+//   action 'replay'  sends deliveries again: one by `delivery_id`, or every
+//                    failed delivery of the org (optionally of one
+//                    `subscription_id` or `event_type`)
+//   action 'test'    sends a `ping` event to `subscription_id`
+//
+// Deliveries are made in the background by job_worker (_shared/events.ts);
+// replays and tests are queued the same way, so the response only says what
+// was queued.  Subscriptions hold their signing secret, so only owners of the
+// org may see or replay deliveries, as they can through RLS.
+
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { AuthError, Caller, requireOrg, withAuth } from './_shared/auth.ts';
+import { queueDelivery, replayDelivery, WebhookDelivery } from './_shared/events.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
+const supabase = createClient(supabaseUrl, supabaseKey, { auth: { autoRefreshToken: false, persistSession: false } });
+
+interface WebhookDeliveriesRequest {
+  action: 'list' | 'replay' | 'test';
+  org_id?: string;
+  delivery_id?: string;
+  subscription_id?: string;
+  status?: string;
+  event_type?: string;
+  limit?: number;
+}
+
+function requireOwner(caller: Caller, orgId: string) {
+  const accessRole = requireOrg(caller, orgId, 'write');
+  if (accessRole && accessRole !== 'owner') throw new AuthError('Only owners can manage webhooks', 403);
+}
+
+function json(body: unknown): Response {
+  return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' }, status: 200 });
+}
+
+serve(withAuth(supabase, async (req, caller) => {
+  if (req.method !== 'POST') return new Response(JSON.stringify({ error: { message: 'Method not allowed' } }), { status: 405 });
+  let body: WebhookDeliveriesRequest;
+  try {
+    body = await req.json();
+  } catch (_e) {
+    return new Response(JSON.stringify({ error: { message: 'Invalid JSON' } }), { status: 400 });
+  }
+  if (!['list', 'replay', 'test'].includes(body.action)) {
+    return new Response(JSON.stringify({ error: { message: "action must be 'list', 'replay' or 'test'" } }), { status: 400 });
+  }
+
+  if (body.action === 'replay' && body.delivery_id) {
+    const { data: delivery } = await supabase.from('webhook_deliveries').select('id, org_id, status, replays').eq('id', body.delivery_id).maybeSingle();
+    // Deliveries of other orgs are reported as forbidden, not missing
+    if (!delivery) throw new AuthError(caller.internal ? 'Delivery not found' : 'Not a member of this organisation', caller.internal ? 404 : 403);
+    requireOwner(caller, delivery.org_id);
+    if (delivery.status === 'pending' || delivery.status === 'retrying') {
+      return new Response(JSON.stringify({ error: { message: `This delivery is still ${delivery.status}` } }), { status: 409 });
+    }
+    const replayed = await replayDelivery(supabase, delivery);
+    return json({ replayed: replayed ? [delivery.id] : [] });
+  }
+
+  if (body.action === 'test') {
+    if (!body.subscription_id) return new Response(JSON.stringify({ error: { message: 'subscription_id is required' } }), { status: 400 });
+    const { data: subscription } = await supabase.from('webhook_subscriptions').select('id, org_id').eq('id', body.subscription_id).maybeSingle();
+    if (!subscription) throw new AuthError(caller.internal ? 'Subscription not found' : 'Not a member of this organisation', caller.internal ? 404 : 403);
+    requireOwner(caller, subscription.org_id);
+    const event = {
+      id: `evt_${crypto.randomUUID().replace(/-/g, '')}`,
+      type: 'ping' as const,
+      created_at: new Date().toISOString(),
+      org_id: subscription.org_id,
+      data: { subscription_id: subscription.id },
+    };
+    try {
+      await queueDelivery(supabase, subscription.id, event);
+    } catch (err) {
+      return new Response(JSON.stringify({ error: { message: (err as Error).message } }), { status: 500 });
+    }
+    return json({ queued: event.id });
+  }
+
+  if (!body.org_id) return new Response(JSON.stringify({ error: { message: 'org_id is required' } }), { status: 400 });
+  requireOwner(caller, body.org_id);
+  let query = supabase.from('webhook_deliveries').select('*').eq('org_id', body.org_id);
+  if (body.subscription_id) query = query.eq('subscription_id', body.subscription_id);
+  if (body.event_type) query = query.eq('event_type', body.event_type);
+  if (body.action === 'replay') {
+    const { data: failed, error } = await query.eq('status', 'failed').limit(body.limit ?? 100);
+    if (error) return new Response(JSON.stringify({ error: { message: error.message } }), { status: 500 });
+    const replayed: string[] = [];
+    for (const delivery of (failed || []) as WebhookDelivery[]) {
+      if (await replayDelivery(supabase, delivery)) replayed.push(delivery.id);
+    }
+    return json({ replayed });
+  }
+  if (body.status) query = query.eq('status', body.status);
+  const { data: deliveries, error } = await query.order('created_at', { ascending: false }).limit(body.limit ?? 100);
+  if (error) return new Response(JSON.stringify({ error: { message: error.message } }), { status: 500 });
+  return json({ deliveries });
+}));
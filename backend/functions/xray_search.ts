@@ -1,19 +1,32 @@
 // xray_search.ts – Supabase edge function to perform X‑ray style sourcing
 //
-// Given a role ID and optional overrides, this function generates boolean
-// search queries from the JD keywords and calls the Google Custom Search API
-// (or Bing) to find publicly available profile URLs.  Results are
-// de‑duplicated and returned as an array of leads.  When the
-// `mock_xray_search` feature flag is enabled or no Google credentials are
-// provided, the function returns a few dummy leads instead.
+// Given a role ID and optional overrides, this function builds boolean query
+// variants from the parsed JD (_shared/xray.ts): title variants, required
+// skills with their synonyms, location and `site:` operators for LinkedIn
+// and GitHub profiles.  Each query is paged through on the configured search
+// provider (Google Custom Search, `SEARCH_PROVIDER`) until enough leads are
+// found, and every hit is parsed into name, title, company and location.
+// Results are de‑duplicated by normalised URL, people already in the role’s
+// pipeline are skipped, and the rest are returned as an array of leads.
+// `query_overrides` are run verbatim instead of the built queries.  When the
+// `mock_xray_search` feature flag is enabled or no search credentials are
+// provided, the function returns a few dummy leads instead.  Sourcing spends
+// search quota, so clients of the org cannot run it.  Every search request
+// takes a token from the provider’s rate limit and is written to the usage
+// ledger; once the org’s monthly search quota is used up the search stops
+// early, or is skipped with an empty result (_shared/usage.ts).
 
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.24.0';
+import { requireRole, withAuth } from './_shared/auth.ts';
+import { normaliseUrl } from './_shared/identity.ts';
+import { ParsedJD } from './_shared/types.ts';
+import { acquireToken, checkQuota, quotaReason, RateLimitError, rateLimitResponse, recordSkip, recordUsage } from './_shared/usage.ts';
+import { buildQueries, Lead, runXray, SearchProvider, searchProviderFromEnv, XrayQuery, XraySite } from './_shared/xray.ts';
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
 const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
-const googleCseId = Deno.env.get('GOOGLE_CSE_ID') as string;
-const googleCseKey = Deno.env.get('GOOGLE_CSE_KEY') as string;
+const maxPages = parseInt(Deno.env.get('XRAY_MAX_PAGES') || '3', 10);
 const featureFlags = (Deno.env.get('FEATURE_FLAGS') || '').split(',');
 
 const supabase = createClient(supabaseUrl, supabaseKey, {
@@ -23,46 +36,52 @@ const supabase = createClient(supabaseUrl, supabaseKey, {
 interface XrayRequest {
   role_id: string;
   query_overrides?: string[];
+  sites?: XraySite[];
   count?: number;
 }
 
-interface Lead {
-  name: string;
-  title: string;
-  company: string;
-  location: string;
-  public_url: string;
-}
-
 function mockLeads(): Lead[] {
   return [
-    { name: 'Grace Hopper', title: 'Senior Backend Engineer', company: 'DemoCo', location: 'Austin, TX', public_url: 'https://example.com/grace' },
-    { name: 'Linus Torvalds', title: 'Kernel Developer', company: 'Open Source', location: 'Portland, OR', public_url: 'https://example.com/linus' },
-    { name: 'Ada Lovelace', title: 'Software Architect', company: 'MathWorks', location: 'London, UK', public_url: 'https://example.com/ada' },
+    { name: 'Grace Hopper', title: 'Senior Backend Engineer', company: 'DemoCo', location: 'Austin, TX', public_url: 'https://www.linkedin.com/in/grace-hopper-demo', source: 'linkedin' },
+    { name: 'Linus Torvalds', title: 'Kernel Developer', company: 'Open Source', location: 'Portland, OR', public_url: 'https://github.com/linus-demo', source: 'github' },
+    { name: 'Ada Lovelace', title: 'Software Architect', company: 'MathWorks', location: 'London, UK', public_url: 'https://www.linkedin.com/in/ada-lovelace-demo', source: 'linkedin' },
   ];
 }
 
-async function searchGoogle(query: string, limit: number): Promise<Lead[]> {
-  const url = new URL('https://www.googleapis.com/customsearch/v1');
-  url.searchParams.set('key', googleCseKey);
-  url.searchParams.set('cx', googleCseId);
-  url.searchParams.set('q', query);
-  url.searchParams.set('num', Math.min(limit, 10).toString());
-  const resp = await fetch(url.toString());
-  if (!resp.ok) throw new Error(`Google CSE error ${resp.status}`);
-  const data = await resp.json();
-  const items = data.items || [];
-  const leads: Lead[] = [];
-  for (const item of items) {
-    // Attempt to extract name/title from snippet
-    const title = item.title || '';
-    const snippet = item.snippet || '';
-    leads.push({ name: title.split('–')[0] || title, title: title, company: '', location: '', public_url: item.link });
+// URLs of everyone already in the role’s pipeline
+async function pipelineUrls(roleId: string): Promise<Set<string>> {
+  const seen = new Set<string>();
+  const { data: existing } = await supabase.from('candidates').select('linkedin, public_url').eq('role_id', roleId);
+  for (const c of existing || []) {
+    for (const url of [c.linkedin, c.public_url]) {
+      const key = normaliseUrl(url);
+      if (key) seen.add(key);
+    }
   }
-  return leads;
+  return seen;
+}
+
+// Each request waits for the provider’s rate limit and lands in the ledger
+function meteredProvider(provider: SearchProvider, orgId: string): SearchProvider {
+  return {
+    ...provider,
+    async search(query, offset, count) {
+      await acquireToken(supabase, provider.name);
+      const started = Date.now();
+      const entry = { org_id: orgId, metric: 'search_queries' as const, provider: provider.name, fn: 'xray_search', quantity: 1 };
+      try {
+        const results = await provider.search(query, offset, count);
+        await recordUsage(supabase, { ...entry, status: 'ok', latency_ms: Date.now() - started, meta: { query, offset } });
+        return results;
+      } catch (err) {
+        await recordUsage(supabase, { ...entry, status: 'error', latency_ms: Date.now() - started, meta: { query, offset } });
+        throw err;
+      }
+    },
+  };
 }
 
-serve(async (req) => {
+serve(withAuth(supabase, async (req, caller) => {
   if (req.method !== 'POST') return new Response(JSON.stringify({ error: { message: 'Method not allowed' } }), { status: 405 });
   let payload: XrayRequest;
   try {
@@ -74,19 +93,35 @@ serve(async (req) => {
     return new Response(JSON.stringify({ error: { message: 'role_id is required' } }), { status: 400 });
   }
   const count = payload.count || 5;
-  // Get keywords from parsed JD
-  const { data: role } = await supabase.from('roles').select('parsed_json').eq('id', payload.role_id).maybeSingle();
-  const parsed = role?.parsed_json || {};
-  const keywords: string[] = payload.query_overrides ?? parsed.keywords ?? [];
-  if (featureFlags.includes('mock_xray_search') || !googleCseKey || !googleCseId) {
-    const leads = mockLeads().slice(0, count);
+  const role = await requireRole(supabase, caller, payload.role_id, 'write');
+  const jd = (role.parsed_json || {}) as ParsedJD;
+  const queries = payload.query_overrides?.length
+    ? payload.query_overrides.map((query): XrayQuery => ({ site: null, query }))
+    : buildQueries(jd, payload.sites);
+  const seen = await pipelineUrls(payload.role_id);
+  const provider = searchProviderFromEnv();
+  if (featureFlags.includes('mock_xray_search') || !provider) {
+    const leads = mockLeads().filter((lead) => !seen.has(normaliseUrl(lead.public_url) || '')).slice(0, count);
     return new Response(JSON.stringify(leads), { headers: { 'Content-Type': 'application/json' }, status: 200 });
   }
-  const query = keywords.join(' OR ');
+  if (queries.length === 0) {
+    return new Response(JSON.stringify({ error: { message: 'Role has no parsed JD to build queries from' } }), { status: 422 });
+  }
+  const quota = await checkQuota(supabase, role.org_id, 'search_queries');
+  if (!quota.allowed) {
+    await recordSkip(supabase, { org_id: role.org_id, metric: 'search_queries', provider: provider.name, fn: 'xray_search' }, quotaReason(quota));
+    return new Response(JSON.stringify([]), { headers: { 'Content-Type': 'application/json' }, status: 200 });
+  }
   try {
-    const leads = await searchGoogle(query, count);
+    const { leads } = await runXray(meteredProvider(provider, role.org_id), queries, {
+      limit: count,
+      maxPages,
+      seen,
+      maxRequests: quota.remaining ?? undefined,
+    });
     return new Response(JSON.stringify(leads), { headers: { 'Content-Type': 'application/json' }, status: 200 });
   } catch (err) {
+    if (err instanceof RateLimitError) return rateLimitResponse(err);
     return new Response(JSON.stringify({ error: { message: (err as Error).message } }), { status: 500 });
   }
-});
\ No newline at end of file
+}));
@@ -9,6 +9,7 @@
 -- Enable required extensions
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 CREATE EXTENSION IF NOT EXISTS pgcrypto;
+CREATE EXTENSION IF NOT EXISTS vector;  -- pgvector, for JD and candidate embeddings
 
 -- Profiles table mirrors auth.users.  Additional fields (full_name, role)
 -- are stored here.  The primary key matches auth.users.id.
@@ -47,6 +48,11 @@ CREATE TABLE IF NOT EXISTS public.roles (
   mode           text DEFAULT 'standard',  -- 'standard' | 'interested_only'
   status         text DEFAULT 'open',       -- open|paused|closed
   min_pipeline   int DEFAULT 10,
+  scoring_weights jsonb,           -- overrides for _shared/scoring.ts DEFAULT_WEIGHTS
+  ats_job_id     text,             -- Greenhouse job / Lever posting candidates are pushed to
+  embedding      vector,           -- embedding of the parsed JD (functions/_shared/embeddings.ts); cleared when the JD changes
+  embedding_model text,            -- model that produced `embedding`; only vectors of the same model are compared
+  embedded_at    timestamptz,
   created_at     timestamptz DEFAULT now()
 );
 
@@ -59,55 +65,492 @@ CREATE TABLE IF NOT EXISTS public.candidates (
   company           text,
   location          text,
   linkedin          text,
+  email             text,
+  email_status      text,           -- valid|invalid|no_mx|catch_all|mx_only|unknown|unverified; null until checked (functions/_shared/email_verification.ts)
+  email_checked_at  timestamptz,
+  contactable       boolean DEFAULT false,  -- email passed verification; required for real sends
+  enrichment        jsonb,          -- { match_status, fields: { <field>: { value, confidence, source } }, tried[], verification } from the last enrichment
   public_url        text,           -- GitHub/blog/portfolio/company page
-  resume_url        text,           -- storage signed URL
+  resume_url        text,           -- storage path (<bucket>/<path>) of the uploaded resume
+  resume_text       text,           -- text extracted from the resume
+  profile           jsonb,          -- structured profile parsed from the resume
   summary           text,
   culture_score     int,
   technical_score   int,
   experience_score  int,
   fit_score         int,            -- 0..100
-  status            text DEFAULT 'sourced',  -- sourced|contacted|interested|screened|interviewing|offered|hired|rejected
+  score_breakdown   jsonb,          -- per-criterion deterministic scoring breakdown
+  screening         jsonb,          -- { top_reasons[], interview_focus[], prompt } from the last screen; prompt is the ref of the prompt version used
+  score_history     jsonb DEFAULT '[]',   -- previous scores, appended on every screen
+  also_in_roles     uuid[] DEFAULT '{}',  -- other roles in the org with the same person
+  source            text,           -- how the person entered the pipeline: xray|apollo|upload|manual|rediscovered
+  embedding         vector,         -- embedding of title, summary, skills and resume; cleared when they change (clear_stale_embedding)
+  embedding_model   text,
+  embedded_at       timestamptz,
+  status            text DEFAULT 'sourced',  -- sourced|screened|contacted|interested|interviewing|offered|hired|rejected|withdrawn; changed only through functions/_shared/status.ts
   created_at        timestamptz DEFAULT now()
 );
 
--- Outreach table records email sequences for candidates
+-- Reusable outreach email templates.  Subject and body may use the
+-- {{candidate_name}}, {{first_name}}, {{role_title}}, {{company}} and
+-- {{calendly_link}} placeholders.
+CREATE TABLE IF NOT EXISTS public.outreach_templates (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id      uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name        text,
+  subject     text NOT NULL,
+  body        text NOT NULL,
+  created_at  timestamptz DEFAULT now()
+);
+
+-- Outreach sequences per role.  `steps` is an ordered array of
+-- { delay_hours, template_id?, subject?, body? }; a step without a template or
+-- inline copy is written by the LLM.  Roles without an active sequence use the
+-- built-in default in functions/_shared/sequences.ts.
+CREATE TABLE IF NOT EXISTS public.sequences (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  role_id     uuid REFERENCES public.roles(id) ON DELETE CASCADE,
+  name        text,
+  steps       jsonb NOT NULL DEFAULT '[]',
+  active      boolean DEFAULT true,
+  created_at  timestamptz DEFAULT now()
+);
+
+-- Outreach table records email sequences for candidates.  `step` is the next
+-- step to send and `meta` holds its drafted subject/body.
 CREATE TABLE IF NOT EXISTS public.outreach (
-  id           uuid PRIMARY KEY DEFAULT gen_random_uuid(),
-  candidate_id uuid REFERENCES public.candidates(id) ON DELETE CASCADE,
-  provider     text,             -- 'apollo'|'sendgrid'|'mailgun'
-  thread_id    text,
-  step         int DEFAULT 1,
-  template_id  text,
-  last_sent_at timestamptz,
-  next_send_at timestamptz,
-  meta         jsonb
+  id             uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  candidate_id   uuid REFERENCES public.candidates(id) ON DELETE CASCADE,
+  sequence_id    uuid REFERENCES public.sequences(id) ON DELETE SET NULL,
+  provider       text,             -- 'sendgrid'|'mailgun'|'smtp'|'none'
+  thread_id      text,             -- provider message id of the first step
+  step           int DEFAULT 1,
+  template_id    text,
+  status         text DEFAULT 'active',  -- active|paused|completed|stopped
+  stopped_reason text,
+  last_sent_at   timestamptz,
+  next_send_at   timestamptz,
+  meta           jsonb
 );
 
 -- Engagement events: opens, replies, scheduled meetings, etc.
 CREATE TABLE IF NOT EXISTS public.engagements (
   id           uuid PRIMARY KEY DEFAULT gen_random_uuid(),
   candidate_id uuid REFERENCES public.candidates(id) ON DELETE CASCADE,
-  event        text,              -- sent|opened|replied|scheduled|bounced
+  event        text,              -- sent|delivered|opened|clicked|replied|scheduling_link|scheduled|rescheduled|canceled|bounced|unsubscribed|spam_reported
+  classification text,            -- replies only: interested|not_now|not_interested|referral|out_of_office|unsubscribe
+  confidence   real,              -- replies only: classifier confidence 0–1
+  event_key    text UNIQUE,       -- dedupe key, e.g. 'sendgrid:<sg_event_id>' or 'sent:<outreach id>:<step>'
   payload      jsonb,
   created_at   timestamptz DEFAULT now()
 );
 
--- Config table stores editable JSON settings and prompts
+-- Interviews booked through a scheduling provider (_shared/scheduling.ts).
+-- A row is `pending` while the candidate holds an unused single-use link.
+CREATE TABLE IF NOT EXISTS public.interviews (
+  id                  uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  candidate_id        uuid REFERENCES public.candidates(id) ON DELETE CASCADE,
+  role_id             uuid REFERENCES public.roles(id) ON DELETE CASCADE,
+  provider            text NOT NULL,  -- 'calendly'|'fake'
+  status              text DEFAULT 'pending',  -- pending|scheduled|canceled
+  scheduling_url      text,           -- single-use booking link sent to the candidate
+  provider_event_uri  text,           -- Calendly scheduled event
+  invitee_uri         text,           -- Calendly invitee, used to follow reschedules
+  start_at            timestamptz,
+  end_at              timestamptz,
+  join_url            text,
+  interviewer_email   text,
+  sequence            int DEFAULT 0,  -- ICS SEQUENCE, bumped on every reschedule
+  ics                 text,
+  created_at          timestamptz DEFAULT now(),
+  updated_at          timestamptz DEFAULT now()
+);
+
+-- Every candidate status change (functions/_shared/status.ts).  The first row
+-- of a candidate has no from_status and records the status it was created with.
+CREATE TABLE IF NOT EXISTS public.candidate_status_history (
+  id            uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  candidate_id  uuid REFERENCES public.candidates(id) ON DELETE CASCADE,
+  from_status   text,
+  to_status     text NOT NULL,
+  actor         text NOT NULL,   -- 'user:<id>', 'system:<function>' or 'webhook:<provider>'
+  reason        text,
+  source_event  text,            -- what caused the change, e.g. 'sendgrid:<event id>'
+  created_at    timestamptz DEFAULT now()
+);
+
+-- Raw provider webhook requests kept for auditing.  The nonce is the
+-- provider's per-request signature token; the unique constraint rejects replays.
+CREATE TABLE IF NOT EXISTS public.webhook_requests (
+  id           uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider     text NOT NULL,      -- 'sendgrid'|'mailgun'|'apollo'|'calendly'|'<provider>_inbound'
+  nonce        text NOT NULL,
+  raw_body     text,
+  received_at  timestamptz DEFAULT now(),
+  UNIQUE (provider, nonce)
+);
+
+-- Durable job queue (functions/_shared/jobs.ts), drained by job_worker.  A
+-- job is claimed by bumping `attempts` while it is queued or its lock has
+-- expired; failures are retried with exponential backoff until max_attempts,
+-- then left `dead` for replay_jobs.  The idempotency key makes enqueueing the
+-- same work twice a no-op.
+CREATE TABLE IF NOT EXISTS public.jobs (
+  id               uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id           uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  kind             text NOT NULL,    -- edge function to invoke, 'webhook_events', 'ats_push', 'screen_batch' or 'webhook_delivery'
+  payload          jsonb,
+  idempotency_key  text NOT NULL,
+  status           text NOT NULL DEFAULT 'queued',  -- queued|running|succeeded|dead
+  attempts         int NOT NULL DEFAULT 0,
+  max_attempts     int NOT NULL DEFAULT 5,
+  run_at           timestamptz NOT NULL DEFAULT now(),  -- not picked up before this
+  locked_until     timestamptz,      -- visibility timeout of the current attempt
+  last_error       text,
+  result           jsonb,
+  created_at       timestamptz DEFAULT now(),
+  finished_at      timestamptz,
+  UNIQUE (kind, idempotency_key)
+);
+
+-- Org-wide suppression list (functions/_shared/compliance.ts).  Email entries
+-- hold the SHA-256 of the normalised address, domain entries the bare domain.
+CREATE TABLE IF NOT EXISTS public.suppressions (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id      uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  kind        text NOT NULL CHECK (kind IN ('email','domain')),
+  value       text NOT NULL,
+  reason      text NOT NULL,    -- bounced|spam_reported|unsubscribed|erased|manual
+  source      text,             -- provider event, 'unsubscribe_link', 'data_subject', ...
+  created_at  timestamptz DEFAULT now(),
+  UNIQUE (org_id, kind, value)
+);
+
+-- Audit log of data-subject export and erasure requests (data_subject)
+CREATE TABLE IF NOT EXISTS public.data_subject_requests (
+  id            uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id        uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  action        text NOT NULL,  -- 'export'|'erase'
+  email_hash    text,           -- SHA-256 of the normalised address, never the address
+  requested_by  uuid REFERENCES public.profiles(id),
+  matched       int DEFAULT 0,  -- candidate rows found
+  created_at    timestamptz DEFAULT now()
+);
+
+-- One row per paid provider call (LLM requests with their repairs and
+-- retries, searches, Apollo requests, emails) for cost accounting, plus rows
+-- with status 'skipped' for work a quota stopped (functions/_shared/usage.ts)
+CREATE TABLE IF NOT EXISTS public.usage_ledger (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id      uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  metric      text NOT NULL,   -- 'enrich_credits'|'search_queries'|'llm_tokens'|'emails_sent'
+  provider    text NOT NULL,   -- 'openai'|'anthropic'|'apollo'|'google'|'sendgrid'|'mailgun'|'smtp'
+  function    text NOT NULL,   -- edge function that made the call
+  quantity    numeric NOT NULL DEFAULT 0,  -- credits, queries, tokens or emails
+  cost_usd    numeric(12,6) DEFAULT 0,     -- list-price estimate
+  latency_ms  int,
+  status      text,            -- 'ok', 'error', 'skipped' or the HTTP status of the failure
+  meta        jsonb,           -- model and token split for LLM calls, skip reason, ...
+  created_at  timestamptz DEFAULT now()
+);
+
+-- Running monthly totals per org and metric, checked against the quotas
+CREATE TABLE IF NOT EXISTS public.usage_counters (
+  org_id   uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  period   text NOT NULL,    -- calendar month in UTC, 'YYYY-MM'
+  metric   text NOT NULL,
+  used     numeric NOT NULL DEFAULT 0,
+  PRIMARY KEY (org_id, period, metric)
+);
+
+-- Token buckets of the per-provider rate limits, shared by all orgs
+CREATE TABLE IF NOT EXISTS public.rate_limit_buckets (
+  bucket       text PRIMARY KEY,  -- provider name
+  tokens       real NOT NULL,
+  refilled_at  timestamptz NOT NULL
+);
+
+-- ATS connection of an org (functions/_shared/ats.ts).  Candidates reaching
+-- one of `push_statuses` on a role with an `ats_job_id` are pushed as
+-- prospects; stage changes are pulled back through `stage_map`.
+CREATE TABLE IF NOT EXISTS public.ats_connections (
+  id             uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id         uuid UNIQUE REFERENCES public.organizations(id) ON DELETE CASCADE,
+  provider       text NOT NULL,      -- 'greenhouse'|'lever'
+  base_url       text,               -- API root; null for the provider's own.  Other hosts only with ATS_ALLOW_CUSTOM_BASE_URL (development)
+  on_behalf_of   text,               -- ATS user id writes are made as
+  push_statuses  text[] DEFAULT '{interested,interviewing}',
+  field_map      jsonb DEFAULT '{}', -- ATS field -> candidate column or path, e.g. {"fit": "fit_score"}
+  stage_map      jsonb DEFAULT '{}', -- ATS stage name -> candidate status
+  active         boolean DEFAULT true,
+  synced_at      timestamptz,        -- stage changes pulled up to here
+  created_at     timestamptz DEFAULT now()
+);
+
+-- Which ATS record belongs to which candidate
+CREATE TABLE IF NOT EXISTS public.ats_links (
+  id                  uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  connection_id       uuid REFERENCES public.ats_connections(id) ON DELETE CASCADE,
+  candidate_id        uuid REFERENCES public.candidates(id) ON DELETE CASCADE,
+  ats_candidate_id    text,           -- Greenhouse candidate / Lever opportunity; null while the push is pending
+  ats_application_id  text,           -- Greenhouse application / Lever opportunity
+  ats_stage           text,           -- last stage seen, or 'rejected' / 'hired'
+  pushed_at           timestamptz,
+  synced_at           timestamptz,
+  UNIQUE (connection_id, candidate_id)
+);
+
+-- Outbound webhooks (functions/_shared/events.ts).  Owners subscribe URLs to
+-- pipeline events; every event sent to a subscription is logged as a
+-- delivery, made and retried by job_worker and replayable through
+-- webhook_deliveries.
+CREATE TABLE IF NOT EXISTS public.webhook_subscriptions (
+  id           uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id       uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  url          text NOT NULL CHECK (url LIKE 'https://%'),
+  secret       text NOT NULL DEFAULT encode(gen_random_bytes(32), 'hex'),  -- signs the HireLoop-Signature header
+  events       text[],           -- event types to send, e.g. '{candidate.screened,meeting.scheduled}'; null for all
+  format       text DEFAULT 'json',  -- json|slack (Slack incoming webhook message)
+  description  text,
+  active       boolean DEFAULT true,
+  created_at   timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+  id               uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id  uuid REFERENCES public.webhook_subscriptions(id) ON DELETE CASCADE,
+  org_id           uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  event_id         text NOT NULL,    -- same for every emission of one event
+  event_type       text NOT NULL,
+  payload          jsonb NOT NULL,   -- the event as sent: { id, type, created_at, org_id, data }
+  status           text DEFAULT 'pending',  -- pending|delivered|retrying|failed
+  attempts         int DEFAULT 0,
+  replays          int DEFAULT 0,
+  response_status  int,              -- HTTP status of the last attempt; the response body is never kept
+  last_error       text,
+  last_attempt_at  timestamptz,
+  delivered_at     timestamptz,
+  created_at       timestamptz DEFAULT now(),
+  UNIQUE (subscription_id, event_id)
+);
+
+-- Bulk resume screening (functions/bulk_screen.ts).  Progress is counted
+-- from the items; `rounds` numbers the queued runs of the batch.
+CREATE TABLE IF NOT EXISTS public.screening_batches (
+  id           uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id       uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  role_id      uuid REFERENCES public.roles(id) ON DELETE CASCADE,
+  created_by   uuid REFERENCES public.profiles(id),
+  source       text,             -- 'paths' or 'zip:<bucket>/<path>'
+  status       text DEFAULT 'running',  -- running|finished
+  rounds       int DEFAULT 0,
+  created_at   timestamptz DEFAULT now(),
+  finished_at  timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS public.screening_batch_items (
+  id            uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id      uuid REFERENCES public.screening_batches(id) ON DELETE CASCADE,
+  role_id       uuid REFERENCES public.roles(id) ON DELETE CASCADE,
+  bucket        text NOT NULL,
+  path          text NOT NULL,    -- storage path of the resume
+  filename      text,             -- name the file was uploaded as
+  status        text DEFAULT 'queued',  -- queued|running|done|skipped|failed
+  attempts      int DEFAULT 0,
+  content_hash  text,             -- SHA-256 of the file, once read
+  prompt_key    text,             -- screen_resume prompt versions it was screened under
+  candidate_id  uuid REFERENCES public.candidates(id) ON DELETE SET NULL,
+  error         text,             -- last failure
+  started_at    timestamptz,
+  finished_at   timestamptz,
+  created_at    timestamptz DEFAULT now(),
+  UNIQUE (batch_id, bucket, path)
+);
+
+-- Config table stores editable JSON settings (prompts live in `prompts`)
 CREATE TABLE IF NOT EXISTS public.config (
   key        text PRIMARY KEY,
   value      jsonb,
   updated_at timestamptz DEFAULT now()
 );
 
+-- Versioned LLM prompt templates (functions/_shared/prompts.ts).  Rows
+-- without an org apply to every org; an org's own active rows for a prompt
+-- replace them.  The highest version of each variant is used, and several
+-- variants of one prompt are A/B tested in proportion to `weight`.
+CREATE TABLE IF NOT EXISTS public.prompts (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id      uuid REFERENCES public.organizations(id) ON DELETE CASCADE,  -- null = every org
+  name        text NOT NULL,     -- parse_jd|screen_resume|outreach_body|outreach_subject|classify_reply
+  version     int NOT NULL,
+  variant     text NOT NULL DEFAULT 'a',
+  system      text,
+  template    text NOT NULL,     -- {{placeholders}} filled by the calling function
+  weight      int DEFAULT 1,     -- share of candidates assigned this variant; 0 pauses it
+  active      boolean DEFAULT true,
+  notes       text,
+  created_at  timestamptz DEFAULT now(),
+  UNIQUE (org_id, name, version, variant)
+);
+
+-- Shortlist files written by export_shortlist, with the signed URL handed out
+CREATE TABLE IF NOT EXISTS public.shortlist_exports (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  role_id     uuid REFERENCES public.roles(id) ON DELETE CASCADE,
+  format      text NOT NULL,      -- 'csv'|'xlsx'|'pdf'|'json'
+  path        text NOT NULL,      -- object path in the exports bucket
+  columns     text[],
+  statuses    text[],
+  row_count   int,
+  signed_url  text,
+  expires_at  timestamptz,
+  created_at  timestamptz DEFAULT now()
+);
+
+-- Private storage bucket for uploaded resumes (PDF/DOCX), read by ingest_resume
+INSERT INTO storage.buckets (id, name, public) VALUES ('resumes', 'resumes', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Private storage bucket for shortlist exports, served through signed URLs
+INSERT INTO storage.buckets (id, name, public) VALUES ('exports', 'exports', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Candidates of an organisation nearest to an embedding by cosine
+-- similarity, used by semantic_search and the pipeline daemon.  Vector sizes
+-- differ between models, so only rows embedded with `match_model` are
+-- compared; rows of `exclude_role` are left out.
+CREATE OR REPLACE FUNCTION public.match_candidates(
+  query_embedding vector,
+  match_org       uuid,
+  match_model     text,
+  exclude_role    uuid DEFAULT NULL,
+  match_statuses  text[] DEFAULT NULL,
+  match_count     int DEFAULT 20
+) RETURNS TABLE (id uuid, role_id uuid, similarity float)
+LANGUAGE sql STABLE AS $$
+  SELECT c.id, c.role_id, 1 - (c.embedding <=> query_embedding) AS similarity
+  FROM public.candidates c
+  JOIN public.roles r ON r.id = c.role_id
+  WHERE r.org_id = match_org
+    AND c.embedding IS NOT NULL
+    AND c.embedding_model = match_model
+    AND (exclude_role IS NULL OR c.role_id <> exclude_role)
+    AND (match_statuses IS NULL OR c.status = ANY(match_statuses))
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+-- Drop an embedding once the text it was made from changes, whichever
+-- function wrote the change; the next backfill (or the writer itself, after
+-- the update) embeds the row again.  Storing a new vector touches neither
+-- list of columns, so it does not fire these.
+CREATE OR REPLACE FUNCTION public.clear_stale_embedding() RETURNS trigger
+LANGUAGE plpgsql AS $$
+BEGIN
+  NEW.embedding := NULL;
+  NEW.embedding_model := NULL;
+  NEW.embedded_at := NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS candidates_clear_stale_embedding ON public.candidates;
+CREATE TRIGGER candidates_clear_stale_embedding
+  BEFORE UPDATE OF current_title, company, location, summary, profile, resume_text ON public.candidates
+  FOR EACH ROW
+  WHEN (OLD.current_title IS DISTINCT FROM NEW.current_title OR OLD.company IS DISTINCT FROM NEW.company
+    OR OLD.location IS DISTINCT FROM NEW.location OR OLD.summary IS DISTINCT FROM NEW.summary
+    OR OLD.profile IS DISTINCT FROM NEW.profile OR OLD.resume_text IS DISTINCT FROM NEW.resume_text)
+  EXECUTE FUNCTION public.clear_stale_embedding();
+
+DROP TRIGGER IF EXISTS roles_clear_stale_embedding ON public.roles;
+CREATE TRIGGER roles_clear_stale_embedding
+  BEFORE UPDATE OF title, description, parsed_json ON public.roles
+  FOR EACH ROW
+  WHEN (OLD.title IS DISTINCT FROM NEW.title OR OLD.description IS DISTINCT FROM NEW.description
+    OR OLD.parsed_json IS DISTINCT FROM NEW.parsed_json)
+  EXECUTE FUNCTION public.clear_stale_embedding();
+
+-- Remove a person erased by data_subject from the logs that copy their
+-- details: webhook deliveries about them are deleted, and jobs of the org
+-- whose payload names one of their candidates or mentions one of `terms`
+-- (ILIKE patterns) lose their payload and result; queued ones are not run.
+CREATE OR REPLACE FUNCTION public.scrub_subject(
+  scrub_org      uuid,
+  candidate_ids  uuid[],
+  terms          text[] DEFAULT '{}'
+) RETURNS TABLE (deliveries int, jobs int)
+LANGUAGE plpgsql AS $$
+DECLARE
+  ids text[] := candidate_ids::text[];
+BEGIN
+  DELETE FROM public.webhook_deliveries d
+  WHERE d.org_id = scrub_org
+    AND (d.payload->'data'->'candidate'->>'id' = ANY(ids) OR d.payload::text ILIKE ANY(terms));
+  GET DIAGNOSTICS deliveries = ROW_COUNT;
+  UPDATE public.jobs j
+  SET payload = NULL,
+      result = NULL,
+      status = CASE WHEN j.status = 'queued' THEN 'dead' ELSE j.status END,
+      last_error = CASE WHEN j.status = 'queued' THEN 'Erased by a data subject request' ELSE j.last_error END
+  WHERE j.org_id = scrub_org
+    AND (j.payload->>'candidate_id' = ANY(ids) OR j.payload::text ILIKE ANY(terms) OR j.result::text ILIKE ANY(terms));
+  GET DIAGNOSTICS jobs = ROW_COUNT;
+  RETURN NEXT;
+END;
+$$;
+
+-- Blank out erased addresses in raw provider webhook bodies.  The rows carry
+-- no org and are kept for replay protection, so they are redacted rather
+-- than deleted.  Returns how many rows changed.
+CREATE OR REPLACE FUNCTION public.redact_webhook_requests(emails text[]) RETURNS int
+LANGUAGE plpgsql AS $$
+DECLARE
+  email     text;
+  pattern   text;
+  redacted  int := 0;
+  changed   int;
+BEGIN
+  FOREACH email IN ARRAY emails LOOP
+    pattern := regexp_replace(email, '([.+*?^$()\[\]{}|\\])', '\\\1', 'g');
+    UPDATE public.webhook_requests
+    SET raw_body = regexp_replace(raw_body, pattern, '[erased]', 'gi')
+    WHERE raw_body ~* pattern;
+    GET DIAGNOSTICS changed = ROW_COUNT;
+    redacted := redacted + changed;
+  END LOOP;
+  RETURN redacted;
+END;
+$$;
+
 -- Enable Row Level Security on all tables
 ALTER TABLE public.profiles     ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.org_members  ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.roles        ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.candidates   ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.outreach_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sequences    ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.outreach     ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.engagements  ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.interviews   ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.candidate_status_history ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.config       ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.prompts      ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.usage_ledger ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.usage_counters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shortlist_exports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.suppressions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.data_subject_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.jobs         ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ats_connections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ats_links    ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.screening_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.screening_batch_items ENABLE ROW LEVEL SECURITY;
 
 -- RLS policies
 
@@ -140,13 +583,47 @@ CREATE POLICY "Roles: members read" ON public.roles
 CREATE POLICY "Roles: recruiters manage" ON public.roles
   FOR ALL USING (EXISTS (SELECT 1 FROM public.org_members m JOIN public.profiles p ON m.user_id = p.id WHERE m.org_id = public.roles.org_id AND m.user_id = auth.uid() AND p.role IN ('admin','recruiter')));
 
--- Candidates: access restricted by role ownership
+-- Candidates: access restricted by role ownership.  Clients (viewers, or
+-- members whose profile role is 'client') cannot read the table, which holds
+-- contact details; they read public.client_candidates instead
 CREATE POLICY "Candidates: members read" ON public.candidates
-  FOR SELECT USING (EXISTS (SELECT 1 FROM public.roles r JOIN public.org_members m ON r.org_id = m.org_id WHERE r.id = public.candidates.role_id AND m.user_id = auth.uid()));
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.roles r JOIN public.org_members m ON r.org_id = m.org_id JOIN public.profiles p ON m.user_id = p.id WHERE r.id = public.candidates.role_id AND m.user_id = auth.uid() AND m.org_role <> 'viewer' AND p.role <> 'client'));
 
 CREATE POLICY "Candidates: recruiters manage" ON public.candidates
   FOR ALL USING (EXISTS (SELECT 1 FROM public.roles r JOIN public.org_members m ON r.org_id = m.org_id JOIN public.profiles p ON m.user_id = p.id WHERE r.id = public.candidates.role_id AND m.user_id = auth.uid() AND p.role IN ('admin','recruiter')));
 
+-- Client-safe candidate list: every member of the role's organisation can
+-- read it, but it leaves out email, LinkedIn, public URL, resume and the
+-- enrichment record.  The view runs with its owner's rights, so it filters
+-- on membership itself rather than through the table's policies.
+CREATE OR REPLACE VIEW public.client_candidates AS
+  SELECT c.id, c.role_id, c.name, c.current_title, c.company, c.location,
+         c.summary, c.culture_score, c.technical_score, c.experience_score,
+         c.fit_score, c.score_breakdown, c.screening, c.status, c.source,
+         c.created_at
+  FROM public.candidates c
+  WHERE EXISTS (SELECT 1 FROM public.roles r JOIN public.org_members m ON r.org_id = m.org_id WHERE r.id = c.role_id AND m.user_id = auth.uid());
+
+REVOKE ALL ON public.client_candidates FROM anon;
+GRANT SELECT ON public.client_candidates TO authenticated;
+
+-- Shortlist exports: members of the role's organisation can see past exports
+CREATE POLICY "Exports: members read" ON public.shortlist_exports
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.roles r JOIN public.org_members m ON r.org_id = m.org_id WHERE r.id = public.shortlist_exports.role_id AND m.user_id = auth.uid()));
+
+-- Templates and sequences: members read, recruiters manage
+CREATE POLICY "Templates: members read" ON public.outreach_templates
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.org_members m WHERE m.org_id = public.outreach_templates.org_id AND m.user_id = auth.uid()));
+
+CREATE POLICY "Templates: recruiters manage" ON public.outreach_templates
+  FOR ALL USING (EXISTS (SELECT 1 FROM public.org_members m JOIN public.profiles p ON m.user_id = p.id WHERE m.org_id = public.outreach_templates.org_id AND m.user_id = auth.uid() AND p.role IN ('admin','recruiter')));
+
+CREATE POLICY "Sequences: members read" ON public.sequences
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.roles r JOIN public.org_members m ON r.org_id = m.org_id WHERE r.id = public.sequences.role_id AND m.user_id = auth.uid()));
+
+CREATE POLICY "Sequences: recruiters manage" ON public.sequences
+  FOR ALL USING (EXISTS (SELECT 1 FROM public.roles r JOIN public.org_members m ON r.org_id = m.org_id JOIN public.profiles p ON m.user_id = p.id WHERE r.id = public.sequences.role_id AND m.user_id = auth.uid() AND p.role IN ('admin','recruiter')));
+
 -- Outreach and engagements: only recruiters can see full details, but clients can see event counts
 CREATE POLICY "Outreach: recruiters read" ON public.outreach
   FOR SELECT USING (EXISTS (SELECT 1 FROM public.candidates c JOIN public.roles r ON c.role_id = r.id JOIN public.org_members m ON r.org_id = m.org_id JOIN public.profiles p ON m.user_id = p.id WHERE c.id = public.outreach.candidate_id AND m.user_id = auth.uid() AND p.role IN ('admin','recruiter')));
@@ -160,6 +637,76 @@ CREATE POLICY "Engagements: members read" ON public.engagements
 CREATE POLICY "Engagements: recruiters write" ON public.engagements
   FOR ALL USING (EXISTS (SELECT 1 FROM public.candidates c JOIN public.roles r ON c.role_id = r.id JOIN public.org_members m ON r.org_id = m.org_id JOIN public.profiles p ON m.user_id = p.id WHERE c.id = public.engagements.candidate_id AND m.user_id = auth.uid() AND p.role IN ('admin','recruiter')));
 
+-- Interviews: members read (clients follow the interview stage), recruiters manage
+CREATE POLICY "Interviews: members read" ON public.interviews
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.roles r JOIN public.org_members m ON r.org_id = m.org_id WHERE r.id = public.interviews.role_id AND m.user_id = auth.uid()));
+
+CREATE POLICY "Interviews: recruiters manage" ON public.interviews
+  FOR ALL USING (EXISTS (SELECT 1 FROM public.roles r JOIN public.org_members m ON r.org_id = m.org_id JOIN public.profiles p ON m.user_id = p.id WHERE r.id = public.interviews.role_id AND m.user_id = auth.uid() AND p.role IN ('admin','recruiter')));
+
+-- Status history: members read; rows are only written by edge functions
+CREATE POLICY "Status history: members read" ON public.candidate_status_history
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.candidates c JOIN public.roles r ON c.role_id = r.id JOIN public.org_members m ON r.org_id = m.org_id WHERE c.id = public.candidate_status_history.candidate_id AND m.user_id = auth.uid()));
+
+-- Suppressions: members read, recruiters manage; erasure requests are visible to owners only
+CREATE POLICY "Suppressions: members read" ON public.suppressions
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.org_members m WHERE m.org_id = public.suppressions.org_id AND m.user_id = auth.uid()));
+
+CREATE POLICY "Suppressions: recruiters manage" ON public.suppressions
+  FOR ALL USING (EXISTS (SELECT 1 FROM public.org_members m JOIN public.profiles p ON m.user_id = p.id WHERE m.org_id = public.suppressions.org_id AND m.user_id = auth.uid() AND p.role IN ('admin','recruiter')));
+
+CREATE POLICY "Data subject requests: owners read" ON public.data_subject_requests
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.org_members m WHERE m.org_id = public.data_subject_requests.org_id AND m.user_id = auth.uid() AND m.org_role = 'owner'));
+
+-- Jobs: owners read their organisation's jobs; only the service role writes
+CREATE POLICY "Jobs: owners read" ON public.jobs
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.org_members m WHERE m.org_id = public.jobs.org_id AND m.user_id = auth.uid() AND m.org_role = 'owner'));
+
+-- ATS: members read their organisation's connection and links; owners
+-- manage the connection, only the service role writes links
+CREATE POLICY "ATS connections: members read" ON public.ats_connections
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.org_members m WHERE m.org_id = public.ats_connections.org_id AND m.user_id = auth.uid()));
+
+CREATE POLICY "ATS connections: owners manage" ON public.ats_connections
+  FOR ALL USING (EXISTS (SELECT 1 FROM public.org_members m WHERE m.org_id = public.ats_connections.org_id AND m.user_id = auth.uid() AND m.org_role = 'owner'));
+
+CREATE POLICY "ATS links: members read" ON public.ats_links
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.ats_connections a JOIN public.org_members m ON m.org_id = a.org_id WHERE a.id = public.ats_links.connection_id AND m.user_id = auth.uid()));
+
+-- Outbound webhooks: owners manage subscriptions, which hold the signing
+-- secret, and read the delivery log; only the service role writes deliveries
+CREATE POLICY "Webhook subscriptions: owners manage" ON public.webhook_subscriptions
+  FOR ALL USING (EXISTS (SELECT 1 FROM public.org_members m WHERE m.org_id = public.webhook_subscriptions.org_id AND m.user_id = auth.uid() AND m.org_role = 'owner'));
+
+CREATE POLICY "Webhook deliveries: owners read" ON public.webhook_deliveries
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.org_members m WHERE m.org_id = public.webhook_deliveries.org_id AND m.user_id = auth.uid() AND m.org_role = 'owner'));
+
+-- Screening batches: members read; only the service role writes
+CREATE POLICY "Screening batches: members read" ON public.screening_batches
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.org_members m WHERE m.org_id = public.screening_batches.org_id AND m.user_id = auth.uid()));
+
+CREATE POLICY "Screening batch items: members read" ON public.screening_batch_items
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.screening_batches b JOIN public.org_members m ON m.org_id = b.org_id WHERE b.id = public.screening_batch_items.batch_id AND m.user_id = auth.uid()));
+
+-- Prompts: members read the shared prompts and their organisation's own;
+-- owners manage their organisation's overrides and variants
+CREATE POLICY "Prompts: members read" ON public.prompts
+  FOR SELECT USING (public.prompts.org_id IS NULL OR EXISTS (SELECT 1 FROM public.org_members m WHERE m.org_id = public.prompts.org_id AND m.user_id = auth.uid()));
+
+CREATE POLICY "Prompts: owners manage" ON public.prompts
+  FOR ALL USING (EXISTS (SELECT 1 FROM public.org_members m WHERE m.org_id = public.prompts.org_id AND m.user_id = auth.uid() AND m.org_role = 'owner'));
+
+-- Webhook requests: no policies, only the service role (edge functions) can
+-- read or write the raw audit log.
+
+-- Usage: members can read their organisation's ledger and totals; only the
+-- service role writes them.  Rate-limit buckets have no policies.
+CREATE POLICY "Usage ledger: members read" ON public.usage_ledger
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.org_members m WHERE m.org_id = public.usage_ledger.org_id AND m.user_id = auth.uid()));
+
+CREATE POLICY "Usage counters: members read" ON public.usage_counters
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.org_members m WHERE m.org_id = public.usage_counters.org_id AND m.user_id = auth.uid()));
+
 -- Config: owners and service roles can manage; members can read
 CREATE POLICY "Config: members read" ON public.config
   FOR SELECT USING (auth.role() IN ('authenticated','service_role'));
@@ -0,0 +1,156 @@
+/*
+ * Fake Greenhouse and Lever APIs for developing the ATS connectors.
+ *
+ * Implements the handful of endpoints backend/functions/_shared/ats.ts calls,
+ * under `/greenhouse` and `/lever`, so an `ats_connections` row can point its
+ * `base_url` at http://localhost:4010/greenhouse (or /lever) with any API key
+ * (the edge functions need ATS_ALLOW_CUSTOM_BASE_URL=true to call it).
+ * A few extra endpoints stand in for the recruiter working in the ATS:
+ *
+ *   POST /greenhouse/v1/applications/:id/move    { "stage": "Phone Screen" }
+ *   POST /greenhouse/v1/applications/:id/reject
+ *   POST /greenhouse/v1/applications/:id/hire
+ *   PUT  /lever/v1/opportunities/:id/stage       { "stage": "Phone Screen" }
+ *   PUT  /lever/v1/opportunities/:id/archived    { "reason": "hired" | "not-a-fit" }
+ *   GET  /state                                  everything pushed so far
+ *
+ * All data is kept in memory and resets when the server restarts.
+ */
+
+const http = require('http');
+
+const PORT = process.env.FAKE_ATS_PORT || 4010;
+
+const store = {
+  greenhouse: { candidates: [], applications: [], notes: [], attachments: [] },
+  lever: { opportunities: [], notes: [], files: [] },
+};
+
+let nextId = 1000;
+
+function json(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function now() {
+  return new Date().toISOString();
+}
+
+function slug(text) {
+  return String(text).toLowerCase().replace(/[^a-z0-9]+/g, '-');
+}
+
+// Greenhouse Harvest API
+function routeGreenhouse(req, res, url, body) {
+  const gh = store.greenhouse;
+  let m;
+  if (req.method === 'POST' && url.pathname === '/v1/prospects') {
+    const candidate = { id: nextId++, first_name: body.first_name, last_name: body.last_name, company: body.company, title: body.title, email_addresses: body.email_addresses || [], custom_fields: body.custom_fields || [], applications: [] };
+    for (const jobId of (body.application && body.application.job_ids) || []) {
+      const application = { id: nextId++, candidate_id: candidate.id, job_id: String(jobId), prospect: true, status: 'active', current_stage: null, prospect_detail: { prospect_stage: { name: 'Prospect' } }, last_activity_at: now() };
+      gh.applications.push(application);
+      candidate.applications.push({ id: application.id, jobs: [{ id: Number(jobId) }] });
+    }
+    gh.candidates.push(candidate);
+    return json(res, 201, candidate);
+  }
+  if (req.method === 'POST' && (m = url.pathname.match(/^\/v1\/candidates\/(\d+)\/activity_feed\/notes$/))) {
+    gh.notes.push({ candidate_id: Number(m[1]), body: body.body, user_id: body.user_id });
+    return json(res, 201, { id: nextId++ });
+  }
+  if (req.method === 'POST' && (m = url.pathname.match(/^\/v1\/candidates\/(\d+)\/attachments$/))) {
+    gh.attachments.push({ candidate_id: Number(m[1]), filename: body.filename, type: body.type, bytes: Buffer.from(body.content || '', 'base64').length });
+    return json(res, 201, { filename: body.filename, type: body.type });
+  }
+  if (req.method === 'GET' && url.pathname === '/v1/candidates') {
+    const email = (url.searchParams.get('email') || '').toLowerCase();
+    return json(res, 200, gh.candidates.filter((c) => !email || c.email_addresses.some((e) => e.value.toLowerCase() === email)));
+  }
+  if (req.method === 'GET' && url.pathname === '/v1/applications') {
+    const after = url.searchParams.get('last_activity_after');
+    const perPage = Number(url.searchParams.get('per_page') || 100);
+    const page = Number(url.searchParams.get('page') || 1);
+    const rows = gh.applications
+      .filter((a) => !url.searchParams.get('job_id') || a.job_id === url.searchParams.get('job_id'))
+      .filter((a) => !after || a.last_activity_at > after);
+    return json(res, 200, rows.slice((page - 1) * perPage, page * perPage));
+  }
+  if (req.method === 'POST' && (m = url.pathname.match(/^\/v1\/applications\/(\d+)\/(move|reject|hire)$/))) {
+    const application = gh.applications.find((a) => a.id === Number(m[1]));
+    if (!application) return json(res, 404, { message: 'Resource not found' });
+    if (m[2] === 'move') application.current_stage = { id: nextId++, name: body.stage };
+    if (m[2] === 'reject') application.status = 'rejected';
+    if (m[2] === 'hire') application.status = 'hired';
+    application.last_activity_at = now();
+    return json(res, 200, application);
+  }
+  return json(res, 404, { message: 'Not found' });
+}
+
+// Lever API
+function routeLever(req, res, url, body) {
+  const lv = store.lever;
+  let m;
+  if (req.method === 'POST' && url.pathname === '/v1/opportunities') {
+    const opportunity = { id: `opp-${nextId++}`, name: body.name, headline: body.headline, emails: body.emails || [], links: body.links || [], tags: body.tags || [], postings: body.postings || [], stage: { id: 'lead-new', text: 'New lead' }, archived: null, updatedAt: Date.now() };
+    lv.opportunities.push(opportunity);
+    return json(res, 201, { data: opportunity });
+  }
+  if (req.method === 'POST' && (m = url.pathname.match(/^\/v1\/opportunities\/([^/]+)\/notes$/))) {
+    lv.notes.push({ opportunity_id: m[1], value: body.value });
+    return json(res, 201, { data: { noteId: `note-${nextId++}` } });
+  }
+  if (req.method === 'POST' && (m = url.pathname.match(/^\/v1\/opportunities\/([^/]+)\/files$/))) {
+    lv.files.push({ opportunity_id: m[1], bytes: body.length });
+    return json(res, 201, { data: { id: `file-${nextId++}` } });
+  }
+  if (req.method === 'GET' && url.pathname === '/v1/archive_reasons') {
+    return json(res, 200, { data: [{ id: 'hired', text: 'Hired', type: 'hired' }, { id: 'not-a-fit', text: 'Not a fit', type: 'non-hired' }] });
+  }
+  if (req.method === 'GET' && url.pathname === '/v1/opportunities') {
+    const start = Number(url.searchParams.get('updated_at_start') || 0);
+    const limit = Number(url.searchParams.get('limit') || 100);
+    const offset = Number(url.searchParams.get('offset') || 0);
+    const rows = lv.opportunities
+      .filter((o) => !url.searchParams.get('posting_id') || o.postings.includes(url.searchParams.get('posting_id')))
+      .filter((o) => !url.searchParams.get('email') || o.emails.some((e) => e.toLowerCase() === url.searchParams.get('email').toLowerCase()))
+      .filter((o) => o.updatedAt >= start);
+    const page = rows.slice(offset, offset + limit);
+    const hasNext = offset + limit < rows.length;
+    return json(res, 200, { data: page, hasNext, next: hasNext ? String(offset + limit) : undefined });
+  }
+  if (req.method === 'PUT' && (m = url.pathname.match(/^\/v1\/opportunities\/([^/]+)\/(stage|archived)$/))) {
+    const opportunity = lv.opportunities.find((o) => o.id === m[1]);
+    if (!opportunity) return json(res, 404, { code: 'ResourceNotFound' });
+    if (m[2] === 'stage') opportunity.stage = { id: slug(body.stage), text: body.stage };
+    if (m[2] === 'archived') opportunity.archived = body.reason ? { reason: body.reason, archivedAt: Date.now() } : null;
+    opportunity.updatedAt = Date.now();
+    return json(res, 200, { data: opportunity });
+  }
+  return json(res, 404, { code: 'NotFound' });
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  if (url.pathname === '/state') return json(res, 200, store);
+  if (!/^Basic /.test(req.headers.authorization || '')) return json(res, 401, { message: 'Missing API key' });
+  const chunks = [];
+  req.on('data', (chunk) => chunks.push(chunk));
+  req.on('end', () => {
+    const raw = Buffer.concat(chunks);
+    let body = raw;
+    if (/json/.test(req.headers['content-type'] || '')) {
+      try { body = JSON.parse(raw.toString() || '{}'); } catch { return json(res, 400, { message: 'Invalid JSON' }); }
+    }
+    const [, provider, ...rest] = url.pathname.split('/');
+    url.pathname = `/${rest.join('/')}`;
+    if (provider === 'greenhouse') return routeGreenhouse(req, res, url, body);
+    if (provider === 'lever') return routeLever(req, res, url, body);
+    json(res, 404, { message: 'Not found' });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Fake ATS (Greenhouse, Lever) running at http://localhost:${PORT}`);
+});
@@ -131,12 +131,20 @@ function handleXraySearch(body, res) {
 
 // Mock apollo_enrich endpoint
 function handleEnrich(body, res) {
-  const enriched = body.leads.map((l) => ({
-    ...l,
-    email: `${l.name.split(' ')[0].toLowerCase()}@example.com`,
-    linkedin: l.public_url || `https://linkedin.com/in/${l.name.split(' ').join('').toLowerCase()}`,
-    company_domain: (l.company || 'example') + '.com',
-  }));
+  const enriched = body.leads.map((l) => {
+    const email = `${l.name.split(' ').join('.').toLowerCase()}@example.com`;
+    const linkedin = /linkedin\.com\/in\//.test(l.public_url || '') ? l.public_url : null;
+    return {
+      ...l,
+      email,
+      linkedin,
+      company_domain: null,
+      match_status: 'matched',
+      fields: { email: { value: email, confidence: 0.1, source: 'mock' } },
+      email_status: 'unverified',
+      contactable: false,
+    };
+  });
   // Insert into candidates with sourced status
   enriched.forEach((lead) => {
     store.candidates.push({
@@ -148,6 +156,9 @@ function handleEnrich(body, res) {
       location: lead.location,
       public_url: lead.public_url,
       linkedin: lead.linkedin,
+      email: lead.email,
+      email_status: lead.email_status,
+      contactable: lead.contactable,
       status: 'sourced',
     });
   });